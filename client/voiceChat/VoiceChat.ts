@@ -13,6 +13,8 @@ import {
   VoicePeerManager,
   type Vector3,
 } from "./client";
+import { getVoiceFeatureFlags, VoiceTransportMode } from "./featureFlags";
+import type { ModerationAction } from "./types";
 
 const voicePeerManager = new VoicePeerManager({
   connectRadius: 45, // align with server proximity radius to ensure peers connect
@@ -59,6 +61,14 @@ export default class VoiceChat {
   negotiationLocks = new Set<string>();
   voiceUi = document.createElement("div");
   totalPlayers: number | null = null;
+  connectionStatus: string | null = null;
+  /** Peers a moderator muted in the current cell. */
+  serverMutedPeers = new Set<string>();
+  selfServerMuted = false;
+  /** SFU mode: the one connection that sends the mic and pulls peers. */
+  sfuPeer: RTCPeerConnection | null = null;
+  /** SFU mode: pulled transceiver mid to the player it carries. */
+  sfuTrackOwners = new Map<string, string>();
 
   updatePannerPosition(peerId: string) {
     const nodes = this.peerAudioNodes.get(peerId);
@@ -84,9 +94,9 @@ export default class VoiceChat {
 
   async init() {
     const renderUi = () => {
-      const status = this.micReady
-        ? "Voice: mic ready"
-        : "Voice: tap to enable mic";
+      const status =
+        this.connectionStatus ??
+        (this.micReady ? "Voice: mic ready" : "Voice: tap to enable mic");
       const count =
         typeof this.totalPlayers === "number"
           ? ` • players: ${Math.max(this.totalPlayers, 1)}`
@@ -272,18 +282,30 @@ export default class VoiceChat {
       const source = audioCtx.createMediaStreamSource(stream);
       const gain = audioCtx.createGain();
       const panner = audioCtx.createPanner();
+      const flags = getVoiceFeatureFlags();
       panner.panningModel = "HRTF";
-      panner.distanceModel = "exponential";
+      panner.distanceModel = flags.pannerDistanceModel;
       panner.refDistance = 1;
-      panner.maxDistance = 80;
+      panner.maxDistance = flags.pannerMaxDistance;
       panner.rolloffFactor = 1;
+      gain.gain.value = this.serverMutedPeers.has(peerId) ? 0 : 1;
       source.connect(gain).connect(panner).connect(audioCtx.destination);
       this.peerAudioNodes.set(peerId, { source, gain, panner });
       this.updatePannerPosition(peerId);
       voiceDebug("remote track attached", peerId);
     };
 
-    const cleanupPeer = (peerId: string) => {
+    const detachRemoteAudio = (peerId: string) => {
+      const nodes = this.peerAudioNodes.get(peerId);
+      if (nodes) {
+        nodes.source.disconnect();
+        nodes.gain.disconnect();
+        nodes.panner.disconnect();
+        this.peerAudioNodes.delete(peerId);
+      }
+    };
+
+    const closePeerConnection = (peerId: string) => {
       const pc = this.rtcPeers.get(peerId);
       if (pc) {
         pc.onicecandidate = null;
@@ -293,13 +315,6 @@ export default class VoiceChat {
       }
       this.rtcPeers.delete(peerId);
 
-      const nodes = this.peerAudioNodes.get(peerId);
-      if (nodes) {
-        nodes.source.disconnect();
-        nodes.gain.disconnect();
-        nodes.panner.disconnect();
-        this.peerAudioNodes.delete(peerId);
-      }
       const channel = this.peerDataChannels.get(peerId);
       if (channel) {
         try {
@@ -309,9 +324,103 @@ export default class VoiceChat {
         }
         this.peerDataChannels.delete(peerId);
       }
+    };
+
+    const cleanupPeer = (peerId: string) => {
+      closePeerConnection(peerId);
+      detachRemoteAudio(peerId);
       removePeerCapsule(peerId);
     };
 
+    // While muted, the shard refuses offers that would send audio, so local
+    // tracks are switched off and negotiated as receive-only.
+    const applySelfMute = (pc: RTCPeerConnection) => {
+      for (const transceiver of pc.getTransceivers()) {
+        if (transceiver.sender.track?.kind !== "audio") continue;
+        transceiver.sender.track.enabled = !this.selfServerMuted;
+        // The SFU upstream stays sendonly; the shard stops peers pulling it.
+        if (pc === this.sfuPeer) continue;
+        transceiver.direction = this.selfServerMuted ? "recvonly" : "sendrecv";
+      }
+    };
+
+    const applySelfMuteEverywhere = () => {
+      this.rtcPeers.forEach(applySelfMute);
+      if (this.sfuPeer) applySelfMute(this.sfuPeer);
+    };
+
+    const closeSfu = () => {
+      const pc = this.sfuPeer;
+      this.sfuPeer = null;
+      if (pc) {
+        pc.ontrack = null;
+        pc.onconnectionstatechange = null;
+        pc.close();
+      }
+      for (const peerId of this.sfuTrackOwners.values()) {
+        detachRemoteAudio(peerId);
+      }
+      this.sfuTrackOwners.clear();
+    };
+
+    // Publishes the mic on a fresh SFU connection. Each cell brokers its own
+    // sessions, so this runs again after a handoff or a rejoin.
+    const startSfu = async () => {
+      closeSfu();
+      const pc = new RTCPeerConnection({
+        iceServers: this.iceServers,
+        bundlePolicy: "max-bundle",
+      });
+      this.sfuPeer = pc;
+
+      const stream = await ensureLocalStream();
+      const track = stream?.getAudioTracks()[0];
+      const upstream = pc.addTransceiver(track ?? "audio", {
+        direction: "sendonly",
+        streams: stream ? [stream] : [],
+      });
+      applySelfMute(pc);
+
+      pc.ontrack = (event) => {
+        const mid = event.transceiver.mid;
+        const peerId = mid ? this.sfuTrackOwners.get(mid) : undefined;
+        if (!peerId) {
+          voiceDebug("sfu track without owner", mid);
+          return;
+        }
+        attachRemoteAudio(peerId, new MediaStream([event.track]));
+      };
+      pc.onconnectionstatechange = () => {
+        voiceDebug("sfu pc state", pc.connectionState);
+      };
+
+      try {
+        const offer = await pc.createOffer();
+        await pc.setLocalDescription(offer);
+        const answer = await this.connection!.publishSfuTrack(
+          offer.sdp!,
+          upstream.mid!,
+        );
+        if (this.sfuPeer !== pc) return;
+        await pc.setRemoteDescription({ type: "answer", sdp: answer });
+        voiceDebug("sfu track published", upstream.mid);
+      } catch (error) {
+        console.warn("Voice chat: SFU publish failed", error);
+      }
+    };
+
+    const setPeerServerMuted = (peerId: string, muted: boolean) => {
+      if (muted) {
+        this.serverMutedPeers.add(peerId);
+      } else {
+        this.serverMutedPeers.delete(peerId);
+      }
+      const nodes = this.peerAudioNodes.get(peerId);
+      if (nodes) {
+        nodes.gain.gain.value = muted ? 0 : 1;
+      }
+    };
+
     const createPeerConnection = async (
       peerId: string,
     ): Promise<RTCPeerConnection | null> => {
@@ -430,6 +539,7 @@ export default class VoiceChat {
           pc.addTrack(track, stream);
           voiceDebug("addTrack to new peer", peerId, track.id);
         }
+        applySelfMute(pc);
       }
 
       return pc;
@@ -440,6 +550,14 @@ export default class VoiceChat {
       if (!stream) return;
 
       const tracks = stream.getAudioTracks();
+      // The SFU upstream was published without a mic; no renegotiation needed.
+      const upstream = this.sfuPeer
+        ?.getTransceivers()
+        .find((transceiver) => transceiver.direction === "sendonly");
+      if (upstream && !upstream.sender.track && tracks[0]) {
+        await upstream.sender.replaceTrack(tracks[0]);
+        applySelfMute(this.sfuPeer!);
+      }
       for (const pc of this.rtcPeers.values()) {
         const senders = pc.getSenders();
         const hasTrack = senders.some(
@@ -449,6 +567,7 @@ export default class VoiceChat {
         for (const track of tracks) {
           try {
             pc.addTrack(track, stream);
+            applySelfMute(pc);
             voiceDebug("backfill track to existing peer", track.id);
           } catch (error) {
             console.warn(
@@ -521,16 +640,95 @@ export default class VoiceChat {
         joinResult.cellWebSocketUrl,
       );
       this.iceServers = joinResult.iceServers;
+      let sfuMode = joinResult.transportMode === VoiceTransportMode.SFU;
 
       this.connection = await connectCellWS({
         url: joinResult.cellWebSocketUrl,
         playerId,
         sessionToken: joinResult.sessionToken,
+        cellId: joinResult.cellId,
+        wireFormat: "binary",
+        reconnect: {
+          rejoin: async () => {
+            const rejoined = await joinWorld({
+              baseUrl: voiceBaseUrl,
+              playerId,
+              position: getPosition(),
+            });
+            this.iceServers = rejoined.iceServers;
+            return rejoined;
+          },
+        },
       });
       voiceDebug("ws connected", joinResult.cellWebSocketUrl);
+      this.connection.onLifecycle((event) => {
+        voiceDebug("connection lifecycle", event.type, event);
+        this.connectionStatus =
+          event.type === "reconnecting"
+            ? "Voice: reconnecting…"
+            : event.type === "gave-up"
+              ? "Voice: disconnected"
+              : null;
+        renderUi();
+        // A resumed session keeps its SFU session; a rejoin starts afresh.
+        if (sfuMode && event.type === "reconnected" && !event.resumed) {
+          void startSfu();
+        }
+      });
+      this.connection.onCellChange((cellId) => {
+        voiceDebug("cell handoff complete", cellId, "peers kept", [
+          ...this.rtcPeers.keys(),
+        ]);
+        // Server mutes belong to the old cell; the new one re-sends its own.
+        for (const peerId of Array.from(this.serverMutedPeers)) {
+          setPeerServerMuted(peerId, false);
+        }
+        if (this.selfServerMuted) {
+          this.selfServerMuted = false;
+          applySelfMuteEverywhere();
+        }
+        if (sfuMode) {
+          void startSfu();
+        }
+      });
+      this.connection.onModeration((message) => {
+        voiceDebug("moderation", message.action, message.playerId);
+        if (message.playerId !== playerId) {
+          if (message.action === "mute" || message.action === "unmute") {
+            setPeerServerMuted(message.playerId, message.action === "mute");
+          }
+          return;
+        }
+        if (message.action === "mute" || message.action === "unmute") {
+          this.selfServerMuted = message.action === "mute";
+          applySelfMuteEverywhere();
+          this.connectionStatus = this.selfServerMuted
+            ? "Voice: muted by a moderator"
+            : null;
+        } else {
+          this.connectionStatus = "Voice: removed by a moderator";
+        }
+        renderUi();
+      });
+      this.connection.onSuperseded(() => {
+        console.warn("Voice chat: signed in from another tab or device");
+      });
+      this.connection.onBlockListChange((blocked) => {
+        voiceDebug("block list", blocked);
+      });
 
       this.connection.attachPeerManager(voicePeerManager);
       this.connection.startHeartbeat();
+      // Credentials from the join expire; connections made later, and ICE
+      // restarts of existing ones, use the fresh servers.
+      this.connection.onTurnCredentials((iceServers) => {
+        voiceDebug("turn credentials refreshed");
+        this.iceServers = iceServers;
+        for (const pc of [...this.rtcPeers.values(), this.sfuPeer]) {
+          pc?.setConfiguration({ ...pc.getConfiguration(), iceServers });
+        }
+      });
+      this.connection.startTurnRefresh();
       this.connection.startPositionUpdates(getPosition, {
         intervalMs: 50,
         peerManager: voicePeerManager,
@@ -572,8 +770,34 @@ export default class VoiceChat {
           renderUi();
         }
       });
+      this.connection.onSfuTracks(async (message) => {
+        const pc = this.sfuPeer;
+        if (!pc) return;
+        const owners = new Map(Object.entries(message.tracks));
+        for (const [mid, peerId] of this.sfuTrackOwners) {
+          if (owners.get(mid) !== peerId) {
+            detachRemoteAudio(peerId);
+          }
+        }
+        this.sfuTrackOwners = owners;
+        voiceDebug("sfu tracks", message.tracks, "offer?", !!message.sdp);
+        if (!message.sdp) return;
+
+        try {
+          await pc.setRemoteDescription({ type: "offer", sdp: message.sdp });
+          const answer = await pc.createAnswer();
+          await pc.setLocalDescription(answer);
+          this.connection?.sendSfuAnswer(answer.sdp!);
+        } catch (error) {
+          console.warn("Voice chat: SFU renegotiation failed", error);
+        }
+      });
       this.connection.onSignal(async (message) => {
         const { from, payload } = message;
+        if (sfuMode) {
+          voiceDebug("ignoring p2p signal in sfu mode", from);
+          return;
+        }
         voiceDebug(
           "signal recv",
           from,
@@ -589,6 +813,9 @@ export default class VoiceChat {
           await pc.setRemoteDescription(
             new RTCSessionDescription(payload as RTCSessionDescriptionInit),
           );
+          // The offer may have paired our track with a new transceiver; a
+          // muted player must still answer receive-only.
+          applySelfMute(pc);
           const answer = await pc.createAnswer();
           await pc.setLocalDescription(answer);
           this.connection?.sendSignal(from, {
@@ -622,11 +849,11 @@ export default class VoiceChat {
       this.connection.onSignalDeliveryFailed((targetId) => {
         voiceDebug("signal delivery failed", targetId);
       });
-      this.connection.onError((msg) => {
-        voiceDebug("cell error", msg);
+      this.connection.onError((error) => {
+        voiceDebug("cell error", error.code, error.message);
       });
 
-      voicePeerManager.onConnect(async (peerId) => {
+      const connectPeer = async (peerId: string) => {
         voiceDebug(
           "voicePeerManager onConnect",
           peerId,
@@ -639,6 +866,8 @@ export default class VoiceChat {
         } else {
           ensurePeerCapsule(peerId);
         }
+        // The shard pulls the peer's SFU track; nothing to negotiate here.
+        if (sfuMode) return;
         const pc = await createPeerConnection(peerId);
         if (!pc) return;
         if (!isInitiatorFor(playerId, peerId)) {
@@ -662,6 +891,28 @@ export default class VoiceChat {
         } catch (error) {
           console.warn("Voice chat: failed to create offer", error);
         }
+      };
+      voicePeerManager.onConnect(connectPeer);
+
+      // The cell moved between mesh and SFU. Going to SFU, the mesh is kept
+      // until the mic is published so peers stay audible meanwhile; each
+      // pulled track then replaces the peer's mesh audio.
+      this.connection.onTransportChange(async (mode) => {
+        const toSfu = mode === VoiceTransportMode.SFU;
+        if (toSfu === sfuMode) return;
+        sfuMode = toSfu;
+        voiceDebug("transport switch", mode);
+        if (toSfu) {
+          await startSfu();
+          for (const peerId of Array.from(this.rtcPeers.keys())) {
+            closePeerConnection(peerId);
+          }
+          return;
+        }
+        closeSfu();
+        for (const peerId of voicePeerManager.getActivePeers()) {
+          await connectPeer(peerId);
+        }
       });
 
       voicePeerManager.onDisconnect((peerId) => {
@@ -674,6 +925,9 @@ export default class VoiceChat {
       const stream = await ensureLocalStream();
       this.micReady = !!stream;
       renderUi();
+      if (sfuMode) {
+        await startSfu();
+      }
       await attachLocalToExistingPeers();
       await audioCtx?.resume().catch(() => {});
       for (const peerId of this.peerAudioNodes.keys()) {
@@ -690,4 +944,26 @@ export default class VoiceChat {
       this.updatePannerPosition(peerId);
     }
   }
+
+  /** The shard drops the peer link, which tears down the RTC connection. */
+  blockPlayer(playerId: string) {
+    this.connection?.block(playerId);
+  }
+
+  unblockPlayer(playerId: string) {
+    this.connection?.unblock(playerId);
+  }
+
+  getBlockedPlayers(): string[] {
+    return this.connection?.getBlockedPlayers() ?? [];
+  }
+
+  /** Needs the moderator role in the join token; see `moderation.md`. */
+  moderatePlayer(
+    action: ModerationAction,
+    playerId: string,
+    options?: { durationMs?: number; reason?: string },
+  ) {
+    this.connection?.moderate(action, playerId, options);
+  }
 }
@@ -1,10 +1,42 @@
-import { VoiceTransportMode, setVoiceFeatureFlags } from "./featureFlags";
+import {
+  CLOSE_KICKED,
+  CLOSE_SESSION_ACTIVE,
+  CLOSE_SUPERSEDED,
+  CLOSE_UNSUPPORTED_PROTOCOL,
+  PROTOCOL_VERSION,
+  RegisterMessage,
+  ResumeMessage,
+  decodeServerMessage,
+} from "../../src/protocol";
+import { parseFeatureFlags } from "../../src/featureFlags";
+import { PeerFrameDecoder, encodePositionFrame } from "../../src/wireFormat";
+import {
+  CellServerError,
+  ClosedBeforeRegisterError,
+  InvalidSessionError,
+  RegistrationTimeoutError,
+  toCellServerError,
+} from "./errors";
+import {
+  VoiceFeatureFlags,
+  VoiceTransportMode,
+  setVoiceFeatureFlags,
+} from "./featureFlags";
 import { VoicePeerManager } from "./peerManager";
 import {
   Vector3,
   PeerDiffMessage,
   SignalMessage,
   CellServerMessage,
+  ConnectionLifecycleEvent,
+  MigrateMessage,
+  ModerationAction,
+  ModerationMessage,
+  RegisteredMessage,
+  SfuTracksMessage,
+  SignalAckMessage,
+  SignalDeliveryResult,
+  WireFormat,
 } from "./types";
 
 export type JoinWorldOptions = {
@@ -13,21 +45,58 @@ export type JoinWorldOptions = {
   playerId: string;
   position: Vector3;
   authToken?: string;
+  worldId?: string;
+  instanceId?: string;
 };
 
 export type JoinWorldResult = {
+  worldId: string;
+  /** The instance joined, which differs from the requested one on overflow. */
+  instanceId?: string;
+  /** Set when the requested cell was full and an overflow instance was used. */
+  overflowIndex?: number;
   cellId: string;
   cellWebSocketUrl: string;
   sessionToken: string;
   transportMode: VoiceTransportMode;
   iceServers: RTCIceServer[];
+  featureFlags: VoiceFeatureFlags;
 };
 
 export type ConnectCellOptions = {
   url: string;
   playerId: string;
   sessionToken: string;
+  cellId?: string;
   webSocketFactory?: typeof WebSocket;
+  /** How long to wait for `registered` before rejecting. */
+  registerTimeoutMs?: number;
+  /** Pass `false` to leave a dropped socket closed. */
+  reconnect?: ReconnectOptions | false;
+  /**
+   * `binary` asks the shard for compact position and peer frames. Shards
+   * that do not know the format keep JSON.
+   */
+  wireFormat?: WireFormat;
+};
+
+/** The part of a `/join` response needed to register on a cell again. */
+export type RejoinResult = {
+  cellId?: string;
+  cellWebSocketUrl: string;
+  sessionToken: string;
+};
+
+export type ReconnectOptions = {
+  /**
+   * Gets a fresh session when the old one can no longer be resumed, usually
+   * by calling `joinWorld` again. Without it the connection gives up once the
+   * shard has dropped the session.
+   */
+  rejoin?: () => Promise<RejoinResult>;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
 };
 
 type PositionUpdateLoopOptions = {
@@ -37,6 +106,32 @@ type PositionUpdateLoopOptions = {
 };
 
 const DEFAULT_BASE_PATH = "";
+const REGISTER_TIMEOUT_MS = 10_000;
+const DEFAULT_RECONNECT_OPTIONS = {
+  initialDelayMs: 500,
+  maxDelayMs: 15_000,
+  maxAttempts: 8,
+};
+// Another socket owns the player, a moderator removed them, or the shard will
+// never accept this client.
+const NO_RECONNECT_CLOSE_CODES = new Set([
+  CLOSE_SUPERSEDED,
+  CLOSE_KICKED,
+  CLOSE_SESSION_ACTIVE,
+  CLOSE_UNSUPPORTED_PROTOCOL,
+]);
+// Comfortably above the shard's 10 s queue TTL.
+const SIGNAL_ACK_TIMEOUT_MS = 15_000;
+const SFU_PUBLISH_TIMEOUT_MS = 15_000;
+// Well inside the worker's default 4 h TURN credential lifetime.
+const TURN_REFRESH_INTERVAL_MS = 60 * 60_000;
+
+type PendingSignal = {
+  targetId: string;
+  socket: WebSocket;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: SignalDeliveryResult) => void;
+};
 
 const ensureAbsoluteJoinUrl = (baseUrl?: string): string => {
   if (baseUrl) {
@@ -65,8 +160,17 @@ const parseJoinResponse = async (
     throw new Error("Join response is malformed");
   }
 
-  const { cellId, cellWebSocketUrl, sessionToken, transportMode, iceServers } =
-    json as Partial<JoinWorldResult>;
+  const {
+    worldId,
+    instanceId,
+    overflowIndex,
+    cellId,
+    cellWebSocketUrl,
+    sessionToken,
+    transportMode,
+    iceServers,
+    featureFlags,
+  } = json as Partial<JoinWorldResult>;
 
   if (
     typeof cellId !== "string" ||
@@ -82,11 +186,16 @@ const parseJoinResponse = async (
       : VoiceTransportMode.P2P;
 
   return {
+    worldId: typeof worldId === "string" ? worldId : "default",
+    instanceId: typeof instanceId === "string" ? instanceId : undefined,
+    overflowIndex:
+      typeof overflowIndex === "number" ? overflowIndex : undefined,
     cellId,
     cellWebSocketUrl,
     sessionToken,
     transportMode: mode,
     iceServers: Array.isArray(iceServers) ? (iceServers as RTCIceServer[]) : [],
+    featureFlags: parseFeatureFlags(featureFlags),
   };
 };
 
@@ -104,6 +213,8 @@ export const joinWorld = async (
       playerId: options.playerId,
       position: options.position,
       authToken: options.authToken,
+      worldId: options.worldId,
+      instanceId: options.instanceId,
     }),
   });
 
@@ -114,8 +225,10 @@ export const joinWorld = async (
 
   const joinResult = await parseJoinResponse(response);
 
+  // `sfu` reports the transport granted, which world policy can override.
   setVoiceFeatureFlags({
-    sfuEnabled: joinResult.transportMode === VoiceTransportMode.SFU,
+    ...joinResult.featureFlags,
+    sfu: joinResult.transportMode === VoiceTransportMode.SFU,
   });
 
   return joinResult;
@@ -123,37 +236,244 @@ export const joinWorld = async (
 
 type HandlerDisposer = () => void;
 
+/**
+ * Exponential backoff with equal jitter: half of each delay is fixed, half
+ * random, so clients dropped together do not reconnect together.
+ */
+export const reconnectDelay = (
+  attempt: number,
+  options: { initialDelayMs: number; maxDelayMs: number },
+  random: () => number = Math.random,
+): number => {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+const waitForOpen = (ws: WebSocket): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    const handleOpen = (): void => {
+      ws.removeEventListener("open", handleOpen);
+      ws.removeEventListener("error", handleError);
+      ws.removeEventListener("close", handleCloseBeforeOpen);
+      resolve();
+    };
+
+    const handleError = (event: Event): void => {
+      ws.removeEventListener("open", handleOpen);
+      ws.removeEventListener("error", handleError);
+      ws.removeEventListener("close", handleCloseBeforeOpen);
+      reject(new ClosedBeforeRegisterError(null, event.type, false));
+    };
+
+    const handleCloseBeforeOpen = (event: CloseEvent): void => {
+      ws.removeEventListener("open", handleOpen);
+      ws.removeEventListener("error", handleError);
+      ws.removeEventListener("close", handleCloseBeforeOpen);
+      reject(new ClosedBeforeRegisterError(event.code, event.reason, false));
+    };
+
+    ws.addEventListener("open", handleOpen);
+    ws.addEventListener("error", handleError);
+    ws.addEventListener("close", handleCloseBeforeOpen);
+  });
+};
+
+const waitForRegistered = (
+  ws: WebSocket,
+  timeoutMs: number,
+): Promise<RegisteredMessage> => {
+  return new Promise<RegisteredMessage>((resolve, reject) => {
+    const cleanup = (): void => {
+      clearTimeout(timer);
+      ws.removeEventListener("message", handleMessage);
+      ws.removeEventListener("close", handleClose);
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new RegistrationTimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    const handleMessage = (event: MessageEvent): void => {
+      if (typeof event.data !== "string") {
+        return;
+      }
+
+      const parsed = decodeServerMessage(event.data);
+
+      if (parsed?.type === "registered") {
+        cleanup();
+        resolve(parsed);
+      } else if (parsed?.type === "error") {
+        cleanup();
+        reject(toCellServerError(parsed));
+      }
+    };
+
+    const handleClose = (event: CloseEvent): void => {
+      cleanup();
+      reject(new ClosedBeforeRegisterError(event.code, event.reason, true));
+    };
+
+    ws.addEventListener("message", handleMessage);
+    ws.addEventListener("close", handleClose);
+  });
+};
+
 export class VoiceCellConnection {
-  private readonly ws: WebSocket;
+  private ws: WebSocket;
   private readonly playerId: string;
-  private readonly sessionToken: string;
+  private sessionToken: string;
+  private resumeToken: string | null = null;
+  private url: string | null;
+  private readonly wireFormat: WireFormat;
+  /** Whether the shard behind `ws` accepted the binary format. */
+  private sendsBinaryPositions = false;
+  private readonly webSocketFactory: typeof WebSocket;
+  private cellId: string | null;
   private readonly peerHandlers = new Set<(message: PeerDiffMessage) => void>();
   private readonly signalHandlers = new Set<(message: SignalMessage) => void>();
   private readonly deliveryFailureHandlers = new Set<
     (targetId: string) => void
   >();
-  private readonly errorHandlers = new Set<(message: string) => void>();
+  private readonly errorHandlers = new Set<(error: CellServerError) => void>();
+  private readonly cellChangeHandlers = new Set<(cellId: string) => void>();
+  private readonly supersededHandlers = new Set<() => void>();
+  private readonly blockListHandlers = new Set<(blocked: string[]) => void>();
+  private readonly moderationHandlers = new Set<
+    (message: ModerationMessage) => void
+  >();
+  private readonly transportHandlers = new Set<
+    (transportMode: VoiceTransportMode) => void
+  >();
+  private readonly sfuTracksHandlers = new Set<
+    (message: SfuTracksMessage) => void
+  >();
+  private readonly turnCredentialsHandlers = new Set<
+    (iceServers: RTCIceServer[]) => void
+  >();
+  private pendingSfuPublish: {
+    resolve: (answerSdp: string) => void;
+    reject: (error: CellServerError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+  /** The shard's copy of this player's block list, as last sent. */
+  private blockedPlayers: string[] = [];
+  private readonly lifecycleHandlers = new Set<
+    (event: ConnectionLifecycleEvent) => void
+  >();
+  private readonly reconnectOptions:
+    | (Required<Omit<ReconnectOptions, "rejoin">> &
+        Pick<ReconnectOptions, "rejoin">)
+    | null;
   private isRegistered = false;
+  /** Reconnecting only makes sense once the first registration worked. */
+  private hasRegistered = false;
+  private isReconnecting = false;
+  private isSuperseded = false;
+  private isClosed = false;
+  private handoffSocket: WebSocket | null = null;
+  /** `peers` messages from the destination cell, applied once it takes over. */
+  private handoffPeers: PeerDiffMessage[] = [];
+  /** The destination's active mutes, emitted after `onCellChange`. */
+  private handoffModeration: ModerationMessage[] = [];
+  private readonly pendingSignals = new Map<string, PendingSignal>();
+  private nextSignalId = 1;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private positionTimer: ReturnType<typeof setInterval> | null = null;
-
-  constructor(socket: WebSocket, playerId: string, sessionToken: string) {
+  private turnRefreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    socket: WebSocket,
+    playerId: string,
+    sessionToken: string,
+    options: {
+      cellId?: string;
+      url?: string;
+      webSocketFactory?: typeof WebSocket;
+      reconnect?: ReconnectOptions | false;
+      wireFormat?: WireFormat;
+    } = {},
+  ) {
     this.ws = socket;
     this.playerId = playerId;
     this.sessionToken = sessionToken;
+    this.cellId = options.cellId ?? null;
+    this.url = options.url ?? null;
+    this.wireFormat = options.wireFormat ?? "json";
+    this.reconnectOptions =
+      options.reconnect === false
+        ? null
+        : { ...DEFAULT_RECONNECT_OPTIONS, ...options.reconnect };
+    this.webSocketFactory = options.webSocketFactory ?? WebSocket;
+    this.bindSocket(socket);
+  }
 
-    this.ws.addEventListener("message", (event) => {
-      if (typeof event.data !== "string") {
+  getCellId(): string | null {
+    return this.cellId;
+  }
+
+  private bindSocket(socket: WebSocket): void {
+    // Every binary frame goes through the decoder, whichever socket role it
+    // arrives in, so its peer id table stays in step with the shard's.
+    const peerDecoder = new PeerFrameDecoder();
+    socket.binaryType = "arraybuffer";
+
+    socket.addEventListener("message", (event) => {
+      let parsed: CellServerMessage | null = null;
+
+      if (typeof event.data === "string") {
+        parsed = decodeServerMessage(event.data);
+      } else if (event.data instanceof ArrayBuffer) {
+        parsed = peerDecoder.decode(event.data);
+      }
+
+      if (!parsed) {
         return;
       }
 
-      this.handleServerMessage(event.data);
+      if (socket === this.ws) {
+        this.dispatchServerMessage(parsed);
+      } else if (socket === this.handoffSocket) {
+        this.handleHandoffMessage(parsed);
+      } else if (parsed.type === "signal-ack") {
+        // Acks for signals sent before a handoff still arrive on the old
+        // socket while it drains.
+        this.handleSignalAck(parsed);
+      }
     });
 
-    this.ws.addEventListener("close", () => {
+    socket.addEventListener("close", (event) => {
+      this.failPendingSignals(socket, "disconnected");
+
+      if (socket !== this.ws) {
+        console.log("[voice] previous cell ws close", this.playerId);
+        return;
+      }
+
+      if (this.handoffSocket != null) {
+        console.log("[voice] ws close during cell handoff", this.playerId);
+        return;
+      }
+
+      this.isRegistered = false;
+
+      if (this.shouldReconnect(event.code)) {
+        // Heartbeat, position and TURN refresh loops keep running and pick
+        // up the new socket once it registers.
+        console.log("[voice] ws dropped", this.playerId, event.code);
+        void this.reconnect();
+        return;
+      }
+
       this.stopHeartbeat();
       this.stopPositionUpdates();
-      console.log("[voice] ws close", this.playerId, this.ws.readyState);
+      this.stopTurnRefresh();
+      console.log("[voice] ws close", this.playerId, socket.readyState);
     });
   }
 
@@ -167,21 +487,350 @@ export class VoiceCellConnection {
         type: "register",
         playerId: this.playerId,
         sessionToken: this.sessionToken,
+        protocolVersion: PROTOCOL_VERSION,
+        wireFormat: this.wireFormat,
       }),
     );
   }
 
+  /**
+   * Reopens the cell socket after an unexpected drop and resumes the session
+   * with the last resume token, keeping peers and queued signals. Resolves
+   * false when that fails; once the shard has rejected the token the caller
+   * has to join again.
+   */
+  async resume(): Promise<boolean> {
+    if (this.url == null || this.resumeToken == null) {
+      return false;
+    }
+
+    try {
+      await this.replaceSocket(this.url, {
+        type: "resume",
+        playerId: this.playerId,
+        resumeToken: this.resumeToken,
+        protocolVersion: PROTOCOL_VERSION,
+        wireFormat: this.wireFormat,
+      });
+    } catch (error) {
+      console.warn("[voice] resume failed", this.playerId, error);
+
+      // Network failures leave the token usable for the next attempt.
+      if (error instanceof InvalidSessionError) {
+        this.resumeToken = null;
+      }
+
+      return false;
+    }
+
+    console.log("[voice] session resumed", this.playerId);
+    return true;
+  }
+
+  /** Registers on a new socket with a fresh `/join` session. */
+  private async rejoin(session: RejoinResult): Promise<void> {
+    await this.replaceSocket(session.cellWebSocketUrl, {
+      type: "register",
+      playerId: this.playerId,
+      sessionToken: session.sessionToken,
+      protocolVersion: PROTOCOL_VERSION,
+      wireFormat: this.wireFormat,
+    });
+
+    this.url = session.cellWebSocketUrl;
+    this.sessionToken = session.sessionToken;
+
+    if (session.cellId != null && session.cellId !== this.cellId) {
+      this.cellId = session.cellId;
+
+      for (const handler of this.cellChangeHandlers) {
+        handler(session.cellId);
+      }
+    }
+
+    console.log("[voice] rejoined", this.playerId, this.cellId);
+  }
+
+  /**
+   * Opens a socket, sends `hello` and swaps it in once the shard answers
+   * `registered`, which is then dispatched like any other, so handlers and
+   * attached peer managers carry over. A connection closed meanwhile drops
+   * the new socket instead.
+   */
+  private async replaceSocket(
+    url: string,
+    hello: RegisterMessage | ResumeMessage,
+  ): Promise<void> {
+    const next = new this.webSocketFactory(url);
+    this.bindSocket(next);
+
+    let registered: RegisteredMessage;
+
+    try {
+      await waitForOpen(next);
+      const waitForReply = waitForRegistered(next, REGISTER_TIMEOUT_MS);
+      next.send(JSON.stringify(hello));
+      registered = await waitForReply;
+    } catch (error) {
+      next.close(1000, "Registration failed");
+      throw error;
+    }
+
+    if (this.isClosed) {
+      next.close(1000, "Connection closed");
+      throw new Error("Connection closed while reconnecting");
+    }
+
+    const previous = this.ws;
+    this.ws = next;
+    this.dispatchServerMessage(registered);
+
+    // Only closed now: a clean close ends the session on the shard.
+    if (previous.readyState !== WebSocket.CLOSED) {
+      previous.close(1000, "Replaced");
+    }
+  }
+
+  private shouldReconnect(closeCode: number): boolean {
+    return (
+      this.reconnectOptions != null &&
+      this.hasRegistered &&
+      !this.isClosed &&
+      !this.isSuperseded &&
+      !this.isReconnecting &&
+      !NO_RECONNECT_CLOSE_CODES.has(closeCode)
+    );
+  }
+
+  /**
+   * Tries to resume, then to rejoin, with backoff between attempts until one
+   * works or the attempts run out.
+   */
+  private async reconnect(): Promise<void> {
+    const options = this.reconnectOptions;
+
+    if (!options) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    let attempts = 0;
+    let lastError: unknown;
+
+    try {
+      while (attempts < options.maxAttempts) {
+        if (this.resumeToken == null && !options.rejoin) {
+          break;
+        }
+
+        attempts += 1;
+        const delayMs = reconnectDelay(attempts, options);
+        this.emitLifecycle({
+          type: "reconnecting",
+          attempt: attempts,
+          delayMs,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+        if (this.isClosed) {
+          return;
+        }
+
+        try {
+          if (await this.resume()) {
+            this.emitLifecycle({
+              type: "reconnected",
+              attempt: attempts,
+              resumed: true,
+            });
+            return;
+          }
+
+          if (this.isClosed) {
+            return;
+          }
+
+          if (options.rejoin) {
+            await this.rejoin(await options.rejoin());
+            this.emitLifecycle({
+              type: "reconnected",
+              attempt: attempts,
+              resumed: false,
+            });
+            return;
+          }
+        } catch (error) {
+          if (this.isClosed) {
+            return;
+          }
+
+          console.warn("[voice] reconnect attempt failed", attempts, error);
+          lastError = error;
+        }
+      }
+    } finally {
+      this.isReconnecting = false;
+    }
+
+    console.warn("[voice] reconnect gave up", this.playerId, attempts);
+    this.stopHeartbeat();
+    this.stopPositionUpdates();
+    this.stopTurnRefresh();
+    this.emitLifecycle({ type: "gave-up", attempts, error: lastError });
+  }
+
+  private emitLifecycle(event: ConnectionLifecycleEvent): void {
+    for (const handler of this.lifecycleHandlers) {
+      handler(event);
+    }
+  }
+
   sendHeartbeat(): void {
     if (this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({ type: "heartbeat" }));
     }
   }
 
+  /** Asks the shard for a `peers` snapshot, e.g. after a missed delta. */
+  requestPeerResync(): void {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      return;
+    }
+
+    console.log("[voice] requesting peers resync", this.playerId);
+    this.ws.send(JSON.stringify({ type: "resync" }));
+  }
+
+  /**
+   * Asks the shard for fresh TURN credentials; they arrive through
+   * `onTurnCredentials`. `startTurnRefresh` does this on a timer.
+   */
+  requestTurnCredentials(): void {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      return;
+    }
+
+    this.ws.send(JSON.stringify({ type: "turn-credentials" }));
+  }
+
+  /**
+   * Blocks `playerId` for this player. The shard stores the list and never
+   * links the two again, in either direction; the updated list arrives
+   * through `onBlockListChange`.
+   */
+  block(playerId: string): void {
+    this.sendBlockChange("block", playerId);
+  }
+
+  unblock(playerId: string): void {
+    this.sendBlockChange("unblock", playerId);
+  }
+
+  getBlockedPlayers(): string[] {
+    return [...this.blockedPlayers];
+  }
+
+  /**
+   * Mutes, kicks or bans `playerId` in the current cell. Only accepted from
+   * players whose join token carries the moderator role; others get a
+   * `not_moderator` error.
+   */
+  moderate(
+    action: ModerationAction,
+    playerId: string,
+    options: { durationMs?: number; reason?: string } = {},
+  ): void {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      console.warn(`[voice] cannot ${action} while disconnected`, playerId);
+      return;
+    }
+
+    this.ws.send(
+      JSON.stringify({
+        type: "moderate",
+        action,
+        playerId,
+        durationMs: options.durationMs,
+        reason: options.reason,
+      }),
+    );
+  }
+
+  /**
+   * SFU mode: publishes the upstream track on transceiver `mid` of `sdp` and
+   * resolves with the SFU's answer. A new cell needs a new publish.
+   */
+  publishSfuTrack(sdp: string, mid: string): Promise<string> {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      return Promise.reject(
+        new CellServerError("sfu_unavailable", "Not connected to a cell"),
+      );
+    }
+
+    this.settleSfuPublish(
+      new CellServerError("sfu_unavailable", "Superseded by a newer publish"),
+    );
+
+    const result = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settleSfuPublish(
+          new CellServerError("sfu_unavailable", "Timed out publishing"),
+        );
+      }, SFU_PUBLISH_TIMEOUT_MS);
+
+      this.pendingSfuPublish = { resolve, reject, timer };
+    });
+
+    this.ws.send(JSON.stringify({ type: "sfu-publish", sdp, mid }));
+    return result;
+  }
+
+  /** Answers the SFU offer carried by an `onSfuTracks` message. */
+  sendSfuAnswer(sdp: string): void {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      console.warn("[voice] cannot answer SFU offer while disconnected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({ type: "sfu-answer", sdp }));
+  }
+
+  private settleSfuPublish(outcome: string | CellServerError): void {
+    const pending = this.pendingSfuPublish;
+
+    if (!pending) {
+      return;
+    }
+
+    this.pendingSfuPublish = null;
+    clearTimeout(pending.timer);
+
+    if (typeof outcome === "string") {
+      pending.resolve(outcome);
+    } else {
+      pending.reject(outcome);
+    }
+  }
+
+  private sendBlockChange(type: "block" | "unblock", playerId: string): void {
+    if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
+      console.warn(`[voice] cannot ${type} while disconnected`, playerId);
+      return;
+    }
+
+    this.ws.send(JSON.stringify({ type, playerId }));
+  }
+
   sendPosition(position: Vector3): void {
     if (this.ws.readyState !== WebSocket.OPEN || !this.isRegistered) {
       return;
     }
 
+    if (this.sendsBinaryPositions) {
+      this.ws.send(encodePositionFrame(position));
+      return;
+    }
+
     this.ws.send(
       JSON.stringify({
         type: "position",
@@ -190,7 +839,15 @@ export class VoiceCellConnection {
     );
   }
 
-  sendSignal(targetId: string, payload: unknown): void {
+  /**
+   * Relays a signaling payload to a peer. Resolves once the shard reports
+   * delivery or failure; a target that is between sockets is queued on the
+   * shard for a few seconds first. Never rejects.
+   */
+  sendSignal(
+    targetId: string,
+    payload: unknown,
+  ): Promise<SignalDeliveryResult> {
     const ready = this.ws.readyState;
     const registered = this.isRegistered;
     if (ready !== WebSocket.OPEN || !registered) {
@@ -201,13 +858,24 @@ export class VoiceCellConnection {
         "registered",
         registered,
       );
-      return;
+      return Promise.resolve({ status: "failed", reason: "not_connected" });
     }
 
-    this.ws.send(
+    const signalId = String(this.nextSignalId++);
+    const socket = this.ws;
+    const result = new Promise<SignalDeliveryResult>((resolve) => {
+      const timer = setTimeout(() => {
+        this.settleSignal(signalId, { status: "failed", reason: "timeout" });
+      }, SIGNAL_ACK_TIMEOUT_MS);
+
+      this.pendingSignals.set(signalId, { targetId, socket, timer, resolve });
+    });
+
+    socket.send(
       JSON.stringify({
         type: "signal",
         targetId,
+        signalId,
         payload,
       }),
     );
@@ -219,6 +887,54 @@ export class VoiceCellConnection {
       "readyState",
       ready,
     );
+
+    return result;
+  }
+
+  private handleSignalAck(message: SignalAckMessage): void {
+    if (message.status === "queued") {
+      console.log("[voice] signal queued", message.signalId);
+      return;
+    }
+
+    this.settleSignal(
+      message.signalId,
+      message.status === "delivered"
+        ? { status: "delivered" }
+        : { status: "failed", reason: message.reason ?? "unknown" },
+    );
+  }
+
+  private settleSignal(signalId: string, result: SignalDeliveryResult): void {
+    const pending = this.pendingSignals.get(signalId);
+
+    if (!pending) {
+      return;
+    }
+
+    this.pendingSignals.delete(signalId);
+    clearTimeout(pending.timer);
+
+    if (result.status === "failed") {
+      console.warn(
+        "[voice] signal delivery failed",
+        pending.targetId,
+        result.reason,
+      );
+      for (const handler of this.deliveryFailureHandlers) {
+        handler(pending.targetId);
+      }
+    }
+
+    pending.resolve(result);
+  }
+
+  private failPendingSignals(socket: WebSocket, reason: string): void {
+    for (const [signalId, pending] of Array.from(this.pendingSignals)) {
+      if (pending.socket === socket) {
+        this.settleSignal(signalId, { status: "failed", reason });
+      }
+    }
   }
 
   onPeersChange(handler: (message: PeerDiffMessage) => void): HandlerDisposer {
@@ -242,14 +958,116 @@ export class VoiceCellConnection {
     };
   }
 
-  onError(handler: (message: string) => void): HandlerDisposer {
+  /** Fires for every `error` frame; `error.code` is the shard's reason. */
+  onError(handler: (error: CellServerError) => void): HandlerDisposer {
     this.errorHandlers.add(handler);
     return () => {
       this.errorHandlers.delete(handler);
     };
   }
 
-  close(code?: number, reason?: string): void {
+  onCellChange(handler: (cellId: string) => void): HandlerDisposer {
+    this.cellChangeHandlers.add(handler);
+    return () => {
+      this.cellChangeHandlers.delete(handler);
+    };
+  }
+
+  /** Fires when another socket registered as this player and took over. */
+  onSuperseded(handler: () => void): HandlerDisposer {
+    this.supersededHandlers.add(handler);
+    return () => {
+      this.supersededHandlers.delete(handler);
+    };
+  }
+
+  /** Fires with the full list after registering and after every change. */
+  onBlockListChange(handler: (blocked: string[]) => void): HandlerDisposer {
+    this.blockListHandlers.add(handler);
+    return () => {
+      this.blockListHandlers.delete(handler);
+    };
+  }
+
+  /** Fires for every moderator action in the cell, and for active mutes. */
+  onModeration(handler: (message: ModerationMessage) => void): HandlerDisposer {
+    this.moderationHandlers.add(handler);
+    return () => {
+      this.moderationHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Fires when the cell announces its transport: on a `transport-change`,
+   * and on registering with a cell that picks its own, including after a
+   * handoff. Handlers compare it with the mode they are on.
+   */
+  onTransportChange(
+    handler: (transportMode: VoiceTransportMode) => void,
+  ): HandlerDisposer {
+    this.transportHandlers.add(handler);
+    return () => {
+      this.transportHandlers.delete(handler);
+    };
+  }
+
+  private emitTransport(transportMode: VoiceTransportMode | undefined): void {
+    if (transportMode === undefined) {
+      return;
+    }
+
+    for (const handler of this.transportHandlers) {
+      handler(transportMode);
+    }
+  }
+
+  /**
+   * SFU mode: fires with the full mid-to-player map whenever the pulled
+   * tracks change. A message with `sdp` must be answered via `sendSfuAnswer`.
+   */
+  onSfuTracks(handler: (message: SfuTracksMessage) => void): HandlerDisposer {
+    this.sfuTracksHandlers.add(handler);
+    return () => {
+      this.sfuTracksHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Fires with ICE servers minted after `requestTurnCredentials`. They replace
+   * the ones from `joinWorld`, whose credentials expire.
+   */
+  onTurnCredentials(
+    handler: (iceServers: RTCIceServer[]) => void,
+  ): HandlerDisposer {
+    this.turnCredentialsHandlers.add(handler);
+    return () => {
+      this.turnCredentialsHandlers.delete(handler);
+    };
+  }
+
+  /** Fires while a dropped socket is being recovered; see `ReconnectOptions`. */
+  onLifecycle(
+    handler: (event: ConnectionLifecycleEvent) => void,
+  ): HandlerDisposer {
+    this.lifecycleHandlers.add(handler);
+    return () => {
+      this.lifecycleHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Ends the session. The default `1000` tells the shard to drop the player at
+   * once; only abnormal closes (any other code, or none at all, which the
+   * shard sees as `1005`) keep the session open for `resume`.
+   */
+  close(code = 1000, reason?: string): void {
+    this.isClosed = true;
+    // A dropped socket that is being reconnected fires no close event.
+    this.stopHeartbeat();
+    this.stopPositionUpdates();
+    this.stopTurnRefresh();
+    this.handoffSocket?.close(code, reason);
+    this.handoffSocket = null;
     this.ws.close(code, reason);
   }
 
@@ -317,6 +1135,26 @@ export class VoiceCellConnection {
     }
   }
 
+  /**
+   * Requests TURN credentials every `intervalMs`. Keep it below the worker's
+   * `TURN_CREDENTIAL_TTL_SECONDS`; the default suits the default 4 h.
+   */
+  startTurnRefresh(intervalMs = TURN_REFRESH_INTERVAL_MS): () => void {
+    this.stopTurnRefresh();
+    this.turnRefreshTimer = setInterval(
+      () => this.requestTurnCredentials(),
+      intervalMs,
+    );
+    return () => this.stopTurnRefresh();
+  }
+
+  private stopTurnRefresh(): void {
+    if (this.turnRefreshTimer != null) {
+      clearInterval(this.turnRefreshTimer);
+      this.turnRefreshTimer = null;
+    }
+  }
+
   attachPeerManager(manager: VoicePeerManager): () => void {
     const disposers: HandlerDisposer[] = [];
 
@@ -324,6 +1162,7 @@ export class VoiceCellConnection {
       this.onPeersChange((message) => {
         manager.applyPeerDiff(message);
       }),
+      manager.onResyncNeeded(() => this.requestPeerResync()),
     );
 
     return () => {
@@ -333,27 +1172,124 @@ export class VoiceCellConnection {
     };
   }
 
-  private handleServerMessage(raw: string): void {
-    let parsed: CellServerMessage | null = null;
+  /**
+   * Moves this connection to another cell while keeping the current socket
+   * open until the destination shard has accepted the registration, so peer
+   * signaling never goes dark and existing RTCPeerConnections are untouched.
+   */
+  private async performHandoff(message: MigrateMessage): Promise<void> {
+    if (this.handoffSocket != null) {
+      return;
+    }
+
+    console.log(
+      "[voice] cell handoff start",
+      this.cellId,
+      "->",
+      message.cellId,
+    );
+
+    const next = new this.webSocketFactory(message.cellWebSocketUrl);
+    this.handoffSocket = next;
+    this.handoffPeers = [];
+    this.handoffModeration = [];
+    this.bindSocket(next);
+
+    let nextRegistered: RegisteredMessage;
 
     try {
-      parsed = JSON.parse(raw) as CellServerMessage;
-    } catch {
-      parsed = null;
+      await waitForOpen(next);
+      const registered = waitForRegistered(next, REGISTER_TIMEOUT_MS);
+      next.send(
+        JSON.stringify({
+          type: "register",
+          playerId: this.playerId,
+          sessionToken: message.sessionToken,
+          protocolVersion: PROTOCOL_VERSION,
+          wireFormat: this.wireFormat,
+        }),
+      );
+      nextRegistered = await registered;
+    } catch (error) {
+      console.warn("[voice] cell handoff failed", message.cellId, error);
+
+      if (this.handoffSocket === next) {
+        this.handoffSocket = null;
+        this.handoffPeers = [];
+        this.handoffModeration = [];
+      }
+
+      next.close(1000, "Cell handoff aborted");
+      return;
     }
 
-    if (
-      !parsed ||
-      typeof parsed !== "object" ||
-      typeof (parsed as { type?: unknown }).type !== "string"
-    ) {
+    if (this.handoffSocket !== next) {
+      next.close(1000, "Cell handoff cancelled");
       return;
     }
 
+    const previous = this.ws;
+    const bufferedPeers = this.handoffPeers;
+    const bufferedModeration = this.handoffModeration;
+    this.ws = next;
+    this.resumeToken = nextRegistered.resumeToken ?? null;
+    this.sendsBinaryPositions = nextRegistered.wireFormat === "binary";
+    this.url = message.cellWebSocketUrl;
+    this.sessionToken = message.sessionToken;
+    this.cellId = message.cellId;
+    this.handoffSocket = null;
+    this.handoffPeers = [];
+    this.handoffModeration = [];
+
+    // In order: later deltas build on the destination's first snapshot.
+    for (const peers of bufferedPeers) {
+      for (const handler of this.peerHandlers) {
+        handler(peers);
+      }
+    }
+
+    for (const handler of this.cellChangeHandlers) {
+      handler(message.cellId);
+    }
+
+    this.emitTransport(nextRegistered.transportMode);
+
+    // Mutes are per cell, so listeners reset on the cell change first.
+    for (const moderation of bufferedModeration) {
+      this.dispatchServerMessage(moderation);
+    }
+
+    previous.close(1000, "Cell handoff");
+    console.log("[voice] cell handoff complete", message.cellId);
+  }
+
+  private handleHandoffMessage(parsed: CellServerMessage): void {
+    switch (parsed.type) {
+      case "peers":
+        // Applied once the handoff completes so the old cell's view stays
+        // authoritative until then.
+        this.handoffPeers.push(parsed);
+        break;
+      case "moderation":
+        this.handoffModeration.push(parsed);
+        break;
+      case "signal":
+        this.dispatchServerMessage(parsed);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private dispatchServerMessage(parsed: CellServerMessage): void {
     switch (parsed.type) {
       case "registered":
         console.log("[voice] registered", this.playerId);
         this.isRegistered = true;
+        this.hasRegistered = true;
+        this.resumeToken = parsed.resumeToken ?? null;
+        this.sendsBinaryPositions = parsed.wireFormat === "binary";
+        this.emitTransport(parsed.transportMode);
         break;
       case "signal":
         console.log(
@@ -371,17 +1307,68 @@ export class VoiceCellConnection {
           handler(parsed.targetId);
         }
         break;
-      case "error":
-        console.warn("[voice] server error", parsed.message);
+      case "error": {
+        const error = toCellServerError(parsed);
+        console.warn("[voice] server error", error.code, error.message);
+        if (error.code === "sfu_unavailable" || error.code === "invalid_sfu") {
+          this.settleSfuPublish(error);
+        }
         for (const handler of this.errorHandlers) {
-          handler(parsed.message);
+          handler(error);
         }
         break;
+      }
       case "peers":
         for (const handler of this.peerHandlers) {
           handler(parsed);
         }
         break;
+      case "turn-credentials":
+        for (const handler of this.turnCredentialsHandlers) {
+          handler(parsed.iceServers);
+        }
+        break;
+      case "block-list":
+        this.blockedPlayers = parsed.blocked;
+        for (const handler of this.blockListHandlers) {
+          handler(this.getBlockedPlayers());
+        }
+        break;
+      case "moderation":
+        console.log("[voice] moderation", parsed.action, parsed.playerId);
+        for (const handler of this.moderationHandlers) {
+          handler(parsed);
+        }
+        break;
+      case "transport-change":
+        console.log("[voice] transport change", parsed.transportMode);
+        this.emitTransport(parsed.transportMode);
+        break;
+      case "sfu-published":
+        this.settleSfuPublish(parsed.sdp);
+        break;
+      case "sfu-tracks":
+        for (const handler of this.sfuTracksHandlers) {
+          handler(parsed);
+        }
+        break;
+      case "migrate":
+        void this.performHandoff(parsed);
+        break;
+      case "signal-ack":
+        this.handleSignalAck(parsed);
+        break;
+      case "superseded":
+        console.warn("[voice] session superseded", this.playerId);
+        this.isRegistered = false;
+        this.isSuperseded = true;
+        this.stopHeartbeat();
+        this.stopPositionUpdates();
+        this.stopTurnRefresh();
+        for (const handler of this.supersededHandlers) {
+          handler();
+        }
+        break;
       default:
         break;
     }
@@ -397,40 +1384,27 @@ export const connectCellWS = async (
     ws,
     options.playerId,
     options.sessionToken,
+    {
+      cellId: options.cellId,
+      url: options.url,
+      webSocketFactory: WebSocketCtor,
+      reconnect: options.reconnect,
+      wireFormat: options.wireFormat,
+    },
   );
 
-  await new Promise<void>((resolve, reject) => {
-    const handleOpen = (): void => {
-      ws.removeEventListener("open", handleOpen);
-      ws.removeEventListener("error", handleError);
-      ws.removeEventListener("close", handleCloseBeforeOpen);
-      resolve();
-    };
-
-    const handleError = (event: Event): void => {
-      ws.removeEventListener("open", handleOpen);
-      ws.removeEventListener("error", handleError);
-      ws.removeEventListener("close", handleCloseBeforeOpen);
-      reject(new Error(`WebSocket error: ${event.type}`));
-    };
-
-    const handleCloseBeforeOpen = (event: CloseEvent): void => {
-      ws.removeEventListener("open", handleOpen);
-      ws.removeEventListener("error", handleError);
-      ws.removeEventListener("close", handleCloseBeforeOpen);
-      reject(
-        new Error(
-          `WebSocket closed before open: ${event.code} ${event.reason}`,
-        ),
-      );
-    };
-
-    ws.addEventListener("open", handleOpen);
-    ws.addEventListener("error", handleError);
-    ws.addEventListener("close", handleCloseBeforeOpen);
-  });
-
-  connection.register();
+  try {
+    await waitForOpen(ws);
+    const registered = waitForRegistered(
+      ws,
+      options.registerTimeoutMs ?? REGISTER_TIMEOUT_MS,
+    );
+    connection.register();
+    await registered;
+  } catch (error) {
+    connection.close(1000, "Registration failed");
+    throw error;
+  }
 
   return connection;
 };
@@ -440,6 +1414,19 @@ export type {
   PeerDiffMessage,
   SignalMessage,
   CellServerMessage,
+  MigrateMessage,
+  SignalDeliveryResult,
+  ConnectionLifecycleEvent,
+  CellErrorCode,
+  WireFormat,
 } from "./types";
+export {
+  VoiceCellError,
+  CellServerError,
+  InvalidSessionError,
+  ClosedBeforeRegisterError,
+  RegistrationTimeoutError,
+  UnsupportedProtocolError,
+} from "./errors";
 export { VoicePeerManager } from "./peerManager";
 export type { VoicePeerManagerOptions } from "./peerManager";
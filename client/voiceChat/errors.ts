@@ -0,0 +1,81 @@
+import { CellErrorCode, ErrorMessage } from "./types";
+
+/** Base class for failures surfaced by `VoiceCellConnection`. */
+export class VoiceCellError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VoiceCellError";
+  }
+}
+
+/** The shard answered with an `error` frame; `code` is its stable reason. */
+export class CellServerError extends VoiceCellError {
+  constructor(
+    readonly code: CellErrorCode | "unknown",
+    message: string,
+  ) {
+    super(message);
+    this.name = "CellServerError";
+  }
+}
+
+/**
+ * The shard refused the session or resume token. A new `/join` is needed
+ * before registering again.
+ */
+export class InvalidSessionError extends CellServerError {
+  constructor(code: CellErrorCode, message: string) {
+    super(code, message);
+    this.name = "InvalidSessionError";
+  }
+}
+
+/** The socket closed, or never opened, before the shard confirmed registration. */
+export class ClosedBeforeRegisterError extends VoiceCellError {
+  constructor(
+    readonly closeCode: number | null,
+    readonly closeReason: string,
+    /** False when the socket never opened, i.e. the shard was unreachable. */
+    readonly opened: boolean,
+  ) {
+    super(
+      opened
+        ? `WebSocket closed before register: ${closeCode} ${closeReason}`
+        : `WebSocket closed before open: ${closeCode ?? ""} ${closeReason}`,
+    );
+    this.name = "ClosedBeforeRegisterError";
+  }
+}
+
+export class RegistrationTimeoutError extends VoiceCellError {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out waiting for registration after ${timeoutMs} ms`);
+    this.name = "RegistrationTimeoutError";
+  }
+}
+
+/** Client and shard disagree on the protocol version; update the client. */
+export class UnsupportedProtocolError extends CellServerError {
+  constructor(message: string) {
+    super("unsupported_protocol", message);
+    this.name = "UnsupportedProtocolError";
+  }
+}
+
+const INVALID_SESSION_CODES = new Set<CellErrorCode>([
+  "invalid_session",
+  "wrong_world",
+  "resume_failed",
+]);
+
+export const toCellServerError = (message: ErrorMessage): CellServerError => {
+  const code = message.code ?? "unknown";
+
+  if (code === "unsupported_protocol") {
+    return new UnsupportedProtocolError(message.message);
+  }
+
+  return code !== "unknown" && INVALID_SESSION_CODES.has(code)
+    ? new InvalidSessionError(code, message.message)
+    : new CellServerError(code, message.message);
+};
@@ -1,68 +1,54 @@
-export enum VoiceTransportMode {
-  P2P = "p2p",
-  SFU = "sfu",
-}
-
-export type VoiceFeatureFlags = {
-  sfuEnabled: boolean;
-};
-
-const DEFAULT_FLAGS: VoiceFeatureFlags = {
-  sfuEnabled: false,
-};
+import { VoiceTransportMode } from "../../src/protocol";
+import {
+  defaultFeatureFlags,
+  FEATURE_FLAGS,
+  FeatureFlagDefinition,
+  parseFlagValue,
+  VoiceFeatureFlags,
+} from "../../src/featureFlags";
+
+export { VoiceTransportMode };
+export type { VoiceFeatureFlags };
 
 let cachedFlags: VoiceFeatureFlags | null = null;
 
-const coerceBoolean = (value: unknown): boolean | undefined => {
-  if (typeof value === "string") {
-    const normalized = value.trim().toLowerCase();
-
-    if (normalized === "true") {
-      return true;
-    }
-
-    if (normalized === "false") {
-      return false;
-    }
-
-    return undefined;
-  }
-
-  if (typeof value === "boolean") {
-    return value;
-  }
-
-  return undefined;
-};
-
 const readFlagsFromRuntime = (): VoiceFeatureFlags => {
   if (typeof globalThis === "undefined") {
-    return DEFAULT_FLAGS;
+    return defaultFeatureFlags();
   }
 
   const maybeWindowFlags = (globalThis as Record<string, unknown>)
     .__VOICE_FEATURE_FLAGS__;
-  const sfuEnabledFromWindow =
+  const windowFlags =
     maybeWindowFlags != null && typeof maybeWindowFlags === "object"
-      ? coerceBoolean((maybeWindowFlags as Record<string, unknown>).sfu)
-      : undefined;
+      ? (maybeWindowFlags as Record<string, unknown>)
+      : {};
 
-  let envFlag: boolean | undefined;
+  let envFlags: Record<string, unknown> = {};
 
   if (typeof import.meta !== "undefined") {
     const metaWithEnv = import.meta as ImportMeta & {
       env?: Record<string, unknown>;
     };
 
-    envFlag = coerceBoolean(metaWithEnv.env?.VITE_FEATURE_SFU_ENABLED);
+    envFlags = metaWithEnv.env ?? {};
   }
 
-  const sfuEnabled =
-    sfuEnabledFromWindow ?? envFlag ?? DEFAULT_FLAGS.sfuEnabled;
+  const flags: Record<string, unknown> = {};
+
+  // Each flag reads `VITE_` plus its worker variable, e.g.
+  // `VITE_FEATURE_SFU_ENABLED`.
+  for (const [name, definition] of Object.entries(FEATURE_FLAGS) as [
+    string,
+    FeatureFlagDefinition,
+  ][]) {
+    flags[name] =
+      parseFlagValue(definition, windowFlags[name]) ??
+      parseFlagValue(definition, envFlags[`VITE_${definition.envVar}`]) ??
+      definition.defaultValue;
+  }
 
-  return {
-    sfuEnabled,
-  };
+  return flags as VoiceFeatureFlags;
 };
 
 export const setVoiceFeatureFlags = (flags: VoiceFeatureFlags): void => {
@@ -80,7 +66,7 @@ export const getVoiceFeatureFlags = (): VoiceFeatureFlags => {
 };
 
 export const isSfuEnabled = (): boolean => {
-  return getVoiceFeatureFlags().sfuEnabled;
+  return getVoiceFeatureFlags().sfu;
 };
 
 export const getVoiceTransportMode = (): VoiceTransportMode => {
@@ -44,9 +44,13 @@ export class VoicePeerManager {
   private readonly connectedPeers = new Set<string>();
   private readonly connectListeners = new Set<PeerConnectionListener>();
   private readonly disconnectListeners = new Set<PeerConnectionListener>();
+  private readonly resyncListeners = new Set<() => void>();
   private localPosition: Vector3 | null = null;
   private readonly peerPositions = new Map<string, Vector3>();
   private evaluateTimer: ReturnType<typeof setTimeout> | null = null;
+  /** `seq` of the last applied `peers` message; null before a snapshot. */
+  private lastPeerSeq: number | null = null;
+  private awaitingSnapshot = false;
   private disposed = false;
 
   constructor(options: VoicePeerManagerOptions) {
@@ -64,6 +68,7 @@ export class VoicePeerManager {
 
     this.connectListeners.clear();
     this.disconnectListeners.clear();
+    this.resyncListeners.clear();
     this.disposed = true;
   }
 
@@ -81,6 +86,17 @@ export class VoicePeerManager {
     };
   }
 
+  /**
+   * Called when a `peers` delta arrives out of sequence. Deltas are ignored
+   * from then on until the requested snapshot arrives.
+   */
+  onResyncNeeded(listener: () => void): () => void {
+    this.resyncListeners.add(listener);
+    return () => {
+      this.resyncListeners.delete(listener);
+    };
+  }
+
   getActivePeers(): string[] {
     return Array.from(this.connectedPeers);
   }
@@ -146,8 +162,14 @@ export class VoicePeerManager {
   }
 
   applyPeerDiff(diff: PeerDiffMessage): void {
+    if (!this.acceptSequence(diff)) {
+      return;
+    }
+
     debug(
       "applyPeerDiff",
+      "seq",
+      diff.seq,
       "peers",
       diff.peers,
       "added",
@@ -203,6 +225,41 @@ export class VoicePeerManager {
     this.scheduleEvaluate();
   }
 
+  /**
+   * Snapshots always apply. A delta applies only right after the message
+   * before it; otherwise the manager asks for a snapshot once and waits.
+   * Messages without `seq` come from shards that always send snapshots.
+   */
+  private acceptSequence(diff: PeerDiffMessage): boolean {
+    if (diff.seq === undefined) {
+      return true;
+    }
+
+    if (diff.snapshot) {
+      this.lastPeerSeq = diff.seq;
+      this.awaitingSnapshot = false;
+      return true;
+    }
+
+    if (this.awaitingSnapshot) {
+      return false;
+    }
+
+    if (this.lastPeerSeq !== null && diff.seq === this.lastPeerSeq + 1) {
+      this.lastPeerSeq = diff.seq;
+      return true;
+    }
+
+    debug("peers gap", "after", this.lastPeerSeq, "got", diff.seq);
+    this.awaitingSnapshot = true;
+
+    for (const listener of this.resyncListeners) {
+      listener();
+    }
+
+    return false;
+  }
+
   removePeer(peerId: string): void {
     this.candidateIds.delete(peerId);
     this.peerPositions.delete(peerId);
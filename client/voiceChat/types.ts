@@ -1,43 +1,31 @@
-export type Vector3 = {
-  x: number;
-  y: number;
-  z: number;
-};
+// The wire protocol is shared with the worker; see `src/protocol.ts`.
+export type {
+  Vector3,
+  PeerDiffMessage,
+  SignalMessage,
+  SignalDeliveryFailedMessage,
+  SignalAckMessage,
+  RegisteredMessage,
+  ErrorMessage,
+  MigrateMessage,
+  HeartbeatAckMessage,
+  SupersededMessage,
+  ModerationAction,
+  ModerationMessage,
+  SfuTracksMessage,
+  TransportChangeMessage,
+  CellServerMessage,
+  SocketErrorCode as CellErrorCode,
+} from "../../src/protocol";
+export type { WireFormat } from "../../src/wireFormat";
 
-export type PeerDiffMessage = {
-  type: "peers";
-  added?: string[];
-  removed?: string[];
-  peers?: string[];
-  distances?: Record<string, number>;
-  positions?: Record<string, Vector3>;
-  totalPlayers?: number;
-};
+/** Final outcome of one `sendSignal` call. */
+export type SignalDeliveryResult =
+  | { status: "delivered" }
+  | { status: "failed"; reason: string };
 
-export type SignalMessage = {
-  type: "signal";
-  from: string;
-  payload: unknown;
-};
-
-export type SignalDeliveryFailedMessage = {
-  type: "signal-delivery-failed";
-  targetId: string;
-};
-
-export type RegisteredMessage = {
-  type: "registered";
-  playerId: string;
-};
-
-export type ErrorMessage = {
-  type: "error";
-  message: string;
-};
-
-export type CellServerMessage =
-  | RegisteredMessage
-  | SignalDeliveryFailedMessage
-  | ErrorMessage
-  | SignalMessage
-  | PeerDiffMessage;
+/** Emitted by `VoiceCellConnection.onLifecycle` while it recovers a socket. */
+export type ConnectionLifecycleEvent =
+  | { type: "reconnecting"; attempt: number; delayMs: number }
+  | { type: "reconnected"; attempt: number; resumed: boolean }
+  | { type: "gave-up"; attempts: number; error?: unknown };
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { performance } from "node:perf_hooks";
+import {
+  PeerLinks,
+  ProximityIndex,
+  distanceBetween,
+} from "../src/proximity.ts";
+
+type Vector3 = { x: number; y: number; z: number };
+
+const RADIUS = 45;
+const CELL_SIZE = 64;
+const TICKS = 60;
+const MOVING_FRACTION = 0.1;
+const CROWD_SIZES = [50, 200, 500, 1000];
+// WorldShard's defaults: exit radius 1.15 × enter, 2 s dwell, 8 peers.
+const EXIT_RADIUS = RADIUS * 1.15;
+const MIN_DWELL_MS = 2_000;
+const MAX_PEERS = 8;
+const TICK_MS = 100;
+
+// Deterministic PRNG so runs are comparable.
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const spawnCrowd = (count: number, random: () => number) => {
+  const players = new Map<string, Vector3>();
+  for (let i = 0; i < count; i += 1) {
+    players.set(`p${i}`, {
+      x: random() * CELL_SIZE,
+      y: random() * 4,
+      z: random() * CELL_SIZE,
+    });
+  }
+  return players;
+};
+
+const moveSome = (
+  players: Map<string, Vector3>,
+  random: () => number,
+): string[] => {
+  const ids = Array.from(players.keys());
+  const moved: string[] = [];
+  const count = Math.max(1, Math.floor(ids.length * MOVING_FRACTION));
+  for (let i = 0; i < count; i += 1) {
+    const id = ids[Math.floor(random() * ids.length)];
+    const position = players.get(id)!;
+    players.set(id, {
+      x: position.x + (random() - 0.5) * 2,
+      y: position.y,
+      z: position.z + (random() - 0.5) * 2,
+    });
+    moved.push(id);
+  }
+  return moved;
+};
+
+/** The pre-index WorldShard algorithm: all pairs, every player, every tick. */
+const naiveRecalculate = (players: Map<string, Vector3>) => {
+  const result = new Map<string, Map<string, number>>();
+  for (const [id, position] of players) {
+    const distances = new Map<string, number>();
+    const positions: Record<string, Vector3> = {};
+    for (const [otherId, otherPosition] of players) {
+      if (otherId === id) continue;
+      const distance = distanceBetween(position, otherPosition);
+      if (distance <= RADIUS) {
+        distances.set(otherId, distance);
+        positions[otherId] = otherPosition;
+      }
+    }
+    result.set(id, distances);
+  }
+  return result;
+};
+
+const indexedRecalculate = (index: ProximityIndex) => {
+  const result = new Map<string, ReadonlyMap<string, number>>();
+  for (const id of index.flush()) {
+    const positions: Record<string, Vector3> = {};
+    const neighbours = index.getNeighbours(id);
+    for (const peerId of neighbours.keys()) {
+      positions[peerId] = index.getPosition(peerId)!;
+    }
+    result.set(id, neighbours);
+  }
+  return result;
+};
+
+const bench = (size: number) => {
+  const naivePlayers = spawnCrowd(size, mulberry32(size));
+  const naiveRandom = mulberry32(size * 7);
+  let start = performance.now();
+  let naiveResult = naiveRecalculate(naivePlayers);
+  for (let tick = 0; tick < TICKS; tick += 1) {
+    moveSome(naivePlayers, naiveRandom);
+    naiveResult = naiveRecalculate(naivePlayers);
+  }
+  const naiveMs = (performance.now() - start) / (TICKS + 1);
+
+  const indexedPlayers = spawnCrowd(size, mulberry32(size));
+  const indexedRandom = mulberry32(size * 7);
+  const index = new ProximityIndex(RADIUS);
+  start = performance.now();
+  for (const [id, position] of indexedPlayers) {
+    index.upsert(id, position);
+  }
+  indexedRecalculate(index);
+  for (let tick = 0; tick < TICKS; tick += 1) {
+    for (const id of moveSome(indexedPlayers, indexedRandom)) {
+      index.upsert(id, indexedPlayers.get(id)!);
+    }
+    indexedRecalculate(index);
+  }
+  const indexedMs = (performance.now() - start) / (TICKS + 1);
+
+  for (const [id, expected] of naiveResult) {
+    assert.deepEqual(
+      new Map(index.getNeighbours(id)),
+      expected,
+      `Indexed neighbours for ${id} should match the naive result`,
+    );
+  }
+
+  // What a shard recalculation costs: the index flush plus the capped links.
+  const linkedPlayers = spawnCrowd(size, mulberry32(size));
+  const linkedRandom = mulberry32(size * 7);
+  const linkedIndex = new ProximityIndex(EXIT_RADIUS);
+  const links = new PeerLinks({
+    enterRadius: RADIUS,
+    exitRadius: EXIT_RADIUS,
+    minDwellMs: MIN_DWELL_MS,
+    maxPeers: MAX_PEERS,
+  });
+  let now = 0;
+  start = performance.now();
+  for (const [id, position] of linkedPlayers) {
+    linkedIndex.upsert(id, position);
+  }
+  linkedIndex.flush();
+  links.update(linkedIndex, linkedIndex.lastMoved(), now);
+  for (let tick = 0; tick < TICKS; tick += 1) {
+    now += TICK_MS;
+    for (const id of moveSome(linkedPlayers, linkedRandom)) {
+      linkedIndex.upsert(id, linkedPlayers.get(id)!);
+    }
+    linkedIndex.flush();
+    links.update(linkedIndex, linkedIndex.lastMoved(), now);
+  }
+  const linkedMs = (performance.now() - start) / (TICKS + 1);
+
+  for (const id of linkedPlayers.keys()) {
+    const peers = links.getPeers(id);
+    assert.ok(peers.length <= MAX_PEERS, `${id} is within the peer cap`);
+    for (const peer of peers) {
+      assert.ok(links.getPeers(peer).includes(id), "Links are symmetric");
+    }
+  }
+
+  return { naiveMs, indexedMs, linkedMs };
+};
+
+console.log(
+  `Proximity recalculation, radius ${RADIUS} m, ${Math.round(MOVING_FRACTION * 100)}% of players moving per tick`,
+);
+console.log(
+  `players | naive ms/tick | indexed ms/tick | speedup | index+links (cap ${MAX_PEERS}) ms/tick`,
+);
+for (const size of CROWD_SIZES) {
+  const { naiveMs, indexedMs, linkedMs } = bench(size);
+  console.log(
+    `${String(size).padStart(7)} | ${naiveMs.toFixed(3).padStart(13)} | ${indexedMs.toFixed(3).padStart(15)} | ${`${(naiveMs / indexedMs).toFixed(1)}x`.padStart(7)} | ${linkedMs.toFixed(3).padStart(8)}`,
+  );
+}
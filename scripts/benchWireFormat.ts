@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { encodeServerMessage } from "../src/protocol.ts";
+import {
+  PeerFrameDecoder,
+  PeerFrameEncoder,
+  encodePositionFrame,
+} from "../src/wireFormat.ts";
+import type { PeerDiffMessage, Vector3 } from "../src/protocol";
+
+// The client's default position loop and a walking pace.
+const TICK_MS = 150;
+const SECONDS = 60;
+const WALK_SPEED = 1.4;
+const RADIUS = 45;
+// Chance per tick that one peer leaves and another takes its place.
+const CHURN = 0.02;
+const PEER_COUNTS = [4, 8, 16, 32];
+
+// Deterministic PRNG so runs are comparable.
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const playerId = (random: () => number) =>
+  `player-${Math.floor(random() * 0xffffffff)
+    .toString(16)
+    .padStart(8, "0")}`;
+
+const randomPosition = (random: () => number): Vector3 => ({
+  x: (random() - 0.5) * RADIUS,
+  y: random() * 2,
+  z: (random() - 0.5) * RADIUS,
+});
+
+const step = (position: Vector3, random: () => number): Vector3 => {
+  const heading = random() * Math.PI * 2;
+  const distance = (WALK_SPEED * TICK_MS) / 1000;
+  return {
+    x: position.x + Math.cos(heading) * distance,
+    y: position.y,
+    z: position.z + Math.sin(heading) * distance,
+  };
+};
+
+const distance = (a: Vector3, b: Vector3) =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const textEncoder = new TextEncoder();
+const utf8Bytes = (text: string) => textEncoder.encode(text).byteLength;
+
+/**
+ * One listener surrounded by `peerCount` walking peers. Every tick the
+ * listener sends a position and, as when everyone moves, the shard sends a
+ * `peers` message with every distance and position.
+ */
+const bench = (peerCount: number) => {
+  const random = mulberry32(peerCount);
+  const encoder = new PeerFrameEncoder();
+  const decoder = new PeerFrameDecoder();
+  const peers = new Map<string, Vector3>();
+  let self = randomPosition(random);
+  let jsonBytes = 0;
+  let binaryBytes = 0;
+  let added: string[] = [];
+  let removed: string[] = [];
+
+  for (let i = 0; i < peerCount; i += 1) {
+    const id = playerId(random);
+    peers.set(id, randomPosition(random));
+    added.push(id);
+  }
+
+  const ticks = (SECONDS * 1000) / TICK_MS;
+
+  for (let tick = 0; tick < ticks; tick += 1) {
+    self = step(self, random);
+    jsonBytes += utf8Bytes(
+      JSON.stringify({ type: "position", position: self }),
+    );
+    binaryBytes += encodePositionFrame(self).byteLength;
+
+    if (random() < CHURN) {
+      const leaving = Array.from(peers.keys())[
+        Math.floor(random() * peers.size)
+      ];
+      const joining = playerId(random);
+      peers.delete(leaving);
+      peers.set(joining, randomPosition(random));
+      removed.push(leaving);
+      added.push(joining);
+    }
+
+    const distances: Record<string, number> = {};
+    const positions: Record<string, Vector3> = {};
+
+    for (const [id, position] of peers) {
+      const next = step(position, random);
+      peers.set(id, next);
+      distances[id] = distance(self, next);
+      positions[id] = next;
+    }
+
+    const message: PeerDiffMessage = {
+      type: "peers",
+      peers: Array.from(peers.keys()),
+      added: added.length > 0 ? added : undefined,
+      removed: removed.length > 0 ? removed : undefined,
+      distances,
+      positions,
+      totalPlayers: peerCount + 1,
+    };
+    const frame = encoder.encode(message);
+    const decoded = decoder.decode(frame);
+
+    assert.deepEqual(decoded?.peers, message.peers);
+    assert.deepEqual(decoded?.removed, message.removed);
+    jsonBytes += utf8Bytes(encodeServerMessage(message));
+    binaryBytes += frame.byteLength;
+    added = [];
+    removed = [];
+  }
+
+  return { jsonRate: jsonBytes / SECONDS, binaryRate: binaryBytes / SECONDS };
+};
+
+console.log(
+  `Wire bytes per player, position and peers frames every ${TICK_MS} ms, everyone walking`,
+);
+console.log("peers | json B/s | binary B/s | saved B/s | ratio");
+for (const peerCount of PEER_COUNTS) {
+  const { jsonRate, binaryRate } = bench(peerCount);
+  console.log(
+    `${String(peerCount).padStart(5)} | ${jsonRate.toFixed(0).padStart(8)} | ${binaryRate.toFixed(0).padStart(10)} | ${(jsonRate - binaryRate).toFixed(0).padStart(9)} | ${(jsonRate / binaryRate).toFixed(1)}x`,
+  );
+}
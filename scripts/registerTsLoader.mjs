@@ -17,6 +17,19 @@ export async function resolve(specifier, context, defaultResolve) {
     return { url: resolved.url, format: "module", shortCircuit: true };
   }
 
+  // Client modules use bundler-style imports without an extension.
+  if (
+    specifier.startsWith(".") &&
+    !/\.[cm]?[jt]sx?$/.test(specifier) &&
+    context.parentURL?.endsWith(".ts")
+  ) {
+    try {
+      return await resolve(`${specifier}.ts`, context, defaultResolve);
+    } catch {
+      // Not a TypeScript module; fall through to the default resolution.
+    }
+  }
+
   return defaultResolve(specifier, context, defaultResolve);
 }
 
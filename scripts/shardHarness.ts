@@ -0,0 +1,439 @@
+/**
+ * Runs `WorldShard`s in Node against an in-memory stand-in for the Durable
+ * Object runtime: storage with an alarm, hibernatable sockets whose
+ * attachments round-trip through `structuredClone`, and a `WORLD_SHARD`
+ * namespace that routes stub fetches to one shard per cell id. Shared by the
+ * shard tests; not a test itself.
+ */
+import type {
+  DurableObjectState,
+  DurableObjectStorage,
+  HibernatableWebSocket,
+  VoiceWorkerEnv,
+} from "../src/types";
+import { BlockListHome } from "../src/blockLists.ts";
+import { PROTOCOL_VERSION } from "../src/protocol.ts";
+import { WorldShard } from "../src/worldShard.ts";
+
+type ServerFrame = { type: string; [key: string]: unknown };
+
+/** The server end of a socket: records what the shard sends and closes. */
+export class FakeSocket {
+  readonly sent: ServerFrame[] = [];
+  closed: { code?: number; reason?: string } | null = null;
+  private attachment: unknown = null;
+  private readonly waiters: (() => void)[] = [];
+
+  send(data: string | ArrayBuffer): void {
+    if (typeof data === "string") {
+      this.sent.push(JSON.parse(data) as ServerFrame);
+      this.waiters.splice(0).forEach((wake) => wake());
+    }
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closed ??= { code, reason };
+  }
+
+  serializeAttachment(value: unknown): void {
+    this.attachment = structuredClone(value);
+  }
+
+  deserializeAttachment(): unknown {
+    return structuredClone(this.attachment);
+  }
+
+  /** Resolves on the next frame the shard sends. */
+  nextFrame(): Promise<void> {
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+}
+
+/** Workers' `Response` accepts 101 with the client end of a socket. */
+class UpgradeResponse extends Response {
+  readonly webSocket: FakeSocket | null;
+  private readonly upgraded: boolean;
+
+  constructor(
+    body?: BodyInit | null,
+    init: ResponseInit & { webSocket?: FakeSocket } = {},
+  ) {
+    super(body, init.status === 101 ? { ...init, status: 200 } : init);
+    this.webSocket = init.webSocket ?? null;
+    this.upgraded = init.status === 101;
+  }
+
+  get status(): number {
+    return this.upgraded ? 101 : super.status;
+  }
+}
+
+const runtime = globalThis as unknown as Record<string, unknown>;
+runtime.Response = UpgradeResponse;
+runtime.WebSocketPair = class {
+  0 = new FakeSocket();
+  1 = new FakeSocket();
+};
+runtime.WebSocketRequestResponsePair = class {
+  constructor(
+    readonly request: string,
+    readonly response: string,
+  ) {}
+};
+
+// Shard timers (debounces, presence ticks) must not keep the process alive,
+// and `hibernate` drops the ones still pending, as eviction does.
+const pendingTimers = new Set<ReturnType<typeof setTimeout>>();
+const nodeSetTimeout = globalThis.setTimeout;
+const nodeClearTimeout = globalThis.clearTimeout;
+runtime.setTimeout = ((callback: () => void, delay?: number) => {
+  const timer = nodeSetTimeout(() => {
+    pendingTimers.delete(timer);
+    callback();
+  }, delay);
+  (timer as unknown as { unref(): void }).unref();
+  pendingTimers.add(timer);
+  return timer;
+}) as typeof setTimeout;
+runtime.clearTimeout = ((timer: ReturnType<typeof setTimeout>) => {
+  pendingTimers.delete(timer);
+  nodeClearTimeout(timer);
+}) as typeof clearTimeout;
+
+// The shard narrates every frame; keep test output to the results.
+for (const level of ["log", "warn", "info"] as const) {
+  const original = console[level];
+  console[level] = (...args: unknown[]) => {
+    if (typeof args[0] === "string" && args[0].startsWith("[voice-worker]")) {
+      return;
+    }
+    original(...args);
+  };
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => nodeSetTimeout(resolve, ms));
+
+let clockOffset = 0;
+const nodeNow = Date.now;
+Date.now = () => nodeNow() + clockOffset;
+
+/** Moves the shards' clock forward without waiting; timers keep real time. */
+export const advanceClock = (ms: number) => {
+  clockOffset += ms;
+};
+
+/** Storage calls the shard makes, plus the alarm it sets. */
+export class MemoryStorage implements DurableObjectStorage {
+  readonly data = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return structuredClone(this.data.get(key)) as T | undefined;
+  }
+
+  async list<T>(
+    options: { prefix?: string; end?: string; limit?: number } = {},
+  ): Promise<Map<string, T>> {
+    const keys = Array.from(this.data.keys())
+      .filter(
+        (key) =>
+          key.startsWith(options.prefix ?? "") &&
+          (options.end === undefined || key < options.end),
+      )
+      .sort()
+      .slice(0, options.limit);
+    return new Map(
+      keys.map((key) => [key, structuredClone(this.data.get(key)) as T]),
+    );
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string | string[]): Promise<number> {
+    const list = Array.isArray(keys) ? keys : [keys];
+    return list.filter((key) => this.data.delete(key)).length;
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(scheduledTime: number): Promise<void> {
+    this.alarm = scheduledTime;
+  }
+}
+
+class FakeState implements DurableObjectState {
+  readonly storage = new MemoryStorage();
+  readonly sockets: FakeSocket[] = [];
+  ready: Promise<unknown> = Promise.resolve();
+
+  async blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    const result = callback();
+    this.ready = result;
+    return result;
+  }
+
+  acceptWebSocket(socket: WebSocket): void {
+    this.sockets.push(socket as unknown as FakeSocket);
+  }
+
+  getWebSockets(): HibernatableWebSocket[] {
+    return this.sockets.filter(
+      (socket) => !socket.closed,
+    ) as unknown as HibernatableWebSocket[];
+  }
+
+  setWebSocketAutoResponse(): void {}
+
+  getWebSocketAutoResponseTimestamp(): Date | null {
+    return null;
+  }
+}
+
+/** One cell's Durable Object: its state outlives `instance` on hibernation. */
+export type ShardHost = {
+  cellId: string;
+  state: FakeState;
+  instance: WorldShard;
+};
+
+/** A player's socket as the shard sees it, with the frames it was sent. */
+export class ShardClient {
+  private readonly consumed = new Set<number>();
+
+  constructor(
+    readonly host: ShardHost,
+    readonly socket: FakeSocket,
+  ) {}
+
+  async send(message: Record<string, unknown>): Promise<void> {
+    await this.host.instance.webSocketMessage(
+      this.socket as unknown as HibernatableWebSocket,
+      JSON.stringify(message),
+    );
+  }
+
+  /** The runtime reporting that the client closed the socket with `code`. */
+  async close(code: number): Promise<void> {
+    this.socket.close(code);
+    await this.host.instance.webSocketClose(
+      this.socket as unknown as HibernatableWebSocket,
+      code,
+    );
+  }
+
+  /** Frames of `type` received so far, read or not. */
+  frames(type: string): ServerFrame[] {
+    return this.socket.sent.filter((frame) => frame.type === type);
+  }
+
+  /**
+   * The first unread frame of `type` that passes `match`, waiting up to
+   * `timeoutMs` for it. Earlier unread frames of other kinds stay unread.
+   */
+  async next(
+    type: string,
+    match: (frame: ServerFrame) => boolean = () => true,
+    timeoutMs = 1_000,
+  ): Promise<ServerFrame> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const index = this.socket.sent.findIndex(
+        (frame, position) =>
+          !this.consumed.has(position) && frame.type === type && match(frame),
+      );
+
+      if (index >= 0) {
+        this.consumed.add(index);
+        return this.socket.sent[index];
+      }
+
+      const remaining = deadline - Date.now();
+
+      if (remaining <= 0) {
+        throw new Error(
+          `No ${type} frame within ${timeoutMs} ms; got ${JSON.stringify(
+            this.socket.sent.filter(
+              (_, position) => !this.consumed.has(position),
+            ),
+          )}`,
+        );
+      }
+
+      await Promise.race([this.socket.nextFrame(), sleep(remaining)]);
+    }
+  }
+}
+
+/**
+ * A world of shards addressed by cell id, as the worker's namespace is, and
+ * of block list homes addressed by name.
+ */
+export class ShardWorld {
+  readonly hosts = new Map<string, ShardHost>();
+  readonly blockListHomes = new Map<string, BlockListHome>();
+  readonly env: VoiceWorkerEnv;
+
+  constructor(vars: Partial<VoiceWorkerEnv> = {}) {
+    this.env = {
+      ...vars,
+      WORLD_SHARD: {
+        idFromName: (name) => name,
+        get: (id) => ({
+          fetch: async (input, init) => {
+            const host = this.host(String(id));
+            await host.state.ready;
+            return host.instance.fetch(new Request(input, init));
+          },
+        }),
+      },
+      BLOCK_LISTS: {
+        idFromName: (name) => name,
+        get: (id) => ({
+          fetch: async (input, init) => {
+            let home = this.blockListHomes.get(String(id));
+
+            if (!home) {
+              home = new BlockListHome(new FakeState());
+              this.blockListHomes.set(String(id), home);
+            }
+
+            return home.fetch(new Request(input, init));
+          },
+        }),
+      },
+    };
+  }
+
+  host(cellId: string): ShardHost {
+    let host = this.hosts.get(cellId);
+
+    if (!host) {
+      const state = new FakeState();
+      host = { cellId, state, instance: new WorldShard(state, this.env) };
+      this.hosts.set(cellId, host);
+    }
+
+    return host;
+  }
+
+  /**
+   * Evicts the shard of `cellId` and wakes a new instance on the same state,
+   * as the runtime does after hibernation. Pending timers are dropped.
+   */
+  async hibernate(cellId: string): Promise<ShardHost> {
+    const host = this.host(cellId);
+
+    for (const timer of pendingTimers) {
+      nodeClearTimeout(timer);
+    }
+    pendingTimers.clear();
+
+    host.instance = new WorldShard(host.state, this.env);
+    await host.state.ready;
+    return host;
+  }
+
+  /** Runs the shard's alarm, which the runtime clears before calling it. */
+  async fireAlarm(cellId: string): Promise<void> {
+    const host = this.host(cellId);
+    host.state.storage.alarm = null;
+    await host.instance.alarm();
+  }
+
+  /** `POST /prepare` on the shard, as `/join` does; returns the token. */
+  async prepare(
+    cellId: string,
+    playerId: string,
+    extra: Record<string, unknown> = {},
+  ): Promise<{ status: number; sessionToken: string }> {
+    const sessionToken = crypto.randomUUID();
+    const response = await this.env.WORLD_SHARD.get(cellId).fetch(
+      "https://worldshard.internal/prepare",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          playerId,
+          sessionToken,
+          claims: null,
+          cellId,
+          ...extra,
+        }),
+      },
+    );
+
+    return { status: response.status, sessionToken };
+  }
+
+  /** Opens a socket on the shard of `cellId` without registering. */
+  async open(cellId: string): Promise<ShardClient> {
+    const host = this.host(cellId);
+    await host.state.ready;
+    const url = new URL("https://worldshard.internal/socket");
+    url.searchParams.set("cellId", cellId);
+    url.searchParams.set("cellUrlBase", "wss://voice.test/cell/");
+    const response = (await host.instance.fetch(
+      new Request(url, { headers: { upgrade: "websocket" } }),
+    )) as UpgradeResponse;
+
+    if (response.status !== 101) {
+      throw new Error(`socket upgrade returned ${response.status}`);
+    }
+
+    return new ShardClient(
+      host,
+      host.state.sockets[host.state.sockets.length - 1],
+    );
+  }
+
+  /**
+   * Prepares, connects and registers `playerId`, optionally at `position`;
+   * `extra` goes into the `/prepare` body, e.g. `claims`.
+   */
+  async join(
+    cellId: string,
+    playerId: string,
+    position?: { x: number; y: number; z: number },
+    extra: Record<string, unknown> = {},
+  ): Promise<ShardClient> {
+    const { sessionToken } = await this.prepare(cellId, playerId, extra);
+    const client = await this.open(cellId);
+    await client.send({
+      type: "register",
+      playerId,
+      sessionToken,
+      protocolVersion: PROTOCOL_VERSION,
+      wireFormat: "json",
+    });
+    await client.next("registered");
+
+    if (position) {
+      await client.send({ type: "position", position });
+    }
+
+    return client;
+  }
+}
+
+/** The set of peers a client believes in after applying every `peers` frame. */
+export const peerSet = (client: ShardClient): Set<string> => {
+  const peers = new Set<string>();
+
+  for (const frame of client.frames("peers")) {
+    if (frame.snapshot) {
+      peers.clear();
+      (frame.peers as string[] | undefined)?.forEach((id) => peers.add(id));
+    }
+
+    (frame.added as string[] | undefined)?.forEach((id) => peers.add(id));
+    (frame.removed as string[] | undefined)?.forEach((id) => peers.delete(id));
+  }
+
+  return peers;
+};
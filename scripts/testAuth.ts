@@ -0,0 +1,347 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { AuthError, authenticateJoin } from "../src/auth.ts";
+
+const HS_SECRET = "test-shared-secret";
+const ISSUER = "https://auth.example.test";
+const AUDIENCE = "voice";
+
+const encoder = new TextEncoder();
+
+const base64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const encodeJson = (value: unknown): string =>
+  base64Url(encoder.encode(JSON.stringify(value)));
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const baseClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: "player-1",
+  iss: ISSUER,
+  aud: AUDIENCE,
+  exp: nowSeconds() + 300,
+  roles: ["player", "moderator"],
+  name: "Player One",
+  ...overrides,
+});
+
+const signHs256 = async (
+  claims: Record<string, unknown>,
+  secret = HS_SECRET,
+): Promise<string> => {
+  const input = `${encodeJson({ alg: "HS256", typ: "JWT" })}.${encodeJson(claims)}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(input),
+  );
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+};
+
+const signEs256 = async (
+  claims: Record<string, unknown>,
+  privateKey: CryptoKey,
+  kid: string,
+): Promise<string> => {
+  const input = `${encodeJson({ alg: "ES256", typ: "JWT", kid })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    encoder.encode(input),
+  );
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+};
+
+const signRs256 = async (
+  claims: Record<string, unknown>,
+  privateKey: CryptoKey,
+  kid: string,
+): Promise<string> => {
+  const input = `${encodeJson({ alg: "RS256", typ: "JWT", kid })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    { name: "RSASSA-PKCS1-v1_5" },
+    privateKey,
+    encoder.encode(input),
+  );
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+};
+
+const expectAuthError = async (
+  promise: Promise<unknown>,
+  status: number,
+  code: string,
+  message: string,
+) => {
+  await assert.rejects(
+    promise,
+    (error: unknown) =>
+      error instanceof AuthError &&
+      error.status === status &&
+      error.code === code,
+    message,
+  );
+};
+
+const main = async () => {
+  const hsEnv = {
+    AUTH_JWT_SECRET: HS_SECRET,
+    AUTH_ISSUER: ISSUER,
+    AUTH_AUDIENCE: AUDIENCE,
+  };
+
+  await expectAuthError(
+    authenticateJoin("anyone", undefined, {}),
+    503,
+    "auth_not_configured",
+    "Joins should be refused when no keys are configured",
+  );
+  assert.equal(
+    await authenticateJoin("anyone", undefined, { AUTH_DISABLED: "true" }),
+    null,
+    "Auth should be skipped only when explicitly disabled without keys",
+  );
+  await expectAuthError(
+    authenticateJoin("anyone", undefined, { ...hsEnv, AUTH_DISABLED: "true" }),
+    401,
+    "token_missing",
+    "Configured keys should win over AUTH_DISABLED",
+  );
+
+  const claims = await authenticateJoin(
+    "player-1",
+    await signHs256(baseClaims()),
+    hsEnv,
+  );
+  assert.deepEqual(
+    claims,
+    {
+      subject: "player-1",
+      roles: ["player", "moderator"],
+      displayName: "Player One",
+    },
+    "HS256 token should verify and expose claims",
+  );
+
+  await expectAuthError(
+    authenticateJoin("player-1", undefined, hsEnv),
+    401,
+    "token_missing",
+    "Missing token should be rejected",
+  );
+  await expectAuthError(
+    authenticateJoin("player-2", await signHs256(baseClaims()), hsEnv),
+    403,
+    "player_mismatch",
+    "playerId must match the token subject",
+  );
+  await expectAuthError(
+    authenticateJoin(
+      "player-1",
+      await signHs256(baseClaims(), "wrong-secret"),
+      hsEnv,
+    ),
+    401,
+    "token_invalid_signature",
+    "Token signed with another secret should be rejected",
+  );
+  await expectAuthError(
+    authenticateJoin(
+      "player-1",
+      await signHs256(baseClaims({ exp: nowSeconds() - 120 })),
+      hsEnv,
+    ),
+    401,
+    "token_expired",
+    "Expired token should be rejected",
+  );
+  await expectAuthError(
+    authenticateJoin(
+      "player-1",
+      await signHs256(baseClaims({ iss: "https://evil.test" })),
+      hsEnv,
+    ),
+    401,
+    "token_issuer_mismatch",
+    "Unexpected issuer should be rejected",
+  );
+  await expectAuthError(
+    authenticateJoin(
+      "player-1",
+      await signHs256(baseClaims({ aud: ["other"] })),
+      hsEnv,
+    ),
+    401,
+    "token_audience_mismatch",
+    "Unexpected audience should be rejected",
+  );
+  await expectAuthError(
+    authenticateJoin("player-1", "not-a-jwt", hsEnv),
+    401,
+    "token_malformed",
+    "Malformed token should be rejected",
+  );
+
+  const ecKeys = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const rsaKeys = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const jwksEnv = {
+    AUTH_JWKS_JSON: JSON.stringify({
+      keys: [
+        {
+          ...(await crypto.subtle.exportKey("jwk", ecKeys.publicKey)),
+          kid: "ec-1",
+        },
+        {
+          ...(await crypto.subtle.exportKey("jwk", rsaKeys.publicKey)),
+          kid: "rsa-1",
+        },
+      ],
+    }),
+    AUTH_ISSUER: ISSUER,
+  };
+
+  const esClaims = await authenticateJoin(
+    "player-1",
+    await signEs256(baseClaims({ roles: "player" }), ecKeys.privateKey, "ec-1"),
+    jwksEnv,
+  );
+  assert.deepEqual(esClaims?.roles, ["player"], "ES256 token should verify");
+
+  const rsClaims = await authenticateJoin(
+    "player-1",
+    await signRs256(baseClaims(), rsaKeys.privateKey, "rsa-1"),
+    jwksEnv,
+  );
+  assert.equal(rsClaims?.subject, "player-1", "RS256 token should verify");
+
+  await expectAuthError(
+    authenticateJoin(
+      "player-1",
+      await signEs256(baseClaims(), ecKeys.privateKey, "unknown"),
+      jwksEnv,
+    ),
+    401,
+    "token_unknown_key",
+    "Unknown kid should be rejected",
+  );
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    await expectAuthError(
+      authenticateJoin(
+        "player-1",
+        await signEs256(baseClaims(), ecKeys.privateKey, "broken"),
+        {
+          AUTH_JWKS_JSON: JSON.stringify({
+            keys: [
+              { kty: "EC", crv: "P-256", x: "AA", y: "AA", kid: "broken" },
+            ],
+          }),
+        },
+      ),
+      401,
+      "token_unknown_key",
+      "A key WebCrypto cannot import is an unknown key, not a crash",
+    );
+  } finally {
+    console.warn = originalWarn;
+  }
+
+  // A kid missing from the cached key set refetches it once, so a rotated
+  // key works before the cache expires.
+  const rotatedKeys = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const published = [
+    {
+      ...(await crypto.subtle.exportKey("jwk", ecKeys.publicKey)),
+      kid: "ec-1",
+    },
+  ];
+  let jwksRequests = 0;
+  const originalFetch = globalThis.fetch;
+  const originalNow = Date.now;
+  globalThis.fetch = async () => {
+    jwksRequests += 1;
+    return new Response(JSON.stringify({ keys: published }));
+  };
+  try {
+    const urlEnv = { AUTH_JWKS_URL: "https://auth.example.test/jwks" };
+    await authenticateJoin(
+      "player-1",
+      await signEs256(baseClaims(), ecKeys.privateKey, "ec-1"),
+      urlEnv,
+    );
+    published.push({
+      ...(await crypto.subtle.exportKey("jwk", rotatedKeys.publicKey)),
+      kid: "ec-2",
+    });
+    Date.now = () => originalNow() + 60_000;
+    const rotated = await authenticateJoin(
+      "player-1",
+      await signEs256(baseClaims(), rotatedKeys.privateKey, "ec-2"),
+      urlEnv,
+    );
+    assert.equal(rotated?.subject, "player-1", "Rotated key should verify");
+    assert.equal(jwksRequests, 2);
+
+    await expectAuthError(
+      authenticateJoin(
+        "player-1",
+        await signEs256(baseClaims(), ecKeys.privateKey, "ec-9"),
+        urlEnv,
+      ),
+      401,
+      "token_unknown_key",
+      "Unknown kid should still be rejected",
+    );
+    assert.equal(jwksRequests, 2, "Refetches are spaced out");
+  } finally {
+    globalThis.fetch = originalFetch;
+    Date.now = originalNow;
+  }
+
+  await expectAuthError(
+    authenticateJoin("player-1", await signHs256(baseClaims()), jwksEnv),
+    401,
+    "token_unsupported_algorithm",
+    "HS256 should be refused when no shared secret is configured",
+  );
+
+  console.log("✅ Join auth token test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ Join auth token test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,429 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { setTimeout as wait } from "node:timers/promises";
+import {
+  ClosedBeforeRegisterError,
+  InvalidSessionError,
+  RegistrationTimeoutError,
+  UnsupportedProtocolError,
+  VoicePeerManager,
+  connectCellWS,
+  reconnectDelay,
+} from "../client/voiceChat/client.ts";
+import type { ConnectionLifecycleEvent } from "../client/voiceChat/types";
+import { PROTOCOL_VERSION } from "../src/protocol.ts";
+import { PeerFrameEncoder, decodePositionFrame } from "../src/wireFormat.ts";
+
+type ClientFrame = {
+  type: string;
+  playerId?: string;
+  sessionToken?: string;
+  resumeToken?: string;
+  protocolVersion?: number;
+  wireFormat?: string;
+};
+
+/** Minimal in-process stand-in for a cell shard and its sockets. */
+class FakeSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static sockets: FakeSocket[] = [];
+  static reachable = true;
+  static validSessions = new Set(["s1"]);
+  static resumeToken: string | null = null;
+  static issued = 0;
+  static protocolVersion = PROTOCOL_VERSION;
+  static blocked: string[] = [];
+  static transportMode: string | undefined;
+  /** Runs when a `resume` arrives, before the shard answers it. */
+  static onResume: (() => void) | null = null;
+
+  readyState = FakeSocket.CONNECTING;
+  readonly frames: ClientFrame[] = [];
+  readonly binaryFrames: ArrayBuffer[] = [];
+  binaryType = "blob";
+  closeCode: number | null = null;
+
+  constructor(readonly url: string) {
+    super();
+    FakeSocket.sockets.push(this);
+    setTimeout(() => {
+      if (FakeSocket.reachable) {
+        this.readyState = FakeSocket.OPEN;
+        this.dispatchEvent(new Event("open"));
+      } else {
+        this.close(1006, "Unreachable");
+      }
+    }, 0);
+  }
+
+  send(data: string | ArrayBuffer): void {
+    if (data instanceof ArrayBuffer) {
+      this.binaryFrames.push(data);
+      return;
+    }
+
+    const frame = JSON.parse(data) as ClientFrame;
+    this.frames.push(frame);
+
+    if (frame.type === "heartbeat" || frame.type === "position") {
+      return;
+    }
+
+    if (frame.type === "resync") {
+      this.serverSend({ type: "peers", seq: 9, snapshot: true, peers: [] });
+    } else if (frame.type === "block" || frame.type === "unblock") {
+      FakeSocket.blocked =
+        frame.type === "block"
+          ? [...FakeSocket.blocked, frame.playerId ?? ""]
+          : FakeSocket.blocked.filter((id) => id !== frame.playerId);
+      this.serverSend({ type: "block-list", blocked: FakeSocket.blocked });
+    } else if (frame.type === "turn-credentials") {
+      this.serverSend({
+        type: "turn-credentials",
+        iceServers: [{ urls: "turn:a", username: "u", credential: "c" }],
+      });
+    } else if (frame.protocolVersion !== FakeSocket.protocolVersion) {
+      this.serverSend({
+        type: "error",
+        code: "unsupported_protocol",
+        message: "Please update the client",
+      });
+      this.close(4006, "Unsupported protocol");
+    } else if (frame.type === "register" && frame.sessionToken) {
+      if (FakeSocket.validSessions.has(frame.sessionToken)) {
+        this.acceptSession(false, frame.wireFormat);
+      } else if (frame.sessionToken === "forged") {
+        this.serverSend({
+          type: "error",
+          code: "invalid_session",
+          message: "Invalid session token",
+        });
+        this.close(4001, "Invalid session token");
+      }
+    } else if (frame.type === "resume") {
+      FakeSocket.onResume?.();
+
+      if (frame.resumeToken === FakeSocket.resumeToken) {
+        this.acceptSession(true, frame.wireFormat);
+      } else {
+        this.serverSend({ type: "error", code: "resume_failed" });
+        this.close(4001, "Resume failed");
+      }
+    }
+  }
+
+  // A browser reports a close without a code as 1005 (no status received).
+  close(code = 1005, reason = ""): void {
+    if (this.readyState === FakeSocket.CLOSED) {
+      return;
+    }
+
+    this.readyState = FakeSocket.CLOSED;
+    this.closeCode = code;
+    this.dispatchEvent(Object.assign(new Event("close"), { code, reason }));
+  }
+
+  serverSend(message: unknown): void {
+    const data =
+      message instanceof ArrayBuffer ? message : JSON.stringify(message);
+    this.dispatchEvent(Object.assign(new Event("message"), { data }));
+  }
+
+  private acceptSession(resumed: boolean, wireFormat?: string): void {
+    FakeSocket.issued += 1;
+    FakeSocket.resumeToken = `r${FakeSocket.issued}`;
+    this.serverSend({
+      type: "registered",
+      playerId: "p1",
+      resumeToken: FakeSocket.resumeToken,
+      resumed,
+      wireFormat,
+      transportMode: FakeSocket.transportMode,
+    });
+  }
+}
+
+(globalThis as { WebSocket?: unknown }).WebSocket = FakeSocket;
+
+const waitFor = async (check: () => boolean, message: string) => {
+  for (let i = 0; i < 200; i += 1) {
+    if (check()) {
+      return;
+    }
+    await wait(5);
+  }
+  assert.fail(message);
+};
+
+const lastSocket = () => FakeSocket.sockets[FakeSocket.sockets.length - 1];
+
+const connect = (sessionToken: string) =>
+  connectCellWS({
+    url: "wss://cell/a",
+    playerId: "p1",
+    sessionToken,
+    webSocketFactory: FakeSocket as unknown as typeof WebSocket,
+    registerTimeoutMs: 20,
+  });
+
+const main = async () => {
+  // Registration failures reject with typed errors.
+  await assert.rejects(
+    connect("forged"),
+    (error: unknown) =>
+      error instanceof InvalidSessionError && error.code === "invalid_session",
+  );
+  await assert.rejects(
+    connect("silent"),
+    (error: unknown) =>
+      error instanceof RegistrationTimeoutError && error.timeoutMs === 20,
+  );
+  FakeSocket.reachable = false;
+  await assert.rejects(
+    connect("s1"),
+    (error: unknown) =>
+      error instanceof ClosedBeforeRegisterError && !error.opened,
+  );
+  FakeSocket.reachable = true;
+  FakeSocket.protocolVersion = PROTOCOL_VERSION + 1;
+  await assert.rejects(
+    connect("s1"),
+    (error: unknown) => error instanceof UnsupportedProtocolError,
+  );
+  FakeSocket.protocolVersion = PROTOCOL_VERSION;
+
+  // Resolves only once registered, so the first position is not dropped.
+  const registeredConnection = await connect("s1");
+  registeredConnection.sendPosition({ x: 1, y: 2, z: 3 });
+  assert.equal(lastSocket().frames[1]?.type, "position");
+
+  // A gap in the `peers` sequence asks the shard for a snapshot.
+  const resyncManager = new VoicePeerManager({ connectRadius: 30 });
+  const resyncPeers: (number | undefined)[] = [];
+  registeredConnection.attachPeerManager(resyncManager);
+  registeredConnection.onPeersChange((message) =>
+    resyncPeers.push(message.seq),
+  );
+  lastSocket().serverSend({ type: "peers", seq: 1, snapshot: true, peers: [] });
+  lastSocket().serverSend({ type: "peers", seq: 3, added: ["p2"] });
+  assert.equal(lastSocket().frames[2]?.type, "resync");
+  assert.ok(resyncPeers.includes(9), "The shard answers with a snapshot");
+  resyncManager.dispose();
+
+  // The shard answers block changes with the whole list.
+  const blockLists: string[][] = [];
+  registeredConnection.onBlockListChange((blocked) => blockLists.push(blocked));
+  registeredConnection.block("p2");
+  registeredConnection.block("p3");
+  registeredConnection.unblock("p2");
+  assert.deepEqual(blockLists, [["p2"], ["p2", "p3"], ["p3"]]);
+  assert.deepEqual(registeredConnection.getBlockedPlayers(), ["p3"]);
+
+  // Cells that pick their own transport announce every switch.
+  const transports: string[] = [];
+  registeredConnection.onTransportChange((mode) => transports.push(mode));
+  lastSocket().serverSend({ type: "transport-change", transportMode: "sfu" });
+  lastSocket().serverSend({ type: "transport-change", transportMode: "x" });
+  assert.deepEqual(transports, ["sfu"], "Unknown modes are dropped");
+
+  // TURN credentials are refreshed over the socket.
+  const refreshed: RTCIceServer[][] = [];
+  registeredConnection.onTurnCredentials((servers) => refreshed.push(servers));
+  registeredConnection.requestTurnCredentials();
+  assert.deepEqual(refreshed, [
+    [{ urls: "turn:a", username: "u", credential: "c" }],
+  ]);
+  registeredConnection.close();
+  assert.equal(lastSocket().closeCode, 1000, "close() ends the session");
+
+  // Binary sockets send compact positions and decode binary peer frames.
+  const binaryConnection = await connectCellWS({
+    url: "wss://cell/a",
+    playerId: "p1",
+    sessionToken: "s1",
+    webSocketFactory: FakeSocket as unknown as typeof WebSocket,
+    wireFormat: "binary",
+  });
+  const binarySocket = lastSocket();
+  const binaryPeers: string[][] = [];
+  binaryConnection.onPeersChange((message) => {
+    binaryPeers.push(message.peers ?? []);
+  });
+  binaryConnection.sendPosition({ x: 1.5, y: 2, z: -3 });
+  assert.equal(binarySocket.binaryType, "arraybuffer");
+  assert.deepEqual(decodePositionFrame(binarySocket.binaryFrames[0]), {
+    x: 1.5,
+    y: 2,
+    z: -3,
+  });
+  const encoder = new PeerFrameEncoder();
+  binarySocket.serverSend(
+    encoder.encode({ type: "peers", peers: ["p2", "p3"], added: ["p2", "p3"] }),
+  );
+  binarySocket.serverSend(
+    encoder.encode({ type: "peers", peers: ["p3"], removed: ["p2"] }),
+  );
+  assert.deepEqual(binaryPeers, [["p2", "p3"], ["p3"]]);
+  binaryConnection.close();
+
+  FakeSocket.resumeToken = null;
+  FakeSocket.issued = 0;
+
+  assert.equal(
+    reconnectDelay(1, { initialDelayMs: 500, maxDelayMs: 15_000 }, () => 0),
+    250,
+  );
+  assert.equal(
+    reconnectDelay(10, { initialDelayMs: 500, maxDelayMs: 15_000 }, () => 1),
+    15_000,
+    "Delays are capped",
+  );
+
+  let rejoins = 0;
+  const events: ConnectionLifecycleEvent[] = [];
+  const peerMessages: string[][] = [];
+  const connection = await connectCellWS({
+    url: "wss://cell/a",
+    playerId: "p1",
+    sessionToken: "s1",
+    cellId: "a",
+    webSocketFactory: FakeSocket as unknown as typeof WebSocket,
+    reconnect: {
+      initialDelayMs: 1,
+      maxDelayMs: 4,
+      maxAttempts: 3,
+      rejoin: async () => {
+        rejoins += 1;
+        FakeSocket.validSessions.add("s2");
+        return {
+          cellId: "b",
+          cellWebSocketUrl: "wss://cell/b",
+          sessionToken: "s2",
+        };
+      },
+    },
+  });
+  connection.onLifecycle((event) => events.push(event));
+  connection.onPeersChange((message) => peerMessages.push(message.peers ?? []));
+  const resumedTransports: string[] = [];
+  connection.onTransportChange((mode) => resumedTransports.push(mode));
+  await waitFor(() => FakeSocket.resumeToken === "r1", "Initial register");
+
+  // A dropped socket resumes with the token from `registered`, which reaches
+  // handlers like the first one did.
+  FakeSocket.transportMode = "sfu";
+  lastSocket().close(1006, "Network");
+  await waitFor(
+    () => events.some((event) => event.type === "reconnected"),
+    "Resume after drop",
+  );
+  assert.deepEqual(lastSocket().frames[0], {
+    type: "resume",
+    playerId: "p1",
+    resumeToken: "r1",
+    protocolVersion: PROTOCOL_VERSION,
+    wireFormat: "json",
+  });
+  assert.deepEqual(events[events.length - 1], {
+    type: "reconnected",
+    attempt: 1,
+    resumed: true,
+  });
+  lastSocket().serverSend({ type: "peers", peers: ["p2"] });
+  assert.deepEqual(peerMessages, [["p2"]], "Handlers survive a resume");
+  assert.deepEqual(resumedTransports, ["sfu"]);
+  FakeSocket.transportMode = undefined;
+
+  // The shard forgot the session: fall back to a fresh join.
+  const cellChanges: string[] = [];
+  connection.onCellChange((cellId) => cellChanges.push(cellId));
+  FakeSocket.resumeToken = "forgotten";
+  events.length = 0;
+  lastSocket().close(1006, "Network");
+  await waitFor(
+    () => events.some((event) => event.type === "reconnected"),
+    "Rejoin after failed resume",
+  );
+  assert.equal(rejoins, 1);
+  assert.equal(lastSocket().url, "wss://cell/b");
+  assert.equal(lastSocket().frames[0].sessionToken, "s2");
+  assert.deepEqual(cellChanges, ["b"]);
+  assert.deepEqual(events[events.length - 1], {
+    type: "reconnected",
+    attempt: 1,
+    resumed: false,
+  });
+
+  // Unreachable shard: give up after the configured attempts.
+  FakeSocket.reachable = false;
+  events.length = 0;
+  lastSocket().close(1006, "Network");
+  await waitFor(
+    () => events.some((event) => event.type === "gave-up"),
+    "Give up when unreachable",
+  );
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ["reconnecting", "reconnecting", "reconnecting", "gave-up"],
+  );
+
+  // Superseded sessions are left alone.
+  FakeSocket.reachable = true;
+  const superseded = await connectCellWS({
+    url: "wss://cell/a",
+    playerId: "p1",
+    sessionToken: "s1",
+    webSocketFactory: FakeSocket as unknown as typeof WebSocket,
+    reconnect: { initialDelayMs: 1, maxDelayMs: 1 },
+  });
+  const supersededEvents: ConnectionLifecycleEvent[] = [];
+  superseded.onLifecycle((event) => supersededEvents.push(event));
+  const socketCount = FakeSocket.sockets.length;
+  lastSocket().serverSend({ type: "superseded", message: "Elsewhere" });
+  lastSocket().close(4002, "Superseded");
+  await wait(20);
+  assert.equal(FakeSocket.sockets.length, socketCount);
+  assert.deepEqual(supersededEvents, []);
+
+  // Closing while a resume is in flight drops the socket it was opening.
+  const closing = await connectCellWS({
+    url: "wss://cell/a",
+    playerId: "p1",
+    sessionToken: "s1",
+    webSocketFactory: FakeSocket as unknown as typeof WebSocket,
+    reconnect: { initialDelayMs: 1, maxDelayMs: 1 },
+  });
+  const closingEvents: ConnectionLifecycleEvent[] = [];
+  closing.onLifecycle((event) => closingEvents.push(event));
+  closing.startHeartbeat(1);
+  FakeSocket.onResume = () => closing.close();
+  const dropped = lastSocket();
+  dropped.close(1006, "Network");
+  await waitFor(
+    () => lastSocket() !== dropped && lastSocket().closeCode !== null,
+    "Resume socket closed",
+  );
+  FakeSocket.onResume = null;
+  const abandoned = lastSocket();
+  await wait(20);
+  assert.equal(abandoned.closeCode, 1000);
+  assert.equal(
+    abandoned.frames.filter((frame) => frame.type === "heartbeat").length,
+    0,
+    "No timers run on the abandoned socket",
+  );
+  assert.deepEqual(
+    closingEvents.map((event) => event.type),
+    ["reconnecting"],
+  );
+
+  console.log("✅ Cell connection test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ Cell connection test failed:", error);
+  process.exitCode = 1;
+});
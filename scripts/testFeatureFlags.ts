@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  evaluateFeatureFlags,
+  parseFeatureFlags,
+  parseFlagRule,
+  rolloutBucket,
+  ruleApplies,
+} from "../src/featureFlags.ts";
+import type { VoiceChatEnv } from "../src/config";
+
+const kvEnv = (
+  entries: Record<string, string>,
+  env: VoiceChatEnv = {},
+): VoiceChatEnv => ({
+  ...env,
+  VOICE_FEATURE_FLAGS: { get: (key) => entries[key] ?? null },
+});
+
+const main = async () => {
+  const context = { playerId: "p1", worldId: "plaza" };
+
+  assert.deepEqual(await evaluateFeatureFlags({}, context), {
+    sfu: false,
+    pannerDistanceModel: "exponential",
+    pannerMaxDistance: 80,
+  });
+
+  // Environment values apply when KV has no entry; invalid ones are ignored.
+  assert.deepEqual(
+    await evaluateFeatureFlags(
+      {
+        FEATURE_SFU_ENABLED: "TRUE",
+        FEATURE_PANNER_DISTANCE_MODEL: "cubic",
+        FEATURE_PANNER_MAX_DISTANCE: "40",
+      },
+      context,
+    ),
+    { sfu: true, pannerDistanceModel: "exponential", pannerMaxDistance: 40 },
+  );
+
+  // Plain KV values, including the legacy SFU key, win over the environment.
+  assert.deepEqual(
+    await evaluateFeatureFlags(
+      kvEnv(
+        {
+          "feature:voice:transport:sfu": "false",
+          "feature:voice:panner:distance-model": "linear",
+          "feature:voice:panner:max-distance": "0",
+        },
+        { FEATURE_SFU_ENABLED: "true" },
+      ),
+      context,
+    ),
+    { sfu: false, pannerDistanceModel: "linear", pannerMaxDistance: 80 },
+  );
+
+  // Rules: deny beats allow, allow beats the rollout.
+  const rule = parseFlagRule(
+    JSON.stringify({
+      value: true,
+      rollout: 0,
+      allowWorlds: ["plaza"],
+      denyPlayers: ["p2"],
+    }),
+  );
+  assert.equal(ruleApplies("sfu", rule, context), true);
+  assert.equal(ruleApplies("sfu", rule, { ...context, playerId: "p2" }), false);
+  assert.equal(ruleApplies("sfu", rule, { ...context, worldId: "hub" }), false);
+
+  const players = Array.from({ length: 1000 }, (_, index) => `player-${index}`);
+  const inRollout = (percent: number) =>
+    players.filter((playerId) =>
+      ruleApplies(
+        "sfu",
+        { value: true, rollout: percent },
+        { playerId, worldId: "plaza" },
+      ),
+    );
+  const quarter = inRollout(25);
+  const half = inRollout(50);
+
+  assert.ok(quarter.length > 200 && quarter.length < 300, "~25% selected");
+  assert.ok(
+    quarter.every((playerId) => half.includes(playerId)),
+    "Raising a rollout keeps everyone already in it",
+  );
+  assert.equal(rolloutBucket("sfu", "p1"), rolloutBucket("sfu", "p1"));
+
+  // Bucketing by world gives every player of a world the same answer.
+  const byWorld = players.map((playerId) =>
+    ruleApplies(
+      "sfu",
+      { value: true, rollout: 50, bucketBy: "world" },
+      { playerId, worldId: "plaza" },
+    ),
+  );
+  assert.equal(new Set(byWorld).size, 1);
+
+  // Players outside the rule get the environment fallback.
+  const outside = await evaluateFeatureFlags(
+    kvEnv(
+      {
+        "feature:voice:panner:max-distance": JSON.stringify({
+          value: 120,
+          denyPlayers: ["p1"],
+        }),
+      },
+      { FEATURE_PANNER_MAX_DISTANCE: "60" },
+    ),
+    context,
+  );
+  assert.equal(outside.pannerMaxDistance, 60);
+
+  assert.deepEqual(
+    parseFeatureFlags({ sfu: true, pannerMaxDistance: "far" }),
+    { sfu: true, pannerDistanceModel: "exponential", pannerMaxDistance: 80 },
+    "Unknown or invalid values fall back to defaults",
+  );
+
+  console.log("✅ Feature flags test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ Feature flags test failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  AUDIT_RETENTION_MS,
+  DEFAULT_BAN_MS,
+  MAX_MUTE_MS,
+  ModerationStore,
+  isModerator,
+  sanctionDuration,
+  sdpSendsAudio,
+} from "../src/moderation.ts";
+import type { DurableObjectStorage } from "../src/types";
+
+/** In-memory stand-in for the storage calls the store makes. */
+const memoryStorage = (): DurableObjectStorage => {
+  const data = new Map<string, unknown>();
+
+  return {
+    get: async <T>(key: string) => data.get(key) as T | undefined,
+    list: async <T>(
+      options: { prefix?: string; end?: string; limit?: number } = {},
+    ) => {
+      const keys = Array.from(data.keys())
+        .filter(
+          (key) =>
+            key.startsWith(options.prefix ?? "") &&
+            (options.end === undefined || key < options.end),
+        )
+        .sort()
+        .slice(0, options.limit);
+      return new Map(keys.map((key) => [key, data.get(key) as T]));
+    },
+    put: async (key, value) => {
+      data.set(key, value);
+    },
+    delete: async (keys) => {
+      const list = Array.isArray(keys) ? keys : [keys];
+      return list.filter((key) => data.delete(key)).length;
+    },
+    getAlarm: async () => null,
+    setAlarm: async () => {},
+  };
+};
+
+const audioSection = (direction: string) =>
+  `v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\ns=-\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=mid:0\r\na=${direction}\r\nm=application 9 UDP/DTLS/SCTP webrtc-datachannel\r\na=mid:1\r\n`;
+
+const main = async () => {
+  assert.equal(isModerator({ subject: "p1", roles: ["moderator"] }), true);
+  assert.equal(isModerator({ subject: "p1", roles: ["player"] }), false);
+  assert.equal(isModerator(null), false, "Unauthenticated players never are");
+
+  assert.equal(sanctionDuration("ban", undefined), DEFAULT_BAN_MS);
+  assert.equal(sanctionDuration("mute", 10 * MAX_MUTE_MS), MAX_MUTE_MS);
+  assert.equal(sanctionDuration("mute", 5_000), 5_000);
+
+  assert.equal(sdpSendsAudio(audioSection("sendrecv")), true);
+  assert.equal(sdpSendsAudio(audioSection("recvonly")), false);
+  assert.equal(sdpSendsAudio(audioSection("inactive")), false);
+  assert.equal(
+    sdpSendsAudio(
+      "v=0\r\nm=application 9 UDP/DTLS/SCTP webrtc-datachannel\r\n",
+    ),
+    false,
+    "Data-channel-only offers send no audio",
+  );
+
+  const storage = memoryStorage();
+  const store = new ModerationStore(storage);
+
+  await store.putSanction("mute", {
+    playerId: "p2",
+    moderatorId: "p1",
+    expiresAt: 2_000,
+  });
+  await store.putSanction("mute", {
+    playerId: "p3",
+    moderatorId: "p1",
+    expiresAt: 500,
+  });
+  await store.putSanction("ban", {
+    playerId: "p3",
+    moderatorId: "p1",
+    expiresAt: 2_000,
+  });
+
+  const mutes = await store.loadSanctions("mute");
+  assert.deepEqual(
+    Array.from(mutes.keys()).sort(),
+    ["p2", "p3"],
+    "Lapsed mutes are left for the shard to announce",
+  );
+  assert.deepEqual(
+    Array.from((await store.loadSanctions("ban")).keys()),
+    ["p3"],
+    "Mutes and bans are kept apart",
+  );
+
+  await store.deleteSanction("ban", "p3");
+  assert.equal((await store.loadSanctions("ban")).size, 0);
+
+  await store.appendAudit({
+    at: 1_000,
+    moderatorId: "p1",
+    action: "kick",
+    playerId: "p2",
+  });
+  await store.appendAudit({
+    at: 1_000 + AUDIT_RETENTION_MS + 1,
+    moderatorId: "p1",
+    action: "ban",
+    playerId: "p2",
+    reason: "spam",
+    expiresAt: 5_000,
+  });
+  const audit = await storage.list({ prefix: "audit:" });
+  assert.deepEqual(
+    Array.from(audit.values()).map(
+      (entry) => (entry as { action: string }).action,
+    ),
+    ["ban"],
+    "Entries past the retention window are pruned",
+  );
+
+  console.log("✅ Moderation test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ Moderation test failed:", error);
+  process.exitCode = 1;
+});
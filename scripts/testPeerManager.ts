@@ -107,6 +107,42 @@ const main = async () => {
   );
 
   manager.dispose();
+
+  // Sequenced deltas: a gap asks for one snapshot and pauses until it lands.
+  const sequenced = new VoicePeerManager({ connectRadius: 30 });
+  let resyncs = 0;
+  sequenced.onResyncNeeded(() => {
+    resyncs += 1;
+  });
+  sequenced.applyPeerDiff({
+    type: "peers",
+    seq: 1,
+    snapshot: true,
+    peers: ["a", "b"],
+    distances: { a: 5, b: 6 },
+  });
+  sequenced.applyPeerDiff({ type: "peers", seq: 2, distances: { a: 7 } });
+  assert.equal(sequenced.getPeerDistance("a"), 7);
+  sequenced.applyPeerDiff({ type: "peers", seq: 4, removed: ["b"] });
+  sequenced.applyPeerDiff({ type: "peers", seq: 5, distances: { a: 9 } });
+  assert.equal(resyncs, 1, "A gap should request a single resync");
+  assert.equal(
+    sequenced.getPeerDistance("a"),
+    7,
+    "Deltas after a gap should wait for the snapshot",
+  );
+  sequenced.applyPeerDiff({
+    type: "peers",
+    seq: 6,
+    snapshot: true,
+    peers: ["a"],
+    distances: { a: 9 },
+  });
+  sequenced.applyPeerDiff({ type: "peers", seq: 7, distances: { a: 10 } });
+  assert.equal(sequenced.getPeerDistance("a"), 10);
+  assert.equal(resyncs, 1);
+  sequenced.dispose();
+
   console.log("✅ VoicePeerManager hysteresis test passed");
 };
 
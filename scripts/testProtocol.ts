@@ -0,0 +1,370 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  MAX_MESSAGE_BYTES,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  decodeServerMessage,
+  decodeSocketMessage,
+  isSupportedProtocolVersion,
+} from "../src/protocol.ts";
+import { encodePositionFrame } from "../src/wireFormat.ts";
+import type { RegisterMessage } from "../src/protocol";
+
+const expectCode = (raw: string | ArrayBuffer, code: string) => {
+  assert.throws(
+    () => decodeSocketMessage(raw),
+    (error: unknown) => error instanceof ProtocolError && error.code === code,
+    `Expected ${code} for ${typeof raw === "string" ? raw.slice(0, 60) : "binary"}`,
+  );
+};
+
+const expectBinaryCode = (raw: ArrayBuffer, code: string) => {
+  assert.throws(
+    () => decodeSocketMessage(raw, { allowBinary: true }),
+    (error: unknown) => error instanceof ProtocolError && error.code === code,
+    `Expected ${code} for binary frame`,
+  );
+};
+
+const encode = (value: unknown) => JSON.stringify(value);
+
+const main = () => {
+  assert.deepEqual(
+    decodeSocketMessage(
+      encode({ type: "register", playerId: "p1", sessionToken: "t1" }),
+    ),
+    {
+      type: "register",
+      playerId: "p1",
+      sessionToken: "t1",
+      protocolVersion: 1,
+      wireFormat: "json",
+    },
+    "Frames without a version come from version 1 clients",
+  );
+  assert.equal(
+    (
+      decodeSocketMessage(
+        encode({
+          type: "register",
+          playerId: "p1",
+          sessionToken: "t1",
+          protocolVersion: PROTOCOL_VERSION,
+        }),
+      ) as RegisterMessage
+    ).protocolVersion,
+    PROTOCOL_VERSION,
+  );
+  assert.deepEqual(
+    decodeSocketMessage(
+      encode({ type: "resume", playerId: "p1", resumeToken: "r1", x: 1 }),
+    ),
+    {
+      type: "resume",
+      playerId: "p1",
+      resumeToken: "r1",
+      protocolVersion: 1,
+      wireFormat: "json",
+    },
+  );
+  assert.equal(
+    (
+      decodeSocketMessage(
+        encode({
+          type: "register",
+          playerId: "p1",
+          sessionToken: "t1",
+          wireFormat: "binary",
+        }),
+      ) as RegisterMessage
+    ).wireFormat,
+    "binary",
+  );
+  assert.deepEqual(
+    decodeSocketMessage(encodePositionFrame({ x: 1.234, y: -2, z: 3 }), {
+      allowBinary: true,
+    }),
+    { type: "position", position: { x: 1.23, y: -2, z: 3 } },
+    "Binary positions are quantized to centimetres",
+  );
+  assert.deepEqual(decodeSocketMessage(encode({ type: "resync", x: 1 })), {
+    type: "resync",
+  });
+  assert.deepEqual(decodeSocketMessage(encode({ type: "turn-credentials" })), {
+    type: "turn-credentials",
+  });
+  assert.deepEqual(
+    decodeSocketMessage(encode({ type: "unblock", playerId: "p2", x: 1 })),
+    { type: "unblock", playerId: "p2" },
+  );
+  assert.deepEqual(
+    decodeSocketMessage(
+      encode({
+        type: "moderate",
+        action: "ban",
+        playerId: "p2",
+        durationMs: 60_000,
+      }),
+    ),
+    {
+      type: "moderate",
+      action: "ban",
+      playerId: "p2",
+      durationMs: 60_000,
+      reason: undefined,
+    },
+  );
+  assert.deepEqual(
+    decodeSocketMessage(
+      encode({ type: "sfu-publish", sdp: "v=0\r\n", mid: "0", x: 1 }),
+    ),
+    { type: "sfu-publish", sdp: "v=0\r\n", mid: "0" },
+  );
+  assert.deepEqual(
+    decodeSocketMessage(encode({ type: "sfu-answer", sdp: "v=0\r\n" })),
+    { type: "sfu-answer", sdp: "v=0\r\n" },
+  );
+  assert.deepEqual(
+    decodeSocketMessage(
+      encode({ type: "position", position: { x: 1, y: 2, z: 3, w: 4 } }),
+    ),
+    { type: "position", position: { x: 1, y: 2, z: 3 } },
+    "Extra position fields should be dropped",
+  );
+  assert.equal(
+    decodeSocketMessage(
+      encode({
+        type: "signal",
+        targetId: "p2",
+        payload: {
+          type: "candidate",
+          candidate: {
+            candidate: "candidate:1 1 udp 2122260223 10.0.0.2 5000 typ host",
+            sdpMid: "0",
+            sdpMLineIndex: 0,
+            usernameFragment: null,
+          },
+        },
+      }),
+    ).type,
+    "signal",
+  );
+  assert.equal(
+    decodeSocketMessage(
+      encode({
+        type: "signal",
+        targetId: "p2",
+        payload: { type: "offer", sdp: "v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\n" },
+      }),
+    ).type,
+    "signal",
+  );
+
+  expectCode(new ArrayBuffer(4), "binary_not_supported");
+  expectCode(encodePositionFrame({ x: 1, y: 2, z: 3 }), "binary_not_supported");
+  expectBinaryCode(new Uint8Array([9, 0, 0]).buffer, "unknown_type");
+  expectBinaryCode(new Uint8Array([1, 0, 0]).buffer, "invalid_position");
+  expectBinaryCode(
+    encodePositionFrame({ x: 2_000_000, y: 0, z: 0 }),
+    "invalid_position",
+  );
+  expectCode("x".repeat(MAX_MESSAGE_BYTES + 1), "message_too_large");
+  expectCode("{not json", "invalid_json");
+  expectCode(encode(["register"]), "invalid_json");
+  expectCode(encode({ type: "teleport" }), "unknown_type");
+  expectCode(encode({ type: "register", playerId: "p1" }), "invalid_register");
+  expectCode(
+    encode({ type: "register", playerId: "p".repeat(200), sessionToken: "t" }),
+    "invalid_register",
+  );
+  expectCode(
+    encode({
+      type: "register",
+      playerId: "p1",
+      sessionToken: "t1",
+      protocolVersion: "2",
+    }),
+    "invalid_register",
+  );
+  expectCode(encode({ type: "resume", playerId: "p1" }), "invalid_resume");
+  expectCode(
+    encode({ type: "resume", playerId: "p1", resumeToken: 42 }),
+    "invalid_resume",
+  );
+  expectCode(
+    encode({
+      type: "register",
+      playerId: "p1",
+      sessionToken: "t1",
+      wireFormat: "msgpack",
+    }),
+    "invalid_register",
+  );
+
+  // NaN and Infinity serialize to null.
+  expectCode(
+    encode({ type: "position", position: { x: NaN, y: 0, z: 0 } }),
+    "invalid_position",
+  );
+  expectCode(
+    encode({ type: "position", position: { x: "1", y: 0, z: 0 } }),
+    "invalid_position",
+  );
+  expectCode(
+    encode({ type: "position", position: { x: 1, y: 0 } }),
+    "invalid_position",
+  );
+  expectCode(
+    encode({ type: "position", position: { x: 1e9, y: 0, z: 0 } }),
+    "invalid_position",
+  );
+
+  expectCode(
+    encode({ type: "signal", targetId: "p2", payload: "hello" }),
+    "invalid_signal",
+  );
+  expectCode(
+    encode({
+      type: "signal",
+      targetId: "p2",
+      payload: { type: "offer", sdp: "not an sdp" },
+    }),
+    "invalid_signal",
+  );
+  expectCode(
+    encode({
+      type: "signal",
+      targetId: "p2",
+      payload: { type: "candidate", candidate: { sdpMid: "0" } },
+    }),
+    "invalid_signal",
+  );
+  expectCode(
+    encode({
+      type: "signal",
+      targetId: "",
+      payload: { type: "answer", sdp: "v=0\r\n" },
+    }),
+    "invalid_signal",
+  );
+
+  expectCode(encode({ type: "block", playerId: "" }), "invalid_block");
+  expectCode(encode({ type: "block", playerId: 2 }), "invalid_block");
+  expectCode(
+    encode({ type: "moderate", action: "delete", playerId: "p2" }),
+    "invalid_moderation",
+  );
+  expectCode(
+    encode({
+      type: "moderate",
+      action: "mute",
+      playerId: "p2",
+      durationMs: -1,
+    }),
+    "invalid_moderation",
+  );
+  expectCode(
+    encode({
+      type: "moderate",
+      action: "kick",
+      playerId: "p2",
+      reason: "x".repeat(257),
+    }),
+    "invalid_moderation",
+  );
+
+  expectCode(encode({ type: "sfu-publish", sdp: "v=0\r\n" }), "invalid_sfu");
+  expectCode(encode({ type: "sfu-answer", sdp: "not an sdp" }), "invalid_sfu");
+
+  assert.equal(isSupportedProtocolVersion(PROTOCOL_VERSION), true);
+  assert.equal(isSupportedProtocolVersion(PROTOCOL_VERSION + 1), false);
+
+  // Server frames: malformed or unknown ones decode to null.
+  assert.deepEqual(
+    decodeServerMessage(
+      encode({ type: "peers", peers: ["p2"], distances: { p2: 3 } }),
+    ),
+    { type: "peers", peers: ["p2"], distances: { p2: 3 } },
+  );
+  assert.equal(
+    decodeServerMessage(encode({ type: "heartbeat-ack" }))?.type,
+    "heartbeat-ack",
+  );
+  assert.equal(
+    decodeServerMessage(encode({ type: "peers", peers: "p2" })),
+    null,
+  );
+  assert.equal(
+    decodeServerMessage(
+      encode({ type: "signal-ack", signalId: "1", status: "lost" }),
+    ),
+    null,
+  );
+  assert.equal(
+    decodeServerMessage(encode({ type: "peers", seq: 0, added: ["p2"] })),
+    null,
+  );
+  assert.equal(
+    decodeServerMessage(encode({ type: "block-list", blocked: [2] })),
+    null,
+  );
+  assert.equal(
+    decodeServerMessage(
+      encode({
+        type: "turn-credentials",
+        iceServers: [{ urls: ["turn:a"], username: "u", credential: "c" }],
+      }),
+    )?.type,
+    "turn-credentials",
+  );
+  assert.equal(
+    decodeServerMessage(
+      encode({ type: "turn-credentials", iceServers: [{ username: "u" }] }),
+    ),
+    null,
+    "ICE servers need urls",
+  );
+  assert.equal(
+    decodeServerMessage(
+      encode({ type: "moderation", action: "mute", playerId: "p2" }),
+    )?.type,
+    "moderation",
+  );
+  assert.equal(
+    decodeServerMessage(
+      encode({ type: "moderation", action: "unban", playerId: "p2" }),
+    ),
+    null,
+    "Unbans are not broadcast",
+  );
+  assert.deepEqual(
+    decodeServerMessage(
+      encode({ type: "sfu-tracks", tracks: { "1": "p2" }, sdp: "v=0" }),
+    ),
+    { type: "sfu-tracks", tracks: { "1": "p2" }, sdp: "v=0" },
+  );
+  assert.equal(
+    decodeServerMessage(encode({ type: "sfu-tracks", tracks: { "1": 2 } })),
+    null,
+  );
+  assert.equal(decodeServerMessage(encode({ type: "sfu-published" })), null);
+  assert.equal(
+    decodeServerMessage(
+      encode({ type: "registered", playerId: "p1", transportMode: "mesh" }),
+    ),
+    null,
+  );
+  assert.equal(decodeServerMessage(encode({ type: "registered" })), null);
+  assert.equal(decodeServerMessage(encode({ type: "toString" })), null);
+  assert.equal(decodeServerMessage("{not json"), null);
+
+  console.log("✅ Socket protocol test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Socket protocol test failed:", error);
+  process.exitCode = 1;
+}
@@ -6,6 +6,8 @@ import WebSocket from "ws";
 const WORKER_BASE_URL =
   process.env.VOICE_WORKER_URL ?? "https://127.0.0.1:8787";
 const DEFAULT_TIMEOUT_MS = 2000;
+const PEER_DWELL_MS = 2000; // server keeps new links at least this long
+const OVERALL_TIMEOUT_MS = 20_000;
 
 if (typeof globalThis.fetch !== "function") {
   throw new Error(
@@ -153,21 +155,25 @@ const main = async () => {
   const connA = await connect(players.a, sessionA);
   const connB = await connect(players.b, sessionB);
 
-  // initial positions within range
-  connA.sendPosition(players.a.position);
-  connB.sendPosition(players.b.position);
-
-  await waitForMessage(
+  // One recalculation updates both players, in no particular order, so
+  // listen on both sockets before sending the positions.
+  const peerAddA = waitForMessage(
     connA.ws,
     (msg) => msg.type === "peers" && (msg.peers ?? []).includes(players.b.id),
     "peer add for A",
   );
-  const msgB = await waitForMessage(
+  const peerAddB = waitForMessage(
     connB.ws,
     (msg) => msg.type === "peers" && (msg.peers ?? []).includes(players.a.id),
     "peer add for B",
   );
 
+  // initial positions within range
+  connA.sendPosition(players.a.position);
+  connB.sendPosition(players.b.position);
+
+  const [, msgB] = await Promise.all([peerAddA, peerAddB]);
+
   expectPeers(msgB, [players.a.id]);
 
   // move B far away to trigger removal (respect 10 Hz server guardrail)
@@ -179,6 +185,7 @@ const main = async () => {
     connA.ws,
     (msg) => msg.type === "peers" && (msg.removed ?? []).includes(players.b.id),
     "peer removal for A",
+    DEFAULT_TIMEOUT_MS + PEER_DWELL_MS,
   );
 
   connA.ws.close();
@@ -186,7 +193,18 @@ const main = async () => {
   log("✅ Proximity test passed");
 };
 
-main().catch((error) => {
-  console.error("❌ Proximity test failed:", error);
-  process.exitCode = 1;
-});
+// Open sockets keep the process alive; make sure a failure exits.
+const overallTimer = setTimeout(() => {
+  console.error("❌ Proximity test timed out");
+  process.exit(1);
+}, OVERALL_TIMEOUT_MS);
+
+main()
+  .catch((error) => {
+    console.error("❌ Proximity test failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    clearTimeout(overallTimer);
+    process.exit();
+  });
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { PeerLinks, ProximityIndex } from "../src/proximity.ts";
+
+const sorted = (values: Iterable<string>) => Array.from(values).sort();
+
+const neighbourIds = (index: ProximityIndex, id: string) =>
+  sorted(index.getNeighbours(id).keys());
+
+const testProximityIndex = () => {
+  const index = new ProximityIndex(45);
+
+  index.upsert("a", { x: 0, y: 0, z: 0 });
+  index.upsert("b", { x: 10, y: 0, z: 0 });
+  index.upsert("c", { x: 100, y: 0, z: 0 });
+
+  assert.deepEqual(
+    sorted(index.flush()),
+    ["a", "b", "c"],
+    "Initial flush should report every inserted player",
+  );
+  assert.deepEqual(neighbourIds(index, "a"), ["b"], "a should see b");
+  assert.deepEqual(neighbourIds(index, "b"), ["a"], "b should see a");
+  assert.deepEqual(neighbourIds(index, "c"), [], "c should be alone");
+  assert.equal(index.getNeighbours("a").get("b"), 10, "Distance is tracked");
+
+  assert.deepEqual(
+    sorted(index.flush()),
+    [],
+    "Flush without changes should report nobody",
+  );
+
+  // Cross a bucket boundary while staying within radius.
+  index.upsert("b", { x: 60, y: 0, z: 0 });
+  assert.deepEqual(
+    sorted(index.flush()),
+    ["a", "b", "c"],
+    "Moving b should affect b and its previous and new neighbours",
+  );
+  assert.deepEqual(neighbourIds(index, "a"), [], "a should lose b");
+  assert.deepEqual(neighbourIds(index, "b"), ["c"], "b should now see c");
+  assert.deepEqual(neighbourIds(index, "c"), ["b"], "Relation is symmetric");
+
+  index.remove("c");
+  assert.deepEqual(
+    sorted(index.flush()),
+    ["b"],
+    "Removing c should affect its neighbours only",
+  );
+  assert.deepEqual(neighbourIds(index, "b"), [], "b should lose c");
+  assert.equal(index.has("c"), false, "c should be gone");
+
+  index.setRadius(60);
+  index.flush();
+  assert.deepEqual(
+    neighbourIds(index, "a"),
+    ["b"],
+    "Changing the radius should recompute every player",
+  );
+};
+
+const testPeerLinkHysteresis = () => {
+  const index = new ProximityIndex(15);
+  const links = new PeerLinks({
+    enterRadius: 10,
+    exitRadius: 15,
+    minDwellMs: 0,
+    maxPeers: null,
+  });
+  const step = (x: number) => {
+    index.upsert("b", { x, y: 0, z: 0 });
+    return links.update(index, index.flush(), 0);
+  };
+
+  index.upsert("a", { x: 0, y: 0, z: 0 });
+  step(12);
+  assert.deepEqual(links.getPeers("a"), [], "12 m is outside the enter radius");
+
+  assert.deepEqual(sorted(step(9)), ["a", "b"], "Entering links both sides");
+  assert.deepEqual(links.getPeers("b"), ["a"], "Links are symmetric");
+
+  assert.deepEqual(
+    sorted(step(14)),
+    [],
+    "Inside the exit radius nothing changes",
+  );
+  assert.deepEqual(links.getPeers("a"), ["b"], "a should keep b");
+
+  assert.deepEqual(sorted(step(16)), ["a", "b"], "Leaving drops both sides");
+  assert.deepEqual(links.getPeers("b"), [], "b should lose a");
+};
+
+const testPeerLinkDwell = () => {
+  const index = new ProximityIndex(15);
+  const links = new PeerLinks({
+    enterRadius: 10,
+    exitRadius: 15,
+    minDwellMs: 1_000,
+    maxPeers: null,
+  });
+
+  index.upsert("a", { x: 0, y: 0, z: 0 });
+  index.upsert("b", { x: 5, y: 0, z: 0 });
+  links.update(index, index.flush(), 0);
+  assert.equal(links.nextReviewAt(), 1_000, "Review when the dwell ends");
+
+  index.upsert("b", { x: 40, y: 0, z: 0 });
+  links.update(index, index.flush(), 500);
+  assert.deepEqual(links.getPeers("a"), ["b"], "Dwell keeps a young link");
+
+  links.update(index, index.flush(), 1_000);
+  assert.deepEqual(links.getPeers("a"), [], "Expired dwell drops the link");
+  assert.equal(links.nextReviewAt(), null, "Nothing left to review");
+
+  index.upsert("b", { x: 5, y: 0, z: 0 });
+  links.update(index, index.flush(), 2_000);
+  index.remove("b");
+  links.update(index, index.flush(), 2_100);
+  assert.deepEqual(links.getPeers("a"), [], "Leaving ignores the dwell time");
+};
+
+const testPeerLinkCap = () => {
+  const index = new ProximityIndex(15);
+  const links = new PeerLinks({
+    enterRadius: 10,
+    exitRadius: 15,
+    minDwellMs: 0,
+    maxPeers: 1,
+  });
+
+  index.upsert("a", { x: 0, y: 0, z: 0 });
+  index.upsert("b", { x: 3, y: 0, z: 0 });
+  index.upsert("c", { x: 5, y: 0, z: 0 });
+  links.update(index, index.flush(), 0);
+
+  assert.deepEqual(links.getPeers("b"), ["c"], "b keeps its closest peer");
+  assert.deepEqual(links.getPeers("c"), ["b"], "c agrees with b");
+  assert.deepEqual(links.getPeers("a"), [], "a has no peer with room");
+
+  // a is now closer to b than c is, but not by enough to displace c.
+  index.upsert("a", { x: 1.5, y: 0, z: 0 });
+  links.update(index, index.flush(), 0);
+  assert.deepEqual(links.getPeers("b"), ["c"], "Existing links are sticky");
+
+  index.upsert("a", { x: 2.9, y: 0, z: 0 });
+  links.update(index, index.flush(), 0);
+  assert.deepEqual(links.getPeers("b"), ["a"], "A much closer peer wins");
+  assert.deepEqual(links.getPeers("a"), ["b"], "a agrees with b");
+  assert.deepEqual(links.getPeers("c"), [], "c loses its link on both sides");
+
+  // Only a moves, yet b refills the slot a leaves in the same update.
+  index.upsert("a", { x: 40, y: 0, z: 0 });
+  index.flush();
+  assert.deepEqual(sorted(links.update(index, index.lastMoved(), 0)), [
+    "a",
+    "b",
+    "c",
+  ]);
+  assert.deepEqual(links.getPeers("b"), ["c"], "b relinks with c");
+};
+
+const testPeerLinkBlocks = () => {
+  const index = new ProximityIndex(15);
+  const links = new PeerLinks({
+    enterRadius: 10,
+    exitRadius: 15,
+    minDwellMs: 1_000,
+    maxPeers: null,
+  });
+  const blocked = new Set<string>();
+  links.setBlockFilter((a, b) => blocked.has(a + b) || blocked.has(b + a));
+
+  index.upsert("a", { x: 0, y: 0, z: 0 });
+  index.upsert("b", { x: 5, y: 0, z: 0 });
+  index.upsert("c", { x: 6, y: 0, z: 0 });
+  links.update(index, index.flush(), 0);
+  assert.deepEqual(sorted(links.getPeers("a")), ["b", "c"]);
+
+  blocked.add("ba");
+  assert.deepEqual(
+    sorted(links.update(index, ["b"], 10)),
+    ["a", "b"],
+    "A block drops the link even while it dwells",
+  );
+  assert.deepEqual(links.getPeers("a"), ["c"]);
+  assert.deepEqual(links.getPeers("b"), ["c"]);
+
+  index.upsert("a", { x: 4, y: 0, z: 0 });
+  links.update(index, index.flush(), 2_000);
+  assert.deepEqual(links.getPeers("a"), ["c"], "Blocked pairs never relink");
+
+  blocked.clear();
+  links.update(index, ["a"], 3_000);
+  assert.deepEqual(sorted(links.getPeers("a")), ["b", "c"], "Unblock relinks");
+};
+
+const main = () => {
+  testProximityIndex();
+  testPeerLinkHysteresis();
+  testPeerLinkDwell();
+  testPeerLinkCap();
+  testPeerLinkBlocks();
+
+  console.log("✅ ProximityIndex test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ ProximityIndex test failed:", error);
+  process.exitCode = 1;
+}
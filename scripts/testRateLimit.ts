@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { TokenBucket } from "../src/rateLimit.ts";
+
+const main = () => {
+  const bucket = new TokenBucket({ capacity: 3, refillPerSecond: 2 }, 0);
+
+  assert.equal(bucket.take(0), true, "Burst token 1");
+  assert.equal(bucket.take(0), true, "Burst token 2");
+  assert.equal(bucket.take(0), true, "Burst token 3");
+  assert.equal(bucket.take(0), false, "Burst exhausted");
+
+  assert.equal(bucket.take(400), false, "0.8 tokens is not enough");
+  assert.equal(bucket.take(500), true, "One token after 500 ms");
+  assert.equal(bucket.take(500), false, "And only one");
+
+  assert.equal(bucket.take(60_000), true, "Refill is capped at capacity");
+  assert.equal(bucket.take(60_000), true);
+  assert.equal(bucket.take(60_000), true);
+  assert.equal(bucket.take(60_000), false, "Capacity bounds the burst");
+
+  assert.equal(bucket.take(59_000), false, "Clock skew never adds tokens");
+
+  console.log("✅ TokenBucket test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ TokenBucket test failed:", error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { CloudflareSfuProvider } from "../src/sfu.ts";
+import { SfuBroker } from "../src/sfuBroker.ts";
+import { MockSfuProvider } from "../src/sfuMock.ts";
+import type { CellServerMessage, SfuTracksMessage } from "../src/protocol";
+
+const OFFER = "v=0\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=mid:0\r\n";
+const ANSWER = "v=0\r\n";
+
+const createHarness = () => {
+  const provider = new MockSfuProvider();
+  const sent: { playerId: string; message: CellServerMessage }[] = [];
+  const peers = new Map<string, string[]>();
+  const muted = new Set<string>();
+  const changed: string[] = [];
+  const broker: SfuBroker = new SfuBroker({
+    provider,
+    send: (playerId, message) => sent.push({ playerId, message }),
+    peersOf: (playerId) => peers.get(playerId) ?? [],
+    trackOf: (playerId) =>
+      muted.has(playerId) ? undefined : broker.publishedTrack(playerId),
+    onChange: (playerId) => changed.push(playerId),
+    answerTimeoutMs: 50,
+  });
+
+  const lastTracks = (playerId: string) =>
+    sent
+      .filter(
+        (entry): entry is { playerId: string; message: SfuTracksMessage } =>
+          entry.playerId === playerId && entry.message.type === "sfu-tracks",
+      )
+      .pop()?.message;
+
+  return { provider, broker, sent, peers, muted, changed, lastTracks };
+};
+
+const main = async () => {
+  const { provider, broker, sent, peers, muted, changed, lastTracks } =
+    createHarness();
+
+  await broker.publish("p1", OFFER, "0");
+  await broker.publish("p2", OFFER, "0");
+  assert.equal(sent[0].message.type, "sfu-published");
+  assert.deepEqual(changed, ["p1", "p2"]);
+
+  peers.set("p1", ["p2", "p3"]);
+  const pending = broker.sync("p1");
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  const offer = lastTracks("p1")!;
+  assert.ok(offer.sdp, "New pulls carry an offer to answer");
+  assert.deepEqual(
+    Object.values(offer.tracks),
+    ["p2"],
+    "Players who never published are not pulled",
+  );
+
+  await broker.acceptAnswer("p1", ANSWER);
+  await pending;
+
+  const session = broker.snapshot("p1")!;
+  const [mid] = Object.keys(offer.tracks);
+  assert.equal(
+    provider.pulledTracks(session.sessionId).get(mid)?.trackName,
+    "p2",
+  );
+
+  sent.length = 0;
+  await broker.sync("p1");
+  assert.equal(sent.length, 0, "Unchanged peers send nothing");
+
+  muted.add("p2");
+  await broker.sync("p1");
+  assert.deepEqual(lastTracks("p1"), { type: "sfu-tracks", tracks: {} });
+  assert.equal(
+    provider.pulledTracks(session.sessionId).size,
+    0,
+    "Muted players are closed on the SFU",
+  );
+
+  // A republish replaces the session, so its pull is stale.
+  muted.delete("p2");
+  const replaced = broker.snapshot("p2")!.sessionId;
+  await broker.publish("p2", OFFER, "0");
+  assert.equal(
+    provider.publishedTracks(replaced).size,
+    0,
+    "The replaced session is closed on the SFU",
+  );
+  const repull = broker.sync("p1");
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assert.deepEqual(Object.values(lastTracks("p1")!.tracks), ["p2"]);
+  await repull; // unanswered: released by the timeout
+
+  const left = broker.snapshot("p2")!.sessionId;
+  await broker.remove("p2");
+  assert.equal(provider.publishedTracks(left).size, 0);
+  await broker.sync("p1");
+  assert.deepEqual(lastTracks("p1")?.tracks, {});
+
+  const restored = createHarness();
+  restored.broker.restore("p1", broker.snapshot("p1")!);
+  assert.deepEqual(restored.broker.snapshot("p1"), broker.snapshot("p1"));
+  await assert.rejects(
+    restored.broker.acceptAnswer("p9", ANSWER),
+    /No SFU session/,
+  );
+
+  await broker.clear();
+  assert.equal(provider.pulledTracks(session.sessionId).size, 0);
+  assert.equal(provider.publishedTracks(session.sessionId).size, 0);
+
+  // A failed push closes the session it opened.
+  const closed: string[] = [];
+  const closeTracks = provider.closeTracks.bind(provider);
+  provider.closeTracks = (sessionId, mids) => {
+    closed.push(sessionId);
+    return closeTracks(sessionId, mids);
+  };
+  await assert.rejects(broker.publish("p3", OFFER, "7"), /no mid 7/);
+  assert.equal(closed.length, 1);
+  assert.equal(broker.has("p3"), false);
+
+  // Overlapping publishes take turns, so the first session is closed too.
+  await Promise.all([
+    broker.publish("p3", OFFER, "0"),
+    broker.publish("p3", OFFER, "0"),
+  ]);
+  assert.equal(closed.length, 2);
+  assert.notEqual(closed[1], broker.snapshot("p3")!.sessionId);
+  assert.equal(provider.publishedTracks(closed[1]).size, 0);
+
+  // The Cloudflare provider speaks the Realtime API.
+  const requests: { url: string; method?: string; body: unknown }[] = [];
+  const cloudflare = new CloudflareSfuProvider(
+    "app",
+    "token",
+    "https://sfu.test/v1",
+    async (input, init) => {
+      requests.push({
+        url: String(input),
+        method: init?.method,
+        body: init?.body ? JSON.parse(String(init.body)) : undefined,
+      });
+      return new Response(
+        JSON.stringify({
+          sessionId: "s1",
+          requiresImmediateRenegotiation: true,
+          sessionDescription: { type: "offer", sdp: OFFER },
+          tracks: [
+            { mid: "1", trackName: "p2" },
+            { trackName: "p3", errorCode: "not_found" },
+          ],
+        }),
+      );
+    },
+  );
+
+  assert.equal(await cloudflare.createSession(), "s1");
+  const pulled = await cloudflare.pullTracks("s1", [
+    { sessionId: "s2", trackName: "p2" },
+    { sessionId: "s3", trackName: "p3" },
+  ]);
+  assert.deepEqual(pulled, {
+    sdp: OFFER,
+    tracks: [{ mid: "1", sessionId: "s2", trackName: "p2" }],
+  });
+  assert.equal(requests[0].url, "https://sfu.test/v1/apps/app/sessions/new");
+  assert.deepEqual(requests[1].body, {
+    tracks: [
+      { location: "remote", sessionId: "s2", trackName: "p2" },
+      { location: "remote", sessionId: "s3", trackName: "p3" },
+    ],
+  });
+
+  console.log("✅ SFU test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ SFU test failed:", error);
+  process.exitCode = 1;
+});
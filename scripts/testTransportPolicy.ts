@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { VoiceTransportMode } from "../src/protocol.ts";
+import { chooseCellTransport } from "../src/transportPolicy.ts";
+import { resolveWorldConfig } from "../src/worlds.ts";
+
+const { P2P, SFU } = VoiceTransportMode;
+
+const main = () => {
+  const config = resolveWorldConfig(
+    {
+      WORLD_CONFIG_JSON: JSON.stringify({
+        arena: {
+          transport: "auto",
+          sfuEnterPlayers: 10,
+          sfuEnterPeers: 5,
+          sfuExitPlayers: 20,
+          sfuExitPeers: 3,
+          minTransportDwellMs: 1_000,
+        },
+      }),
+    },
+    "arena",
+  );
+
+  assert.equal(config.transport, "auto");
+  assert.equal(config.sfuExitPlayers, 9, "Exit is clamped below enter");
+  assert.equal(config.sfuExitPeers, 3);
+  assert.equal(resolveWorldConfig({}, "arena").transport, "flag");
+
+  const calm = { players: 4, largestPeerSet: 2 };
+  const crowded = { players: 10, largestPeerSet: 2 };
+  const clustered = { players: 6, largestPeerSet: 5 };
+  const between = { players: 8, largestPeerSet: 4 };
+
+  assert.equal(chooseCellTransport(P2P, calm, config, 5_000), P2P);
+  assert.equal(chooseCellTransport(P2P, crowded, config, 5_000), SFU);
+  assert.equal(
+    chooseCellTransport(P2P, clustered, config, 5_000),
+    SFU,
+    "One dense cluster is enough",
+  );
+  assert.equal(
+    chooseCellTransport(P2P, crowded, config, 500),
+    P2P,
+    "No switch within the dwell time",
+  );
+  assert.equal(
+    chooseCellTransport(SFU, between, config, 5_000),
+    SFU,
+    "Hysteresis keeps SFU between the thresholds",
+  );
+  assert.equal(chooseCellTransport(P2P, between, config, 5_000), P2P);
+  assert.equal(chooseCellTransport(SFU, calm, config, 5_000), P2P);
+
+  console.log("✅ Transport policy test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Transport policy test failed:", error);
+  process.exitCode = 1;
+}
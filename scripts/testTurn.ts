@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import {
+  CoturnTurnProvider,
+  HttpTurnProvider,
+  resolveTurnIceServers,
+  selectTurnProvider,
+} from "../src/turn.ts";
+import { resolveWorldConfig } from "../src/worlds.ts";
+
+const main = async () => {
+  // coturn's TURN REST scheme: HMAC-SHA1 of `<expiry>:<user>`, base64.
+  const coturn = new CoturnTurnProvider(
+    "north-secret",
+    ["turn:turn.example.com:3478?transport=udp"],
+    600,
+    () => 1_700_000_000_000,
+  );
+  const [server] = await coturn.iceServers({ playerId: "p1" });
+  assert.equal(server.username, "1700000600:p1");
+  assert.equal(
+    server.credential,
+    createHmac("sha1", "north-secret").update("1700000600:p1").digest("base64"),
+  );
+  assert.deepEqual(server.urls, ["turn:turn.example.com:3478?transport=udp"]);
+
+  // The HTTP provider honours a custom URL and mints per player; concurrent
+  // joins of one player share a request.
+  const requests: { url: string; body: unknown }[] = [];
+  const http = new HttpTurnProvider(
+    "token id",
+    "api-token",
+    "https://turn.test/keys/{tokenId}/ice",
+    600,
+    async (input, init) => {
+      const body = JSON.parse(String(init?.body));
+      requests.push({ url: String(input), body });
+      return new Response(
+        JSON.stringify({
+          iceServers: [
+            {
+              urls: "turn:a",
+              username: `user-${requests.length}`,
+              credential: "c",
+            },
+          ],
+        }),
+      );
+    },
+  );
+  const [first, duplicate, other] = await Promise.all([
+    http.iceServers({ playerId: "p1" }),
+    http.iceServers({ playerId: "p1" }),
+    http.iceServers({ playerId: "p2" }),
+  ]);
+  assert.equal(duplicate, first);
+  assert.notDeepEqual(other, first);
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].url, "https://turn.test/keys/token%20id/ice");
+  assert.deepEqual(requests[0].body, { ttl: 600, customIdentifier: "p1" });
+
+  const rejoined = await http.iceServers({ playerId: "p1" });
+  assert.equal(rejoined?.[0].username, "user-3", "A later join mints again");
+
+  // Selection: world, then country, then continent, then TURN_PROVIDER.
+  const env = {
+    TURN_PROVIDER: "http",
+    TURN_REGIONS_JSON: JSON.stringify({
+      countries: { br: "coturn" },
+      continents: { EU: "coturn", AS: "static" },
+    }),
+  };
+  assert.equal(selectTurnProvider(env, { country: "BR" }), "coturn");
+  assert.equal(
+    selectTurnProvider(env, { country: "DE", continent: "EU" }),
+    "coturn",
+  );
+  assert.equal(selectTurnProvider(env, { continent: "NA" }), "http");
+  assert.equal(
+    selectTurnProvider(env, { worldProvider: "static", continent: "EU" }),
+    "static",
+  );
+  assert.equal(selectTurnProvider({}), "static");
+  assert.equal(
+    selectTurnProvider({ TURN_TOKEN_ID: "id", TURN_API_TOKEN: "token" }),
+    "http",
+  );
+
+  const worldConfig = resolveWorldConfig(
+    { WORLD_CONFIG_JSON: JSON.stringify({ eu: { turnProvider: "coturn" } }) },
+    "eu",
+  );
+  assert.equal(worldConfig.turnProvider, "coturn");
+
+  // A provider without its variables yields null, so `/join` uses the list.
+  assert.equal(
+    await resolveTurnIceServers(
+      { TURN_PROVIDER: "coturn" },
+      { playerId: "p1" },
+    ),
+    null,
+  );
+  const minted = await resolveTurnIceServers(
+    {
+      TURN_PROVIDER: "coturn",
+      TURN_SHARED_SECRET: "secret",
+      TURN_URLS: "turn:a:3478, turns:a:5349",
+    },
+    { playerId: "p2" },
+  );
+  assert.deepEqual(minted?.[0].urls, ["turn:a:3478", "turns:a:5349"]);
+  assert.match(String(minted?.[0].username), /^\d+:p2$/);
+
+  // Lifetimes are clamped to at least 5 minutes.
+  const short = await resolveTurnIceServers(
+    {
+      TURN_PROVIDER: "coturn",
+      TURN_SHARED_SECRET: "secret",
+      TURN_URLS: "turn:a:3478",
+      TURN_CREDENTIAL_TTL_SECONDS: "10",
+    },
+    { playerId: "p3" },
+  );
+  const expiry = Number(String(short?.[0].username).split(":")[0]);
+  assert.ok(expiry - Date.now() / 1000 > 290);
+
+  console.log("✅ TURN provider test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ TURN provider test failed:", error);
+  process.exitCode = 1;
+});
@@ -265,7 +265,16 @@ const main = async () => {
     sendJson(wsA, { type: "position", position: { x: 1, y: 0, z: 0 } });
     sendJson(wsB, { type: "position", position: { x: 6, y: 0, z: 0 } });
 
-    const signalPayload = { test: "hello" };
+    // Signals are only relayed between proximity peers.
+    await waitForMessage(
+      wsA,
+      (message) =>
+        message.type === "peers" && (message.peers ?? []).includes(playerB.id),
+      "peer list",
+    );
+
+    // The shard validates payloads, so send a minimal offer.
+    const signalPayload = { type: "offer", sdp: "v=0\r\n" };
     sendJson(wsA, {
       type: "signal",
       targetId: playerB.id,
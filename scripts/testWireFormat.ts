@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  PeerFrameDecoder,
+  PeerFrameEncoder,
+  decodePositionFrame,
+  encodePositionFrame,
+} from "../src/wireFormat.ts";
+
+const main = () => {
+  assert.deepEqual(
+    decodePositionFrame(encodePositionFrame({ x: -12.346, y: 0.004, z: 9e5 })),
+    { x: -12.35, y: 0, z: 9e5 },
+    "Positions are quantized to centimetres",
+  );
+  assert.equal(encodePositionFrame({ x: 1, y: 2, z: 3 }).byteLength, 13);
+  assert.deepEqual(
+    decodePositionFrame(encodePositionFrame({ x: 3e7, y: -3e7, z: 0 })),
+    { x: 21_474_836.47, y: -21_474_836.47, z: 0 },
+    "Out-of-range coordinates are clamped, not wrapped",
+  );
+  assert.equal(decodePositionFrame(new ArrayBuffer(12)), null);
+
+  const encoder = new PeerFrameEncoder();
+  const decoder = new PeerFrameDecoder();
+
+  const first = encoder.encode({
+    type: "peers",
+    peers: ["p2", "p3"],
+    added: ["p2", "p3"],
+    distances: { p2: 3.14159, p3: 1000 },
+    positions: { p2: { x: 1, y: 2, z: 3 } },
+    totalPlayers: 3,
+  });
+  assert.deepEqual(decoder.decode(first), {
+    type: "peers",
+    seq: undefined,
+    snapshot: undefined,
+    peers: ["p2", "p3"],
+    added: ["p2", "p3"],
+    removed: undefined,
+    distances: { p2: 3.14, p3: 655.35 },
+    positions: { p2: { x: 1, y: 2, z: 3 } },
+    totalPlayers: 3,
+  });
+
+  // Known ids are sent as indexes only.
+  const second = encoder.encode({
+    type: "peers",
+    peers: ["p3", "p4"],
+    added: ["p4"],
+    removed: ["p2"],
+  });
+  assert.ok(second.byteLength < first.byteLength);
+  assert.deepEqual(decoder.decode(second), {
+    type: "peers",
+    seq: undefined,
+    snapshot: undefined,
+    peers: ["p3", "p4"],
+    added: ["p4"],
+    removed: ["p2"],
+    distances: undefined,
+    positions: undefined,
+    totalPlayers: undefined,
+  });
+
+  // Deltas carry their sequence and no `peers` list.
+  assert.deepEqual(
+    decoder.decode(
+      encoder.encode({
+        type: "peers",
+        seq: 70_000,
+        distances: { p3: 2 },
+        removed: ["p4"],
+      }),
+    ),
+    {
+      type: "peers",
+      seq: 70_000,
+      snapshot: undefined,
+      peers: undefined,
+      added: undefined,
+      removed: ["p4"],
+      distances: { p3: 2 },
+      positions: undefined,
+      totalPlayers: undefined,
+    },
+  );
+  assert.equal(
+    decoder.decode(
+      encoder.encode({ type: "peers", seq: 1, snapshot: true, peers: [] }),
+    )?.snapshot,
+    true,
+  );
+
+  // A decoder that missed the table, e.g. on a new socket, cannot resolve
+  // indexes until the next reset.
+  assert.equal(
+    new PeerFrameDecoder().decode(
+      encoder.encode({ type: "peers", peers: ["p3"] }),
+    ),
+    null,
+  );
+
+  // A fresh encoder (a shard back from hibernation) resets the table.
+  const restarted = new PeerFrameEncoder().encode({
+    type: "peers",
+    peers: ["p9"],
+  });
+  assert.deepEqual(decoder.decode(restarted)?.peers, ["p9"]);
+
+  assert.equal(decoder.decode(first.slice(0, first.byteLength - 1)), null);
+  assert.equal(decoder.decode(encodePositionFrame({ x: 0, y: 0, z: 0 })), null);
+
+  console.log("✅ Wire format test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Wire format test failed:", error);
+  process.exitCode = 1;
+}
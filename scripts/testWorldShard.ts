@@ -0,0 +1,460 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  CLOSE_SESSION_ACTIVE,
+  CLOSE_SUPERSEDED,
+  PROTOCOL_VERSION,
+} from "../src/protocol.ts";
+import worker from "../src/index.ts";
+import { ShardWorld, advanceClock, peerSet, sleep } from "./shardHarness.ts";
+
+const WEST = "default:cell:0:0:0";
+const EAST = "default:cell:1:0:0";
+// The shard ignores position updates closer together than this.
+const POSITION_INTERVAL_MS = 110;
+
+const hasPeer = (playerId: string) => (frame: Record<string, unknown>) =>
+  [
+    ...((frame.peers as string[] | undefined) ?? []),
+    ...((frame.added as string[] | undefined) ?? []),
+  ].includes(playerId);
+
+const removesPeer = (playerId: string) => (frame: Record<string, unknown>) =>
+  ((frame.removed as string[] | undefined) ?? []).includes(playerId);
+
+const testFederation = async () => {
+  const world = new ShardWorld();
+  const alice = await world.join(WEST, "alice", { x: 60, y: 0, z: 10 });
+  const bob = await world.join(EAST, "bob", { x: 66, y: 0, z: 10 });
+
+  // Each shard links its player with the other's through presence pushes.
+  const [aliceSees] = await Promise.all([
+    alice.next("peers", hasPeer("bob")),
+    bob.next("peers", hasPeer("alice")),
+  ]);
+  assert.deepEqual(
+    (aliceSees.positions as Record<string, unknown>).bob,
+    { x: 66, y: 0, z: 10 },
+    "Remote peers come with their position",
+  );
+
+  // Signals to a remote peer are forwarded to the shard that owns it.
+  await alice.send({
+    type: "signal",
+    targetId: "bob",
+    signalId: "s1",
+    payload: { type: "offer", sdp: "v=0" },
+  });
+  const relayed = await bob.next("signal");
+  assert.equal(relayed.from, "alice");
+  assert.deepEqual(relayed.payload, { type: "offer", sdp: "v=0" });
+  assert.equal(
+    (await alice.next("signal-ack", (frame) => frame.signalId === "s1")).status,
+    "delivered",
+  );
+
+  // The owning shard checks forwarded signals again rather than trust the
+  // neighbour: malformed payloads and non-peers are refused.
+  const forward = (fromPlayerId: string, payload: unknown) =>
+    world.env.WORLD_SHARD.get(EAST).fetch(
+      "https://worldshard.internal/federation/signal",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          fromCellId: WEST,
+          fromPlayerId,
+          targetId: "bob",
+          payload,
+        }),
+      },
+    );
+  assert.equal((await forward("alice", { type: "offer" })).status, 400);
+  assert.equal(
+    (await forward("mallory", { type: "offer", sdp: "v=0" })).status,
+    403,
+  );
+  assert.equal(bob.frames("signal").length, 1);
+
+  // Presence is refreshed and expired by the alarm, not by a timer that would
+  // keep the shard awake: unrefreshed, alice expires from bob's shard...
+  const east = world.host(EAST).state.storage;
+  assert.ok(east.alarm !== null && east.alarm <= Date.now() + 5_000);
+  advanceClock(5_001);
+  await world.fireAlarm(EAST);
+  await bob.next("peers", removesPeer("alice"));
+
+  // ...until the alarm of hers pushes her presence again.
+  await world.fireAlarm(WEST);
+  await bob.next("peers", hasPeer("alice"));
+
+  // Walking away from the border withdraws the presence entry.
+  await sleep(POSITION_INTERVAL_MS);
+  await bob.send({ type: "position", position: { x: 120, y: 0, z: 10 } });
+  await alice.next("peers", removesPeer("bob"));
+  assert.equal(peerSet(alice).has("bob"), false);
+};
+
+const testHandoff = async () => {
+  const world = new ShardWorld();
+  const alice = await world.join(WEST, "alice", { x: 50, y: 0, z: 10 });
+  const bob = await world.join(WEST, "bob", { x: 56, y: 0, z: 10 });
+  await alice.next("peers", hasPeer("bob"));
+
+  // More than 8 m past the border: the destination is prepared first.
+  await sleep(POSITION_INTERVAL_MS);
+  await bob.send({ type: "position", position: { x: 74, y: 0, z: 10 } });
+  const migrate = await bob.next("migrate");
+  assert.equal(migrate.cellId, EAST);
+  assert.equal(migrate.cellWebSocketUrl, `wss://voice.test/cell/${EAST}`);
+
+  const next = await world.open(EAST);
+  await next.send({
+    type: "register",
+    playerId: "bob",
+    sessionToken: migrate.sessionToken,
+    protocolVersion: PROTOCOL_VERSION,
+    wireFormat: "json",
+  });
+  await next.next("registered");
+  await bob.close(1000);
+
+  // The destination places bob from `/prepare` before any position update,
+  // and the old shard keeps him until the destination's presence lists him.
+  await next.next("peers", hasPeer("alice"));
+  await sleep(300);
+  assert.equal(
+    alice.frames("peers").some(removesPeer("bob")),
+    false,
+    "Peers of a migrating player see no removal",
+  );
+
+  await alice.send({
+    type: "signal",
+    targetId: "bob",
+    signalId: "s2",
+    payload: { type: "offer", sdp: "v=0" },
+  });
+  assert.equal((await next.next("signal")).from, "alice");
+};
+
+const testHibernation = async () => {
+  const world = new ShardWorld();
+  const alice = await world.join(WEST, "alice", { x: 10, y: 0, z: 10 });
+  const bob = await world.join(WEST, "bob", { x: 14, y: 0, z: 10 });
+  await alice.next("peers", hasPeer("bob"));
+  const { resumeToken } = bob.frames("registered")[0];
+
+  // An abnormal close suspends bob; his session is written to storage.
+  await bob.close(1006);
+  const { storage } = world.host(WEST).state;
+  assert.ok(storage.data.has("suspended:bob"));
+  const pending = await world.prepare(WEST, "carol");
+
+  const host = await world.hibernate(WEST);
+
+  // Connections come back from socket attachments, sessions from storage.
+  await sleep(POSITION_INTERVAL_MS);
+  await alice.send({ type: "position", position: { x: 11, y: 0, z: 10 } });
+  const carol = await world.open(WEST);
+  await carol.send({
+    type: "register",
+    playerId: "carol",
+    sessionToken: pending.sessionToken,
+    protocolVersion: PROTOCOL_VERSION,
+    wireFormat: "json",
+  });
+  await carol.next("registered");
+  await carol.send({ type: "position", position: { x: 12, y: 0, z: 10 } });
+  await alice.next("peers", hasPeer("carol"));
+  assert.deepEqual(
+    Array.from(peerSet(alice)).sort(),
+    ["bob", "carol"],
+    "A suspended peer stays linked across hibernation",
+  );
+
+  const resumed = await world.open(WEST);
+  await resumed.send({
+    type: "resume",
+    playerId: "bob",
+    resumeToken,
+    protocolVersion: PROTOCOL_VERSION,
+    wireFormat: "json",
+  });
+  await resumed.next("registered");
+  assert.ok(peerSet(resumed).has("alice"), "bob resumes with his peers");
+
+  // The alarm expires a suspended session that outlived its grace period.
+  await resumed.close(1006);
+  assert.ok(
+    storage.alarm !== null && storage.alarm <= Date.now() + 20_000,
+    "The alarm is due when the suspension expires",
+  );
+  advanceClock(20_001);
+  await world.fireAlarm(host.cellId);
+  assert.equal(storage.data.has("suspended:bob"), false);
+  await alice.next("peers", removesPeer("bob"));
+};
+
+const testQueuedSignals = async () => {
+  const world = new ShardWorld();
+  const alice = await world.join(WEST, "alice", { x: 10, y: 0, z: 10 });
+  const bob = await world.join(WEST, "bob", { x: 14, y: 0, z: 10 });
+  await alice.next("peers", hasPeer("bob"));
+  let { resumeToken } = bob.frames("registered")[0];
+
+  const offer = (signalId: string) =>
+    alice.send({
+      type: "signal",
+      targetId: "bob",
+      signalId,
+      payload: { type: "offer", sdp: `v=0\r\ns=${signalId}` },
+    });
+  const ackOf = (signalId: string) =>
+    alice.next("signal-ack", (frame) => frame.signalId === signalId);
+  const resume = async () => {
+    const socket = await world.open(WEST);
+    await socket.send({
+      type: "resume",
+      playerId: "bob",
+      resumeToken,
+      protocolVersion: PROTOCOL_VERSION,
+      wireFormat: "json",
+    });
+    resumeToken = (await socket.next("registered")).resumeToken;
+    return socket;
+  };
+
+  // Signals for a peer between sockets wait for it, acked on each step.
+  await bob.close(1006);
+  await offer("q1");
+  assert.equal((await ackOf("q1")).status, "queued");
+  const resumed = await resume();
+  assert.deepEqual((await resumed.next("signal")).payload, {
+    type: "offer",
+    sdp: "v=0\r\ns=q1",
+  });
+  assert.equal((await ackOf("q1")).status, "delivered");
+
+  // Signals that outlive the queue are reported, not delivered late.
+  await resumed.close(1006);
+  await offer("q2");
+  assert.equal((await ackOf("q2")).status, "queued");
+  advanceClock(10_001);
+  const late = await resume();
+  const failed = await ackOf("q2");
+  assert.deepEqual([failed.status, failed.reason], ["failed", "expired"]);
+  assert.equal(late.frames("signal").length, 0);
+};
+
+const testModeration = async () => {
+  const world = new ShardWorld();
+  const mod = await world.join(
+    WEST,
+    "mod",
+    { x: 10, y: 0, z: 14 },
+    {
+      claims: { subject: "mod", roles: ["moderator"] },
+    },
+  );
+  const alice = await world.join(WEST, "alice", { x: 10, y: 0, z: 10 });
+  const bob = await world.join(WEST, "bob", { x: 14, y: 0, z: 10 });
+  await bob.next("peers", hasPeer("alice"));
+
+  await mod.send({ type: "moderate", action: "mute", playerId: "bob" });
+  await bob.next("moderation", (frame) => frame.playerId === "bob");
+
+  // Answering an offer is refused too if the answer would send audio.
+  const answer = (signalId: string, direction: string) =>
+    bob.send({
+      type: "signal",
+      targetId: "alice",
+      signalId,
+      payload: {
+        type: "answer",
+        sdp: `v=0\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=${direction}\r\n`,
+      },
+    });
+  const ackOf = (signalId: string) =>
+    bob.next("signal-ack", (frame) => frame.signalId === signalId);
+  await answer("a1", "sendrecv");
+  const refused = await ackOf("a1");
+  assert.deepEqual([refused.status, refused.reason], ["failed", "muted"]);
+  await answer("a2", "recvonly");
+  assert.equal((await ackOf("a2")).status, "delivered");
+  assert.equal(alice.frames("signal").length, 1);
+
+  // A storage failure is reported to the moderator, not dropped.
+  const { storage } = world.host(WEST).state;
+  const put = storage.put;
+  storage.put = async () => {
+    throw new Error("storage unavailable");
+  };
+  try {
+    await mod.send({ type: "moderate", action: "ban", playerId: "alice" });
+    assert.equal((await mod.next("error")).code, "moderation_failed");
+  } finally {
+    storage.put = put;
+  }
+};
+
+const testTakeover = async () => {
+  const world = new ShardWorld({
+    WORLD_CONFIG_JSON: JSON.stringify({ arena: { sessionTakeover: "reject" } }),
+  });
+
+  // supersede (default): the old socket is told and closed, and its late
+  // close event leaves the new session alone.
+  const bob = await world.join(WEST, "bob", { x: 14, y: 0, z: 10 });
+  const first = await world.join(WEST, "alice", { x: 10, y: 0, z: 10 });
+  await bob.next("peers", hasPeer("alice"));
+  const second = await world.join(WEST, "alice", { x: 10, y: 0, z: 10 });
+  await first.next("superseded");
+  assert.equal(first.socket.closed?.code, CLOSE_SUPERSEDED);
+  await first.close(CLOSE_SUPERSEDED);
+  await second.next("peers", hasPeer("bob"));
+  await sleep(100);
+  assert.ok(peerSet(bob).has("alice"), "The new socket keeps alice linked");
+
+  // reject: a live session turns the newcomer away with 4009...
+  const ARENA = "arena:cell:0:0:0";
+  const live = await world.join(ARENA, "alice");
+  const { sessionToken } = await world.prepare(ARENA, "alice");
+  const rejected = await world.open(ARENA);
+  await rejected.send({
+    type: "register",
+    playerId: "alice",
+    sessionToken,
+    protocolVersion: PROTOCOL_VERSION,
+    wireFormat: "json",
+  });
+  assert.equal((await rejected.next("error")).code, "session_active");
+  assert.equal(rejected.socket.closed?.code, CLOSE_SESSION_ACTIVE);
+  assert.equal(live.socket.closed, null);
+
+  // ...unless the live socket has been silent past the heartbeat timeout.
+  advanceClock(30_001);
+  await world.join(ARENA, "alice");
+  await live.next("superseded");
+  assert.equal(live.socket.closed?.code, CLOSE_SUPERSEDED);
+};
+
+const testBlockLists = async () => {
+  const world = new ShardWorld();
+  const alice = await world.join(WEST, "alice");
+  await alice.send({ type: "block", playerId: "bob" });
+  await alice.next("block-list", (frame) =>
+    (frame.blocked as string[]).includes("bob"),
+  );
+  await sleep(10); // the save is not awaited by the block
+  await alice.close(1000);
+
+  // Without KV the list lives in alice's own `BlockListHome`, so a cell that
+  // never saw it still loads it.
+  const far = await world.join("default:cell:9:0:0", "alice");
+  assert.deepEqual(
+    far.frames("block-list").pop()?.blocked,
+    ["bob"],
+    "The list follows the player to another cell",
+  );
+  assert.ok(world.blockListHomes.has("blocks:alice"));
+  assert.ok(!world.hosts.has("blocks:alice"), "No shard stands in for it");
+};
+
+const testTurnRefresh = async () => {
+  const world = new ShardWorld({
+    TURN_PROVIDER: "coturn",
+    TURN_SHARED_SECRET: "secret",
+    TURN_URLS: "turn:turn.test:3478",
+  });
+  const alice = await world.join(WEST, "alice");
+
+  // Sessions re-mint credentials over the socket, within a small budget.
+  await alice.send({ type: "turn-credentials" });
+  const [server] = (await alice.next("turn-credentials")).iceServers as {
+    urls: string[];
+    username: string;
+  }[];
+  assert.deepEqual(server.urls, ["turn:turn.test:3478"]);
+  assert.match(server.username, /^\d+:alice$/);
+
+  await alice.send({ type: "turn-credentials" });
+  await alice.next("turn-credentials");
+  await alice.send({ type: "turn-credentials" });
+  assert.equal((await alice.next("error")).code, "rate_limited");
+
+  // A provider that throws is reported instead of leaving the client waiting.
+  const bob = await world.join(WEST, "bob");
+  const { importKey } = crypto.subtle;
+  crypto.subtle.importKey = () => Promise.reject(new Error("no HMAC"));
+  try {
+    await bob.send({ type: "turn-credentials" });
+    assert.equal((await bob.next("error")).code, "turn_unavailable");
+  } finally {
+    crypto.subtle.importKey = importKey;
+  }
+};
+
+const testOverflow = async () => {
+  const world = new ShardWorld({
+    AUTH_DISABLED: "true",
+    WORLD_CONFIG_JSON: JSON.stringify({
+      plaza: { populationCap: 1, maxOverflowInstances: 1 },
+      gate: { populationCap: 1, overflow: "reject" },
+    }),
+  });
+  const join = async (playerId: string, worldId: string) => {
+    const response = await worker.fetch(
+      new Request("https://voice.test/join", {
+        method: "POST",
+        body: JSON.stringify({
+          playerId,
+          worldId,
+          position: { x: 10, y: 0, z: 10 },
+        }),
+      }),
+      world.env,
+    );
+    return {
+      status: response.status,
+      body: (await response.json()) as Record<string, unknown>,
+    };
+  };
+
+  const first = await join("p1", "plaza");
+  assert.equal(first.body.cellId, "plaza:cell:0:0:0");
+  assert.equal(first.body.overflowIndex, undefined);
+
+  // A full cell sends the next player to the same cell of an overflow
+  // instance, and past `maxOverflowInstances` the join is refused.
+  const second = await join("p2", "plaza");
+  assert.equal(second.status, 200);
+  assert.equal(second.body.instanceId, "overflow-1");
+  assert.equal(second.body.overflowIndex, 1);
+  assert.equal(second.body.cellId, "plaza.overflow-1:cell:0:0:0");
+  const third = await join("p3", "plaza");
+  assert.deepEqual([third.status, third.body.code], [503, "cell_full"]);
+
+  assert.equal((await join("g1", "gate")).status, 200);
+  const refused = await join("g2", "gate");
+  assert.deepEqual([refused.status, refused.body.code], [503, "cell_full"]);
+  assert.equal(world.hosts.has("gate.overflow-1:cell:0:0:0"), false);
+};
+
+const main = async () => {
+  await testFederation();
+  await testHandoff();
+  await testHibernation();
+  await testQueuedSignals();
+  await testModeration();
+  await testTakeover();
+  await testBlockLists();
+  await testTurnRefresh();
+  await testOverflow();
+
+  console.log("✅ WorldShard test passed");
+};
+
+main().catch((error) => {
+  console.error("❌ WorldShard test failed:", error);
+  process.exitCode = 1;
+});
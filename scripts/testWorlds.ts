@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+import assert from "node:assert/strict";
+import {
+  deriveCellId,
+  distanceToCell,
+  neighbourCellIds,
+  parseCellId,
+} from "../src/cells.ts";
+import {
+  DEFAULT_WORLD_CONFIG,
+  formatWorldKey,
+  isWorldAllowed,
+  overflowInstanceId,
+  parseWorldKey,
+  resolveWorldConfig,
+} from "../src/worlds.ts";
+
+const testWorldConfig = () => {
+  assert.deepEqual(resolveWorldConfig({}, "plaza"), DEFAULT_WORLD_CONFIG);
+
+  const env = {
+    WORLD_CONFIG_JSON: JSON.stringify({
+      arena: {
+        cellSizeMeters: 32,
+        proximityRadiusMeters: 20,
+        maxPeersPerPlayer: null,
+        populationCap: 40.7,
+        overflow: "reject",
+        sessionTakeover: "reject",
+        transport: "auto",
+      },
+      // Invalid values fall back to the defaults one field at a time.
+      bad: {
+        cellSizeMeters: -5,
+        minPeerDwellMs: "soon",
+        overflow: "spill",
+        turnProvider: "carrier-pigeon",
+      },
+      "not a world": { cellSizeMeters: 8 },
+    }),
+  };
+  const arena = resolveWorldConfig(env, "arena");
+  assert.equal(arena.cellSizeMeters, 32);
+  assert.equal(arena.proximityRadiusMeters, 20);
+  assert.equal(arena.exitRadiusMeters, 23, "Exit radius follows the ratio");
+  assert.equal(arena.maxPeersPerPlayer, null);
+  assert.equal(arena.populationCap, 40.7);
+  assert.equal(arena.overflow, "reject");
+  assert.equal(arena.sessionTakeover, "reject");
+  assert.equal(arena.transport, "auto");
+  assert.equal(arena.minPeerDwellMs, DEFAULT_WORLD_CONFIG.minPeerDwellMs);
+  assert.deepEqual(resolveWorldConfig(env, "bad"), DEFAULT_WORLD_CONFIG);
+  assert.deepEqual(
+    resolveWorldConfig(env, "not a world"),
+    DEFAULT_WORLD_CONFIG,
+  );
+
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    assert.deepEqual(
+      resolveWorldConfig({ WORLD_CONFIG_JSON: "{" }, "arena"),
+      DEFAULT_WORLD_CONFIG,
+      "Malformed JSON leaves every world on the defaults",
+    );
+  } finally {
+    console.warn = originalWarn;
+  }
+
+  // Federation reaches one cell, so both radii stay within a cell; the exit
+  // radius never drops below the enter radius.
+  const clamped = resolveWorldConfig(
+    {
+      WORLD_CONFIG_JSON: JSON.stringify({
+        wide: { cellSizeMeters: 30, proximityRadiusMeters: 100 },
+      }),
+    },
+    "wide",
+  );
+  assert.equal(clamped.proximityRadiusMeters, 30);
+  assert.equal(clamped.exitRadiusMeters, 30);
+
+  const tight = resolveWorldConfig(
+    {
+      WORLD_CONFIG_JSON: JSON.stringify({
+        tight: { proximityRadiusMeters: 40, exitRadiusMeters: 10 },
+      }),
+    },
+    "tight",
+  );
+  assert.equal(tight.exitRadiusMeters, 40);
+
+  const loose = resolveWorldConfig(
+    { WORLD_CONFIG_JSON: JSON.stringify({ loose: { exitRadiusMeters: 500 } }) },
+    "loose",
+  );
+  assert.equal(loose.exitRadiusMeters, DEFAULT_WORLD_CONFIG.cellSizeMeters);
+
+  const transport = resolveWorldConfig(
+    {
+      WORLD_CONFIG_JSON: JSON.stringify({
+        crowd: { sfuEnterPlayers: 5, sfuExitPlayers: 9 },
+      }),
+    },
+    "crowd",
+  );
+  assert.equal(transport.sfuExitPlayers, 4, "Exit stays below enter");
+};
+
+const testWorldAllowList = () => {
+  assert.equal(isWorldAllowed({}, "anything"), true);
+
+  const env = {
+    WORLD_ALLOW_UNCONFIGURED: "FALSE",
+    WORLD_CONFIG_JSON: JSON.stringify({ plaza: {} }),
+  };
+  assert.equal(isWorldAllowed(env, "plaza"), true);
+  assert.equal(isWorldAllowed(env, "default"), true, "default always is");
+  assert.equal(isWorldAllowed(env, "arena"), false);
+};
+
+const testCellIds = () => {
+  assert.equal(formatWorldKey({ worldId: "plaza" }), "plaza");
+  assert.equal(
+    formatWorldKey({ worldId: "plaza", instanceId: "match-1" }),
+    "plaza.match-1",
+  );
+  assert.deepEqual(parseWorldKey("plaza.match-1"), {
+    worldId: "plaza",
+    instanceId: "match-1",
+  });
+  assert.equal(parseWorldKey("a.b.c"), null);
+  assert.equal(parseWorldKey("bad world"), null);
+
+  // Cells are namespaced by world key and floor negative coordinates.
+  const cellId = deriveCellId("plaza.match-1", { x: -0.5, y: 10, z: 130 }, 64);
+  assert.equal(cellId, "plaza.match-1:cell:-1:0:2");
+  assert.deepEqual(parseCellId(cellId), {
+    worldKey: "plaza.match-1",
+    x: -1,
+    y: 0,
+    z: 2,
+  });
+  assert.notEqual(
+    deriveCellId("plaza", { x: 1, y: 1, z: 1 }, 64),
+    deriveCellId("arena", { x: 1, y: 1, z: 1 }, 64),
+  );
+
+  for (const invalid of [
+    "plaza:cell:1:2",
+    "plaza:cell:1:2:x",
+    "bad world:cell:0:0:0",
+    "a.b.c:cell:0:0:0",
+    "plaza:room:0:0:0",
+  ]) {
+    assert.equal(parseCellId(invalid), null, invalid);
+  }
+
+  const neighbours = neighbourCellIds(parseCellId("plaza:cell:0:0:0")!);
+  assert.equal(neighbours.length, 26);
+  assert.ok(neighbours.includes("plaza:cell:-1:1:-1"));
+  assert.ok(neighbours.every((id) => parseCellId(id)?.worldKey === "plaza"));
+
+  const cell = parseCellId("plaza:cell:1:0:0")!;
+  assert.equal(distanceToCell({ x: 70, y: 5, z: 5 }, cell, 64), 0);
+  assert.equal(distanceToCell({ x: 60, y: 5, z: 5 }, cell, 64), 4);
+
+  assert.equal(overflowInstanceId(undefined, 2), "overflow-2");
+  assert.equal(overflowInstanceId("match-42", 1), "match-42-overflow-1");
+  assert.equal(
+    overflowInstanceId("m".repeat(60), 1),
+    null,
+    "Ids past 64 characters are not tried",
+  );
+};
+
+const main = () => {
+  testWorldConfig();
+  testWorldAllowList();
+  testCellIds();
+
+  console.log("✅ Worlds test passed");
+};
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Worlds test failed:", error);
+  process.exitCode = 1;
+}
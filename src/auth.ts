@@ -0,0 +1,456 @@
+import { VoiceChatEnv } from "./config";
+import { PlayerClaims } from "./types";
+
+export type AuthErrorCode =
+  | "token_missing"
+  | "token_malformed"
+  | "token_invalid_signature"
+  | "token_expired"
+  | "token_not_yet_valid"
+  | "token_issuer_mismatch"
+  | "token_audience_mismatch"
+  | "token_unsupported_algorithm"
+  | "token_unknown_key"
+  | "player_mismatch"
+  | "auth_not_configured";
+
+export class AuthError extends Error {
+  constructor(
+    readonly status: 401 | 403 | 503,
+    readonly code: AuthErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+type JwtHeader = {
+  alg?: unknown;
+  kid?: unknown;
+  typ?: unknown;
+};
+
+type JwtPayload = Record<string, unknown>;
+
+type Jwk = JsonWebKey & {
+  kid?: string;
+  alg?: string;
+};
+
+type AsymmetricAlgorithm = "RS256" | "ES256";
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 30;
+const JWKS_CACHE_MS = 10 * 60_000;
+// An unknown kid refetches the key set at most this often, so tokens with
+// made-up kids cannot turn every join into a JWKS request.
+const JWKS_MIN_REFETCH_MS = 30_000;
+
+const ASYMMETRIC_IMPORT_PARAMS: Record<
+  AsymmetricAlgorithm,
+  RsaHashedImportParams | EcKeyImportParams
+> = {
+  RS256: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  ES256: { name: "ECDSA", namedCurve: "P-256" },
+};
+
+const ASYMMETRIC_VERIFY_PARAMS: Record<
+  AsymmetricAlgorithm,
+  AlgorithmIdentifier | EcdsaParams
+> = {
+  RS256: { name: "RSASSA-PKCS1-v1_5" },
+  ES256: { name: "ECDSA", hash: "SHA-256" },
+};
+
+const ASYMMETRIC_KEY_TYPES: Record<AsymmetricAlgorithm, string> = {
+  RS256: "RSA",
+  ES256: "EC",
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+let jwksCache: { url: string; keys: Jwk[]; fetchedAt: number } | null = null;
+
+const decodeBase64Url = (value: string) => {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+};
+
+const decodeJsonSegment = <T>(segment: string): T => {
+  try {
+    const parsed = JSON.parse(
+      textDecoder.decode(decodeBase64Url(segment)),
+    ) as unknown;
+
+    if (parsed == null || typeof parsed !== "object") {
+      throw new Error("segment is not an object");
+    }
+
+    return parsed as T;
+  } catch {
+    throw new AuthError(401, "token_malformed", "Auth token is malformed");
+  }
+};
+
+const parseKeySet = (raw: unknown): Jwk[] => {
+  const keys =
+    raw != null && typeof raw === "object" && "keys" in raw
+      ? (raw as { keys: unknown }).keys
+      : raw;
+
+  if (!Array.isArray(keys)) {
+    return [];
+  }
+
+  return keys.filter(
+    (key): key is Jwk =>
+      key != null &&
+      typeof key === "object" &&
+      typeof (key as Jwk).kty === "string",
+  );
+};
+
+/**
+ * Reads the key set from `AUTH_JWKS_JSON` or the cached `AUTH_JWKS_URL`.
+ * With `refresh`, a cache older than `JWKS_MIN_REFETCH_MS` is refetched, so a
+ * key rotated in since the last fetch is found.
+ */
+const loadJwks = async (env: VoiceChatEnv, refresh = false): Promise<Jwk[]> => {
+  const inline = env.AUTH_JWKS_JSON?.trim();
+
+  if (inline) {
+    try {
+      return parseKeySet(JSON.parse(inline));
+    } catch (error) {
+      console.warn("Failed to parse AUTH_JWKS_JSON:", error);
+      return [];
+    }
+  }
+
+  const url = env.AUTH_JWKS_URL?.trim();
+
+  if (!url) {
+    return [];
+  }
+
+  const now = Date.now();
+
+  if (
+    jwksCache &&
+    jwksCache.url === url &&
+    now - jwksCache.fetchedAt < (refresh ? JWKS_MIN_REFETCH_MS : JWKS_CACHE_MS)
+  ) {
+    return jwksCache.keys;
+  }
+
+  try {
+    const response = await fetch(url, {
+      headers: { accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      console.error("JWKS request returned non-OK", response.status);
+      return jwksCache?.url === url ? jwksCache.keys : [];
+    }
+
+    const keys = parseKeySet(await response.json());
+    jwksCache = { url, keys, fetchedAt: now };
+
+    return keys;
+  } catch (error) {
+    console.error("JWKS request failed", error);
+    return jwksCache?.url === url ? jwksCache.keys : [];
+  }
+};
+
+const selectJwk = (
+  keys: Jwk[],
+  alg: AsymmetricAlgorithm,
+  kid: string | undefined,
+): Jwk | undefined => {
+  const compatible = keys.filter(
+    (key) =>
+      key.kty === ASYMMETRIC_KEY_TYPES[alg] &&
+      (key.alg === undefined || key.alg === alg) &&
+      (key.use === undefined || key.use === "sig"),
+  );
+
+  if (kid !== undefined) {
+    return compatible.find((key) => key.kid === kid);
+  }
+
+  return compatible.length === 1 ? compatible[0] : undefined;
+};
+
+const verifySignature = async (
+  alg: string,
+  kid: string | undefined,
+  signingInput: BufferSource,
+  signature: BufferSource,
+  env: VoiceChatEnv,
+): Promise<boolean> => {
+  if (alg === "HS256") {
+    const secret = env.AUTH_JWT_SECRET;
+
+    if (!secret) {
+      throw new AuthError(
+        401,
+        "token_unsupported_algorithm",
+        "HS256 tokens are not accepted",
+      );
+    }
+
+    const key = await crypto.subtle.importKey(
+      "raw",
+      textEncoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"],
+    );
+
+    return crypto.subtle.verify("HMAC", key, signature, signingInput);
+  }
+
+  if (alg !== "RS256" && alg !== "ES256") {
+    throw new AuthError(
+      401,
+      "token_unsupported_algorithm",
+      `Unsupported token algorithm: ${alg}`,
+    );
+  }
+
+  const jwk =
+    selectJwk(await loadJwks(env), alg, kid) ??
+    selectJwk(await loadJwks(env, true), alg, kid);
+
+  if (!jwk) {
+    throw new AuthError(
+      401,
+      "token_unknown_key",
+      "No signing key matches the auth token",
+    );
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      ASYMMETRIC_IMPORT_PARAMS[alg],
+      false,
+      ["verify"],
+    );
+
+    return await crypto.subtle.verify(
+      ASYMMETRIC_VERIFY_PARAMS[alg],
+      key,
+      signature,
+      signingInput,
+    );
+  } catch (error) {
+    console.warn("Failed to verify with JWKS key", jwk.kid, error);
+    throw new AuthError(
+      401,
+      "token_unknown_key",
+      "The signing key for the auth token is unusable",
+    );
+  }
+};
+
+const parseList = (value: string | undefined): string[] => {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+};
+
+const readRoles = (payload: JwtPayload): string[] => {
+  const raw = payload.roles ?? payload.role;
+
+  if (Array.isArray(raw)) {
+    return raw.filter((role): role is string => typeof role === "string");
+  }
+
+  if (typeof raw === "string") {
+    return raw.split(/\s+/).filter((role) => role.length > 0);
+  }
+
+  return [];
+};
+
+const readDisplayName = (payload: JwtPayload): string | undefined => {
+  for (const key of ["name", "preferred_username", "nickname"]) {
+    const value = payload[key];
+
+    if (typeof value === "string" && value.trim() !== "") {
+      return value;
+    }
+  }
+
+  return undefined;
+};
+
+const validateClaims = (payload: JwtPayload, env: VoiceChatEnv): void => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const parsedSkew = Number.parseInt(env.AUTH_CLOCK_SKEW_SECONDS ?? "", 10);
+  const skew = Number.isFinite(parsedSkew)
+    ? parsedSkew
+    : DEFAULT_CLOCK_SKEW_SECONDS;
+
+  if (typeof payload.exp !== "number") {
+    throw new AuthError(401, "token_malformed", "Auth token has no expiry");
+  }
+
+  if (payload.exp + skew <= nowSeconds) {
+    throw new AuthError(401, "token_expired", "Auth token has expired");
+  }
+
+  if (typeof payload.nbf === "number" && payload.nbf - skew > nowSeconds) {
+    throw new AuthError(
+      401,
+      "token_not_yet_valid",
+      "Auth token is not valid yet",
+    );
+  }
+
+  const issuer = env.AUTH_ISSUER?.trim();
+
+  if (issuer && payload.iss !== issuer) {
+    throw new AuthError(
+      401,
+      "token_issuer_mismatch",
+      "Auth token issuer is not trusted",
+    );
+  }
+
+  const audiences = parseList(env.AUTH_AUDIENCE);
+
+  if (audiences.length > 0) {
+    const tokenAudiences = Array.isArray(payload.aud)
+      ? payload.aud
+      : [payload.aud];
+
+    if (!tokenAudiences.some((aud) => audiences.includes(aud as string))) {
+      throw new AuthError(
+        401,
+        "token_audience_mismatch",
+        "Auth token audience is not accepted",
+      );
+    }
+  }
+
+  if (typeof payload.sub !== "string" || payload.sub.trim() === "") {
+    throw new AuthError(401, "token_malformed", "Auth token has no subject");
+  }
+};
+
+export const isAuthConfigured = (env: VoiceChatEnv): boolean => {
+  return Boolean(
+    env.AUTH_JWT_SECRET?.trim() ||
+      env.AUTH_JWKS_JSON?.trim() ||
+      env.AUTH_JWKS_URL?.trim(),
+  );
+};
+
+/** Joins skip verification only when no key is set and this says so. */
+export const isAuthDisabled = (env: VoiceChatEnv): boolean =>
+  env.AUTH_DISABLED?.trim().toLowerCase() === "true";
+
+export const verifyAuthToken = async (
+  token: string,
+  env: VoiceChatEnv,
+): Promise<PlayerClaims> => {
+  const segments = token.split(".");
+
+  if (segments.length !== 3 || segments.some((part) => part === "")) {
+    throw new AuthError(401, "token_malformed", "Auth token is malformed");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeJsonSegment<JwtHeader>(encodedHeader);
+  const payload = decodeJsonSegment<JwtPayload>(encodedPayload);
+
+  if (typeof header.alg !== "string") {
+    throw new AuthError(401, "token_malformed", "Auth token has no algorithm");
+  }
+
+  let signature: BufferSource;
+
+  try {
+    signature = decodeBase64Url(encodedSignature);
+  } catch {
+    throw new AuthError(401, "token_malformed", "Auth token is malformed");
+  }
+
+  const valid = await verifySignature(
+    header.alg,
+    typeof header.kid === "string" ? header.kid : undefined,
+    textEncoder.encode(`${encodedHeader}.${encodedPayload}`),
+    signature,
+    env,
+  );
+
+  if (!valid) {
+    throw new AuthError(
+      401,
+      "token_invalid_signature",
+      "Auth token signature is invalid",
+    );
+  }
+
+  validateClaims(payload, env);
+
+  return {
+    subject: payload.sub as string,
+    roles: readRoles(payload),
+    displayName: readDisplayName(payload),
+  };
+};
+
+/**
+ * Verifies the join token and checks it was issued to the requested player.
+ * Returns null only when no verification keys are configured and
+ * `AUTH_DISABLED` is "true" (local development); without keys otherwise every
+ * join is refused, so a deploy that lost its secrets fails closed.
+ */
+export const authenticateJoin = async (
+  playerId: string,
+  authToken: string | undefined,
+  env: VoiceChatEnv,
+): Promise<PlayerClaims | null> => {
+  if (!isAuthConfigured(env)) {
+    if (isAuthDisabled(env)) {
+      return null;
+    }
+
+    throw new AuthError(
+      503,
+      "auth_not_configured",
+      "Join authentication is not configured",
+    );
+  }
+
+  if (typeof authToken !== "string" || authToken.trim() === "") {
+    throw new AuthError(401, "token_missing", "authToken is required");
+  }
+
+  const claims = await verifyAuthToken(authToken.trim(), env);
+
+  if (claims.subject !== playerId) {
+    throw new AuthError(
+      403,
+      "player_mismatch",
+      "playerId does not match the auth token subject",
+    );
+  }
+
+  return claims;
+};
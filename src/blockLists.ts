@@ -0,0 +1,148 @@
+import {
+  DurableObjectNamespace,
+  DurableObjectState,
+  DurableObjectStorage,
+} from "./types";
+
+export const BLOCK_LIST_STORAGE_PREFIX = "blocks:";
+export const MAX_BLOCKED_PLAYERS = 500;
+// A `BlockListHome` holds one list, under this key.
+const BLOCK_LIST_KEY = "blocked";
+
+/** The subset of a Workers KV namespace the block list store needs. */
+export type BlockListKv = {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+};
+
+const storageKey = (playerId: string): string =>
+  `${BLOCK_LIST_STORAGE_PREFIX}${playerId}`;
+
+const parseBlockList = (raw: unknown): string[] | null => {
+  let value = raw;
+
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  return Array.isArray(value) &&
+    value.every((entry) => typeof entry === "string")
+    ? value.slice(0, MAX_BLOCKED_PLAYERS)
+    : null;
+};
+
+/**
+ * Reaches each player's `BlockListHome` through the `BLOCK_LISTS` namespace,
+ * in the shape of the KV namespace it stands in for.
+ */
+export const blockListHomes = (
+  namespace: DurableObjectNamespace,
+): BlockListKv => {
+  const request = (key: string, init?: RequestInit) =>
+    namespace
+      .get(namespace.idFromName(key))
+      .fetch("https://blocklists.internal/", init);
+
+  return {
+    async get(key) {
+      const response = await request(key);
+
+      if (!response.ok) {
+        throw new Error(`block list home returned ${response.status}`);
+      }
+
+      return response.text();
+    },
+    async put(key, value) {
+      const response = await request(key, { method: "PUT", body: value });
+
+      if (!response.ok) {
+        throw new Error(`block list home returned ${response.status}`);
+      }
+    },
+  };
+};
+
+/**
+ * Loads and saves the players each player has blocked. Lists follow the
+ * player to every cell through `remote`: the KV namespace when bound,
+ * otherwise the player's `BlockListHome`. Shard storage is written either
+ * way so a shard waking from hibernation does not depend on the remote copy.
+ */
+export class BlockListStore {
+  constructor(
+    private readonly storage: DurableObjectStorage,
+    private readonly remote: BlockListKv,
+  ) {}
+
+  async load(playerId: string): Promise<string[]> {
+    try {
+      const fromRemote = parseBlockList(
+        await this.remote.get(storageKey(playerId)),
+      );
+
+      if (fromRemote) {
+        return fromRemote;
+      }
+    } catch (error) {
+      console.warn("[voice-worker] block list read failed", error);
+    }
+
+    return this.loadFromShard(playerId);
+  }
+
+  /** Reads only this shard's copy, e.g. when waking from hibernation. */
+  async loadFromShard(playerId: string): Promise<string[]> {
+    return parseBlockList(await this.storage.get(storageKey(playerId))) ?? [];
+  }
+
+  /** Keeps a copy for this shard only; the remote store already has it. */
+  async saveToShard(playerId: string, blocked: string[]): Promise<void> {
+    await this.storage.put(storageKey(playerId), blocked);
+  }
+
+  async save(playerId: string, blocked: string[]): Promise<void> {
+    await this.saveToShard(playerId, blocked);
+
+    try {
+      await this.remote.put(storageKey(playerId), JSON.stringify(blocked));
+    } catch (error) {
+      console.warn("[voice-worker] block list write failed", error);
+    }
+  }
+}
+
+/**
+ * Durable Object holding one player's block list, named after its storage
+ * key, for deployments without the `VOICE_BLOCK_LISTS` KV namespace. `GET`
+ * returns the list as JSON, or `null`, and `PUT` replaces it.
+ */
+export class BlockListHome {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method === "GET") {
+      return new Response(
+        JSON.stringify((await this.state.storage.get(BLOCK_LIST_KEY)) ?? null),
+        { headers: { "content-type": "application/json" } },
+      );
+    }
+
+    if (request.method !== "PUT") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const blocked = parseBlockList(await request.text());
+
+    if (!blocked) {
+      return new Response("Bad Request", { status: 400 });
+    }
+
+    await this.state.storage.put(BLOCK_LIST_KEY, blocked);
+    return new Response(null, { status: 204 });
+  }
+}
@@ -0,0 +1,117 @@
+import { Vector3 } from "./types";
+import { parseWorldKey } from "./worlds";
+
+export type CellCoordinates = {
+  worldKey: string;
+  x: number;
+  y: number;
+  z: number;
+};
+
+const CELL_ID_PATTERN = /^([A-Za-z0-9_.-]+):cell:(-?\d+):(-?\d+):(-?\d+)$/;
+
+export const formatCellId = ({
+  worldKey,
+  x,
+  y,
+  z,
+}: CellCoordinates): string => {
+  return `${worldKey}:cell:${x}:${y}:${z}`;
+};
+
+export const deriveCellId = (
+  worldKey: string,
+  { x, y, z }: Vector3,
+  cellSizeMeters: number,
+): string => {
+  return formatCellId({
+    worldKey,
+    x: Math.floor(x / cellSizeMeters),
+    y: Math.floor(y / cellSizeMeters),
+    z: Math.floor(z / cellSizeMeters),
+  });
+};
+
+export const parseCellId = (cellId: string): CellCoordinates | null => {
+  const match = CELL_ID_PATTERN.exec(cellId);
+
+  if (!match || !parseWorldKey(match[1])) {
+    return null;
+  }
+
+  return {
+    worldKey: match[1],
+    x: Number.parseInt(match[2], 10),
+    y: Number.parseInt(match[3], 10),
+    z: Number.parseInt(match[4], 10),
+  };
+};
+
+/**
+ * Returns the ids of the 26 cells sharing a face, edge or corner with the
+ * given cell, within the same world.
+ */
+export const neighbourCellIds = (cell: CellCoordinates): string[] => {
+  const result: string[] = [];
+
+  for (let dx = -1; dx <= 1; dx += 1) {
+    for (let dy = -1; dy <= 1; dy += 1) {
+      for (let dz = -1; dz <= 1; dz += 1) {
+        if (dx === 0 && dy === 0 && dz === 0) {
+          continue;
+        }
+
+        result.push(
+          formatCellId({
+            worldKey: cell.worldKey,
+            x: cell.x + dx,
+            y: cell.y + dy,
+            z: cell.z + dz,
+          }),
+        );
+      }
+    }
+  }
+
+  return result;
+};
+
+const axisDistance = (value: number, min: number, max: number): number => {
+  if (value < min) {
+    return min - value;
+  }
+
+  if (value > max) {
+    return value - max;
+  }
+
+  return 0;
+};
+
+/**
+ * Distance from a point to the closest point of a cell's bounding box; zero
+ * when the point lies inside the cell.
+ */
+export const distanceToCell = (
+  position: Vector3,
+  cell: CellCoordinates,
+  cellSizeMeters: number,
+): number => {
+  const dx = axisDistance(
+    position.x,
+    cell.x * cellSizeMeters,
+    (cell.x + 1) * cellSizeMeters,
+  );
+  const dy = axisDistance(
+    position.y,
+    cell.y * cellSizeMeters,
+    (cell.y + 1) * cellSizeMeters,
+  );
+  const dz = axisDistance(
+    position.z,
+    cell.z * cellSizeMeters,
+    (cell.z + 1) * cellSizeMeters,
+  );
+
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+};
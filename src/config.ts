@@ -1,15 +1,9 @@
-export const SFU_FLAG_KV_KEY = "feature:voice:transport:sfu";
+import { IceServer, VoiceTransportMode } from "./protocol";
 
-export enum VoiceTransportMode {
-  P2P = "p2p",
-  SFU = "sfu",
-}
+export const SFU_FLAG_KV_KEY = "feature:voice:transport:sfu";
 
-export type IceServer = {
-  urls: string | string[];
-  username?: string;
-  credential?: string;
-};
+export { VoiceTransportMode };
+export type { IceServer };
 
 type MaybeKvNamespace = {
   get: (key: string) => Promise<string | null> | string | null;
@@ -17,59 +11,33 @@ type MaybeKvNamespace = {
 
 export interface VoiceChatEnv {
   FEATURE_SFU_ENABLED?: string;
+  FEATURE_PANNER_DISTANCE_MODEL?: string;
+  FEATURE_PANNER_MAX_DISTANCE?: string;
   VOICE_FEATURE_FLAGS?: MaybeKvNamespace;
   ICE_SERVERS_JSON?: string;
   TURN_TOKEN_ID?: string;
   TURN_API_TOKEN?: string;
   TURN_API_URL?: string;
-  TURN_CACHE_TTL_SECONDS?: string;
+  TURN_PROVIDER?: string;
+  TURN_SHARED_SECRET?: string;
+  TURN_URLS?: string;
+  TURN_CREDENTIAL_TTL_SECONDS?: string;
+  TURN_REGIONS_JSON?: string;
+  SFU_PROVIDER?: string;
+  SFU_APP_ID?: string;
+  SFU_APP_TOKEN?: string;
+  SFU_API_BASE?: string;
+  AUTH_JWT_SECRET?: string;
+  AUTH_JWKS_JSON?: string;
+  AUTH_JWKS_URL?: string;
+  AUTH_ISSUER?: string;
+  AUTH_AUDIENCE?: string;
+  AUTH_CLOCK_SKEW_SECONDS?: string;
+  AUTH_DISABLED?: string;
+  WORLD_CONFIG_JSON?: string;
+  WORLD_ALLOW_UNCONFIGURED?: string;
 }
 
-const toBoolean = (value: string | null | undefined): boolean | undefined => {
-  if (value == null) {
-    return undefined;
-  }
-
-  const normalized = value.trim().toLowerCase();
-
-  if (normalized === "true") {
-    return true;
-  }
-
-  if (normalized === "false") {
-    return false;
-  }
-
-  return undefined;
-};
-
-export const isSfuEnabled = async (env: VoiceChatEnv): Promise<boolean> => {
-  const kv = env.VOICE_FEATURE_FLAGS;
-
-  if (kv != null) {
-    const kvValue = await kv.get(SFU_FLAG_KV_KEY);
-    const parsedKv = toBoolean(
-      typeof kvValue === "string" ? kvValue : String(kvValue),
-    );
-
-    if (parsedKv !== undefined) {
-      return parsedKv;
-    }
-  }
-
-  const fallback = toBoolean(env.FEATURE_SFU_ENABLED);
-
-  return fallback ?? false;
-};
-
-export const resolveVoiceTransportMode = async (
-  env: VoiceChatEnv,
-): Promise<VoiceTransportMode> => {
-  return (await isSfuEnabled(env))
-    ? VoiceTransportMode.SFU
-    : VoiceTransportMode.P2P;
-};
-
 const DEFAULT_ICE_SERVERS: IceServer[] = [
   {
     urls: ["stun:stun.cloudflare.com:3478", "stun:stun.l.google.com:19302"],
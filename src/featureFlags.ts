@@ -0,0 +1,289 @@
+import { SFU_FLAG_KV_KEY, VoiceChatEnv } from "./config";
+
+type FlagSource = {
+  /** KV key holding a plain value or a `FeatureFlagRule`. */
+  kvKey: string;
+  /** Environment variable used when KV has no entry. */
+  envVar?: keyof VoiceChatEnv;
+};
+
+type BooleanFlag = { kind: "boolean"; defaultValue: boolean };
+
+type NumberFlag = {
+  kind: "number";
+  defaultValue: number;
+  min?: number;
+  max?: number;
+};
+
+type VariantFlag = {
+  kind: "variant";
+  defaultValue: string;
+  variants: readonly string[];
+};
+
+export type FeatureFlagDefinition = (BooleanFlag | NumberFlag | VariantFlag) &
+  FlagSource;
+
+const PANNER_DISTANCE_MODELS = ["exponential", "inverse", "linear"] as const;
+
+/** Every flag the worker evaluates and the client receives on `/join`. */
+export const FEATURE_FLAGS = {
+  /** SFU transport for worlds whose `transport` is `flag`. */
+  sfu: {
+    kind: "boolean",
+    defaultValue: false,
+    kvKey: SFU_FLAG_KV_KEY,
+    envVar: "FEATURE_SFU_ENABLED",
+  },
+  /** `PannerNode.distanceModel` for remote voices. */
+  pannerDistanceModel: {
+    kind: "variant",
+    defaultValue: "exponential",
+    variants: PANNER_DISTANCE_MODELS,
+    kvKey: "feature:voice:panner:distance-model",
+    envVar: "FEATURE_PANNER_DISTANCE_MODEL",
+  },
+  /** `PannerNode.maxDistance`, in metres. */
+  pannerMaxDistance: {
+    kind: "number",
+    defaultValue: 80,
+    min: 1,
+    kvKey: "feature:voice:panner:max-distance",
+    envVar: "FEATURE_PANNER_MAX_DISTANCE",
+  },
+} satisfies Record<string, FeatureFlagDefinition>;
+
+export type FeatureFlagName = keyof typeof FEATURE_FLAGS;
+
+type FlagValueOf<D> = D extends { kind: "boolean" }
+  ? boolean
+  : D extends { kind: "number" }
+    ? number
+    : D extends { variants: readonly (infer V)[] }
+      ? V
+      : never;
+
+/** The evaluated flag set of one player. */
+export type VoiceFeatureFlags = {
+  [Name in FeatureFlagName]: FlagValueOf<(typeof FEATURE_FLAGS)[Name]>;
+};
+
+/**
+ * A KV entry that targets part of the player base. Players it selects get
+ * `value`; everyone else gets the environment fallback. Deny lists win over
+ * allow lists, and both win over the rollout.
+ */
+export type FeatureFlagRule = {
+  value: unknown;
+  /** Percentage, 0–100, of players or worlds that get `value`; default 100. */
+  rollout?: number;
+  /** What the rollout buckets; default `player`. */
+  bucketBy?: "player" | "world";
+  allowPlayers?: string[];
+  denyPlayers?: string[];
+  allowWorlds?: string[];
+  denyWorlds?: string[];
+};
+
+export type FeatureFlagContext = {
+  playerId: string;
+  worldId: string;
+};
+
+/** Parses a flag value from KV, the environment or JSON; undefined if invalid. */
+export const parseFlagValue = (
+  definition: FeatureFlagDefinition,
+  value: unknown,
+): boolean | number | string | undefined => {
+  const text = typeof value === "string" ? value.trim() : undefined;
+
+  switch (definition.kind) {
+    case "boolean":
+      if (typeof value === "boolean") {
+        return value;
+      }
+
+      return text?.toLowerCase() === "true"
+        ? true
+        : text?.toLowerCase() === "false"
+          ? false
+          : undefined;
+    case "number": {
+      const parsed =
+        typeof value === "number" ? value : text ? Number(text) : Number.NaN;
+
+      if (
+        !Number.isFinite(parsed) ||
+        parsed < (definition.min ?? -Infinity) ||
+        parsed > (definition.max ?? Infinity)
+      ) {
+        return undefined;
+      }
+
+      return parsed;
+    }
+    case "variant":
+      return text !== undefined && definition.variants.includes(text)
+        ? text
+        : undefined;
+  }
+};
+
+/** Every flag at its default. */
+export const defaultFeatureFlags = (): VoiceFeatureFlags => {
+  const flags: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(FEATURE_FLAGS)) {
+    flags[name] = definition.defaultValue;
+  }
+
+  return flags as VoiceFeatureFlags;
+};
+
+/** Reads a flag set from JSON, e.g. a join response; invalid flags default. */
+export const parseFeatureFlags = (value: unknown): VoiceFeatureFlags => {
+  const raw =
+    value != null && typeof value === "object"
+      ? (value as Record<string, unknown>)
+      : {};
+  const flags: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(FEATURE_FLAGS)) {
+    flags[name] =
+      parseFlagValue(definition, raw[name]) ?? definition.defaultValue;
+  }
+
+  return flags as VoiceFeatureFlags;
+};
+
+/**
+ * Stable bucket in [0, 100) for a flag and a player or world (FNV-1a), so a
+ * rollout keeps the same population as its percentage grows.
+ */
+export const rolloutBucket = (flagName: string, key: string): number => {
+  const input = `${flagName}:${key}`;
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return ((hash >>> 0) % 10_000) / 100;
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+/**
+ * Reads a KV entry. JSON objects with a `value` are rules; anything else is a
+ * plain value for everyone.
+ */
+export const parseFlagRule = (raw: string): FeatureFlagRule => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { value: raw };
+  }
+
+  if (parsed == null || typeof parsed !== "object" || !("value" in parsed)) {
+    return { value: typeof parsed === "object" ? raw : parsed };
+  }
+
+  const rule = parsed as Record<string, unknown>;
+
+  return {
+    value: rule.value,
+    rollout: typeof rule.rollout === "number" ? rule.rollout : undefined,
+    bucketBy: rule.bucketBy === "world" ? "world" : "player",
+    allowPlayers: isStringList(rule.allowPlayers) ? rule.allowPlayers : [],
+    denyPlayers: isStringList(rule.denyPlayers) ? rule.denyPlayers : [],
+    allowWorlds: isStringList(rule.allowWorlds) ? rule.allowWorlds : [],
+    denyWorlds: isStringList(rule.denyWorlds) ? rule.denyWorlds : [],
+  };
+};
+
+/** Whether a rule gives this player its `value`. */
+export const ruleApplies = (
+  flagName: string,
+  rule: FeatureFlagRule,
+  context: FeatureFlagContext,
+): boolean => {
+  if (
+    rule.denyPlayers?.includes(context.playerId) ||
+    rule.denyWorlds?.includes(context.worldId)
+  ) {
+    return false;
+  }
+
+  if (
+    rule.allowPlayers?.includes(context.playerId) ||
+    rule.allowWorlds?.includes(context.worldId)
+  ) {
+    return true;
+  }
+
+  const key =
+    rule.bucketBy === "world" ? `world:${context.worldId}` : context.playerId;
+
+  return rolloutBucket(flagName, key) < (rule.rollout ?? 100);
+};
+
+const readKvRule = async (
+  env: VoiceChatEnv,
+  kvKey: string,
+): Promise<FeatureFlagRule | undefined> => {
+  const kv = env.VOICE_FEATURE_FLAGS;
+
+  if (kv == null) {
+    return undefined;
+  }
+
+  try {
+    const raw = await kv.get(kvKey);
+
+    return typeof raw === "string" ? parseFlagRule(raw) : undefined;
+  } catch (error) {
+    console.warn("[voice-worker] Feature flag lookup failed", kvKey, error);
+    return undefined;
+  }
+};
+
+/**
+ * Evaluates every flag for a player: the KV rule when it applies, otherwise
+ * the environment variable, otherwise the default.
+ */
+export const evaluateFeatureFlags = async (
+  env: VoiceChatEnv,
+  context: FeatureFlagContext,
+): Promise<VoiceFeatureFlags> => {
+  const definitions = Object.entries(FEATURE_FLAGS) as [
+    string,
+    FeatureFlagDefinition,
+  ][];
+  const rules = await Promise.all(
+    definitions.map(([, definition]) => readKvRule(env, definition.kvKey)),
+  );
+  const flags: Record<string, unknown> = {};
+
+  definitions.forEach(([name, definition], index) => {
+    const rule = rules[index];
+    const fallback =
+      (definition.envVar
+        ? parseFlagValue(definition, env[definition.envVar])
+        : undefined) ?? definition.defaultValue;
+    const applies = rule !== undefined && ruleApplies(name, rule, context);
+    const value = applies ? parseFlagValue(definition, rule.value) : undefined;
+
+    if (applies && value === undefined) {
+      console.warn("[voice-worker] Ignoring invalid flag value", name);
+    }
+
+    flags[name] = value ?? fallback;
+  });
+
+  return flags as VoiceFeatureFlags;
+};
@@ -1,36 +1,45 @@
-import {
-  getIceServers,
-  IceServer,
-  resolveVoiceTransportMode,
-  VoiceTransportMode,
-} from "./config";
-import { Vector3, VoiceWorkerEnv } from "./types";
+import { getIceServers, IceServer, VoiceTransportMode } from "./config";
+import { evaluateFeatureFlags, VoiceFeatureFlags } from "./featureFlags";
+import { RequestCf, Vector3, VoiceWorkerEnv } from "./types";
 import { makeJsonResponse, uuid } from "./utils";
 import { WorldShard } from "./worldShard";
+import { BlockListHome } from "./blockLists";
 import { resolveTurnIceServers } from "./turn";
+import { createSfuProvider } from "./sfu";
+import { AuthError, authenticateJoin } from "./auth";
+import { deriveCellId, parseCellId } from "./cells";
+import {
+  DEFAULT_WORLD_ID,
+  formatWorldKey,
+  isValidWorldSegment,
+  isWorldAllowed,
+  overflowInstanceId,
+  parseWorldKey,
+  resolveWorldConfig,
+  WorldConfig,
+} from "./worlds";
 
 type JoinWorldRequest = {
   playerId: string;
   position: Vector3;
   authToken?: string;
+  worldId: string;
+  instanceId?: string;
 };
 
 type JoinWorldResponse = {
+  worldId: string;
+  /** The instance joined; an overflow instance when `overflowIndex` is set. */
+  instanceId?: string;
+  /** Set when the requested cell was full; see `overflowInstanceId`. */
+  overflowIndex?: number;
   cellId: string;
   cellWebSocketUrl: string;
   sessionToken: string;
   transportMode: VoiceTransportMode;
   iceServers: IceServer[];
-};
-
-const CELL_SIZE_METERS = 64;
-
-const deriveCellId = ({ x, y, z }: Vector3): string => {
-  const cellX = Math.floor(x / CELL_SIZE_METERS);
-  const cellY = Math.floor(y / CELL_SIZE_METERS);
-  const cellZ = Math.floor(z / CELL_SIZE_METERS);
-
-  return `cell:${cellX}:${cellY}:${cellZ}`;
+  /** Flags evaluated for this player; see `src/featureFlags.ts`. */
+  featureFlags: VoiceFeatureFlags;
 };
 
 const parseJoinRequest = async (
@@ -48,7 +57,8 @@ const parseJoinRequest = async (
     throw new Error("Invalid request body");
   }
 
-  const { playerId, position, authToken } = body as Partial<JoinWorldRequest>;
+  const { playerId, position, authToken, worldId, instanceId } =
+    body as Partial<JoinWorldRequest>;
 
   if (typeof playerId !== "string" || playerId.trim() === "") {
     throw new Error("playerId is required");
@@ -64,6 +74,14 @@ const parseJoinRequest = async (
     throw new Error("position must be a {x,y,z} object");
   }
 
+  if (worldId != null && !isValidWorldSegment(worldId)) {
+    throw new Error("worldId must match [A-Za-z0-9_-]{1,64}");
+  }
+
+  if (instanceId != null && !isValidWorldSegment(instanceId)) {
+    throw new Error("instanceId must match [A-Za-z0-9_-]{1,64}");
+  }
+
   return {
     playerId,
     position: {
@@ -72,10 +90,12 @@ const parseJoinRequest = async (
       z: (position as Vector3).z,
     },
     authToken,
+    worldId: worldId ?? DEFAULT_WORLD_ID,
+    instanceId: instanceId ?? undefined,
   };
 };
 
-const buildCellWebSocketUrl = (request: Request, cellId: string): string => {
+const buildCellWebSocketBase = (request: Request): string => {
   const url = new URL(request.url);
   const forwardedProto = request.headers
     .get("x-forwarded-proto")
@@ -88,7 +108,11 @@ const buildCellWebSocketUrl = (request: Request, cellId: string): string => {
   const protocol = forwardedProto ?? url.protocol.replace(":", "");
   const host = forwardedHost ?? url.host;
 
-  const result = `${protocol === "https" ? "wss" : "ws"}://${host}/cell/${cellId}`;
+  return `${protocol === "https" ? "wss" : "ws"}://${host}/cell/`;
+};
+
+const buildCellWebSocketUrl = (request: Request, cellId: string): string => {
+  const result = `${buildCellWebSocketBase(request)}${cellId}`;
   console.log("Built cell WebSocket URL:", result);
   return result;
 };
@@ -101,29 +125,134 @@ const addCorsHeaders = (response: Response): Response => {
   return response;
 };
 
+const prepareSession = (
+  env: VoiceWorkerEnv,
+  cellId: string,
+  body: unknown,
+): Promise<Response> => {
+  const stub = env.WORLD_SHARD.get(env.WORLD_SHARD.idFromName(cellId));
+
+  return stub.fetch("https://worldshard.internal/prepare", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+};
+
+/**
+ * The transport a join is told to use. `auto` cells answer `/prepare` with
+ * their current one, and `flag` worlds follow the player's `sfu` flag. SFU
+ * always needs a configured provider.
+ */
+const resolveJoinTransport = async (
+  env: VoiceWorkerEnv,
+  worldConfig: WorldConfig,
+  featureFlags: VoiceFeatureFlags,
+  prepareResponse: Response,
+): Promise<VoiceTransportMode> => {
+  let transportMode: VoiceTransportMode;
+
+  switch (worldConfig.transport) {
+    case "p2p":
+      transportMode = VoiceTransportMode.P2P;
+      break;
+    case "sfu":
+      transportMode = VoiceTransportMode.SFU;
+      break;
+    case "auto": {
+      const prepared = (await prepareResponse.json().catch(() => null)) as {
+        transportMode?: unknown;
+      } | null;
+      transportMode =
+        prepared?.transportMode === VoiceTransportMode.SFU
+          ? VoiceTransportMode.SFU
+          : VoiceTransportMode.P2P;
+      break;
+    }
+    default:
+      transportMode = featureFlags.sfu
+        ? VoiceTransportMode.SFU
+        : VoiceTransportMode.P2P;
+  }
+
+  if (transportMode === VoiceTransportMode.SFU && !createSfuProvider(env)) {
+    console.warn("SFU mode enabled without an SFU provider; using P2P");
+    return VoiceTransportMode.P2P;
+  }
+
+  return transportMode;
+};
+
 const handleJoin = async (
   request: Request,
   env: VoiceWorkerEnv,
 ): Promise<Response> => {
   try {
     const payload = await parseJoinRequest(request);
-    const cellId = deriveCellId(payload.position);
+    const claims = await authenticateJoin(
+      payload.playerId,
+      payload.authToken,
+      env,
+    );
+
+    if (!isWorldAllowed(env, payload.worldId)) {
+      return makeJsonResponse(
+        { error: "Unknown world", code: "unknown_world" },
+        { status: 404 },
+      );
+    }
+
+    const worldConfig = resolveWorldConfig(env, payload.worldId);
     const sessionToken = uuid();
-    const stub = env.WORLD_SHARD.get(env.WORLD_SHARD.idFromName(cellId));
+    const overflowLimit =
+      worldConfig.overflow === "instance"
+        ? worldConfig.maxOverflowInstances
+        : 0;
+    let instanceId = payload.instanceId;
+    let overflowIndex = 0;
+    let cellId: string;
+    let prepareResponse: Response;
+
+    // A full cell answers 503; try the same cell in each overflow instance.
+    for (;;) {
+      cellId = deriveCellId(
+        formatWorldKey({ worldId: payload.worldId, instanceId }),
+        payload.position,
+        worldConfig.cellSizeMeters,
+      );
+      prepareResponse = await prepareSession(env, cellId, {
+        playerId: payload.playerId,
+        sessionToken,
+        claims,
+        cellId,
+      });
+
+      const nextInstanceId =
+        prepareResponse.status === 503 && overflowIndex < overflowLimit
+          ? overflowInstanceId(payload.instanceId, overflowIndex + 1)
+          : null;
+
+      if (nextInstanceId === null) {
+        break;
+      }
+
+      overflowIndex += 1;
+      instanceId = nextInstanceId;
+    }
 
-    const prepareResponse = await stub.fetch(
-      "https://worldshard.internal/prepare",
-      {
-        method: "POST",
-        headers: {
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          playerId: payload.playerId,
-          sessionToken,
-        }),
-      },
-    );
+    if (prepareResponse.status === 503) {
+      return makeJsonResponse(
+        { error: "Cell is full", code: "cell_full" },
+        { status: 503 },
+      );
+    }
+
+    if (prepareResponse.status === 403) {
+      // A moderator ban; the shard's body carries `code` and `expiresAt`.
+      return makeJsonResponse(await prepareResponse.json(), { status: 403 });
+    }
 
     if (!prepareResponse.ok) {
       const message = await prepareResponse.text();
@@ -137,18 +266,53 @@ const handleJoin = async (
       );
     }
 
-    const transportMode = await resolveVoiceTransportMode(env);
-    const turnServers = await resolveTurnIceServers(env);
+    const featureFlags = await evaluateFeatureFlags(env, {
+      playerId: payload.playerId,
+      worldId: payload.worldId,
+    });
+    const transportMode = await resolveJoinTransport(
+      env,
+      worldConfig,
+      featureFlags,
+      prepareResponse,
+    );
+    const cf = (request as Request & { cf?: RequestCf }).cf;
+    const turnServers = await resolveTurnIceServers(
+      env,
+      { playerId: payload.playerId },
+      {
+        worldProvider: worldConfig.turnProvider,
+        country: cf?.country,
+        continent: cf?.continent,
+      },
+    );
+    if (overflowIndex > 0) {
+      console.log("Join routed to overflow instance", instanceId, cellId);
+    }
+
     const response: JoinWorldResponse = {
+      worldId: payload.worldId,
+      instanceId,
+      overflowIndex: overflowIndex > 0 ? overflowIndex : undefined,
       cellId,
       cellWebSocketUrl: buildCellWebSocketUrl(request, cellId),
       sessionToken,
       transportMode,
       iceServers: turnServers ?? getIceServers(env),
+      featureFlags,
     };
 
     return makeJsonResponse(response, { status: 200 });
   } catch (error) {
+    if (error instanceof AuthError) {
+      console.warn("Join request rejected", error.code, error.message);
+
+      return makeJsonResponse(
+        { error: error.message, code: error.code },
+        { status: error.status },
+      );
+    }
+
     console.error("Join request failed", error);
 
     return makeJsonResponse(
@@ -166,9 +330,34 @@ const handleCellRequest = (request: Request, env: VoiceWorkerEnv): Response => {
     return new Response("Missing cell id", { status: 400 });
   }
 
+  const cell = parseCellId(cellId);
+  const world = cell ? parseWorldKey(cell.worldKey) : null;
+
+  if (!cell || !world) {
+    return new Response("Invalid cell id", { status: 400 });
+  }
+
+  if (!isWorldAllowed(env, world.worldId)) {
+    return new Response("Unknown world", { status: 404 });
+  }
+
   const stub = env.WORLD_SHARD.get(env.WORLD_SHARD.idFromName(cellId));
+  const socketUrl = new URL("https://worldshard.internal/socket");
+  socketUrl.searchParams.set("cellId", cellId);
+  socketUrl.searchParams.set("cellUrlBase", buildCellWebSocketBase(request));
+
+  // The shard picks the TURN provider of credential refreshes by region.
+  const cf = (request as Request & { cf?: RequestCf }).cf;
+
+  if (cf?.country) {
+    socketUrl.searchParams.set("country", cf.country);
+  }
+
+  if (cf?.continent) {
+    socketUrl.searchParams.set("continent", cf.continent);
+  }
 
-  return stub.fetch(new Request("https://worldshard.internal/socket", request));
+  return stub.fetch(new Request(socketUrl.toString(), request));
 };
 
 export default {
@@ -191,4 +380,4 @@ export default {
   },
 };
 
-export { WorldShard };
+export { BlockListHome, WorldShard };
@@ -0,0 +1,115 @@
+import type { ModerationAction } from "./protocol";
+import { DurableObjectStorage, PlayerClaims } from "./types";
+import { uuid } from "./utils";
+
+/** Role claim that lets a player send `moderate` messages. */
+export const MODERATOR_ROLE = "moderator";
+
+export const DEFAULT_MUTE_MS = 15 * 60_000;
+export const MAX_MUTE_MS = 24 * 60 * 60_000;
+export const DEFAULT_BAN_MS = 60 * 60_000;
+export const MAX_BAN_MS = 7 * 24 * 60 * 60_000;
+export const AUDIT_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+const AUDIT_STORAGE_PREFIX = "audit:";
+// Old entries are dropped a batch at a time as new ones are written.
+const AUDIT_PRUNE_BATCH = 128;
+
+export type SanctionKind = "mute" | "ban";
+
+/** A mute or ban on one player, held until `expiresAt`. */
+export type Sanction = {
+  playerId: string;
+  moderatorId: string;
+  expiresAt: number;
+  reason?: string;
+};
+
+export type AuditEntry = {
+  at: number;
+  moderatorId: string;
+  action: ModerationAction;
+  playerId: string;
+  reason?: string;
+  expiresAt?: number;
+};
+
+export const isModerator = (claims: PlayerClaims | null): boolean => {
+  return claims?.roles.includes(MODERATOR_ROLE) ?? false;
+};
+
+/** Clamps a requested duration to the limits for `kind`. */
+export const sanctionDuration = (
+  kind: SanctionKind,
+  requestedMs: number | undefined,
+): number => {
+  return kind === "mute"
+    ? Math.min(requestedMs ?? DEFAULT_MUTE_MS, MAX_MUTE_MS)
+    : Math.min(requestedMs ?? DEFAULT_BAN_MS, MAX_BAN_MS);
+};
+
+/**
+ * True when `sdp` offers to send audio, i.e. has an audio section that is
+ * neither `recvonly` nor `inactive`. Muted players may still negotiate to
+ * receive.
+ */
+export const sdpSendsAudio = (sdp: string): boolean => {
+  return sdp
+    .split(/\r?\nm=/)
+    .slice(1)
+    .some(
+      (section) =>
+        section.startsWith("audio ") &&
+        !section.startsWith("audio 0 ") &&
+        !/\r?\na=(recvonly|inactive)\b/.test(section),
+    );
+};
+
+const sanctionKey = (kind: SanctionKind, playerId: string): string =>
+  `${kind}:${playerId}`;
+
+// Zero-padded so keys sort by time.
+const auditKey = (at: number): string =>
+  `${AUDIT_STORAGE_PREFIX}${String(at).padStart(15, "0")}`;
+
+/**
+ * Mutes, bans and the audit log of one shard, in its Durable Object storage.
+ * Sanctions apply to this cell only.
+ */
+export class ModerationStore {
+  constructor(private readonly storage: DurableObjectStorage) {}
+
+  /**
+   * Every stored sanction of `kind`, lapsed ones included: the shard lifts
+   * those itself so it can tell clients a mute ended.
+   */
+  async loadSanctions(kind: SanctionKind): Promise<Map<string, Sanction>> {
+    const stored = await this.storage.list<Sanction>({ prefix: `${kind}:` });
+
+    return new Map(
+      Array.from(stored.values(), (sanction) => [sanction.playerId, sanction]),
+    );
+  }
+
+  async putSanction(kind: SanctionKind, sanction: Sanction): Promise<void> {
+    await this.storage.put(sanctionKey(kind, sanction.playerId), sanction);
+  }
+
+  async deleteSanction(kind: SanctionKind, playerId: string): Promise<void> {
+    await this.storage.delete(sanctionKey(kind, playerId));
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.storage.put(`${auditKey(entry.at)}:${uuid()}`, entry);
+
+    const stale = await this.storage.list({
+      prefix: AUDIT_STORAGE_PREFIX,
+      end: auditKey(entry.at - AUDIT_RETENTION_MS),
+      limit: AUDIT_PRUNE_BATCH,
+    });
+
+    if (stale.size > 0) {
+      await this.storage.delete(Array.from(stale.keys()));
+    }
+  }
+}
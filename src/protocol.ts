@@ -0,0 +1,748 @@
+/**
+ * Wire protocol between the cell shard and `client/voiceChat`, shared by both
+ * sides. Keep this module free of Workers and DOM dependencies.
+ */
+
+import {
+  BINARY_POSITION,
+  WireFormat,
+  binaryFrameKind,
+  decodePositionFrame,
+} from "./wireFormat";
+
+/**
+ * Bumped on every breaking wire change. `register` and `resume` carry the
+ * client's version; frames without one come from version 1 clients.
+ */
+export const PROTOCOL_VERSION = 3;
+export const MIN_PROTOCOL_VERSION = 1;
+/** First version whose clients get sequenced `peers` deltas. */
+export const SEQUENCED_PEERS_VERSION = 3;
+
+export type Vector3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+export enum VoiceTransportMode {
+  P2P = "p2p",
+  SFU = "sfu",
+}
+
+export type IceServer = {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+};
+
+export type RegisterMessage = {
+  type: "register";
+  playerId: string;
+  sessionToken: string;
+  protocolVersion: number;
+  /** Encoding for `position` and `peers` frames; `json` when omitted. */
+  wireFormat: WireFormat;
+};
+
+export type ResumeMessage = {
+  type: "resume";
+  playerId: string;
+  resumeToken: string;
+  protocolVersion: number;
+  wireFormat: WireFormat;
+};
+
+export type HeartbeatMessage = {
+  type: "heartbeat";
+};
+
+export type PositionMessage = {
+  type: "position";
+  position: Vector3;
+};
+
+/** Asks for a `peers` snapshot after the client saw a gap in `seq`. */
+export type ResyncMessage = {
+  type: "resync";
+};
+
+/** Keeps two players out of each other's `peers`, in every session. */
+export type BlockMessage = {
+  type: "block" | "unblock";
+  playerId: string;
+};
+
+export type ModerationAction = "mute" | "unmute" | "kick" | "ban" | "unban";
+
+/** Sent by players with the moderator role; see `docs/voice-chat/moderation.md`. */
+export type ModerateMessage = {
+  type: "moderate";
+  action: ModerationAction;
+  playerId: string;
+  /** For `mute` and `ban`; the shard applies its default when omitted. */
+  durationMs?: number;
+  reason?: string;
+};
+
+/**
+ * SFU mode: offers the client's single upstream audio track, sent on the
+ * transceiver `mid`. Answered with `sfu-published`.
+ */
+export type SfuPublishMessage = {
+  type: "sfu-publish";
+  sdp: string;
+  mid: string;
+};
+
+/** SFU mode: the client's answer to an `sfu-tracks` offer. */
+export type SfuAnswerMessage = {
+  type: "sfu-answer";
+  sdp: string;
+};
+
+export type SessionDescriptionSignal = {
+  type: "offer" | "answer";
+  sdp: string;
+};
+
+export type IceCandidateSignal = {
+  type: "candidate";
+  candidate: {
+    candidate: string;
+    sdpMid?: string | null;
+    sdpMLineIndex?: number | null;
+    usernameFragment?: string | null;
+  };
+};
+
+export type SignalPayload = SessionDescriptionSignal | IceCandidateSignal;
+
+export type RelaySignalMessage = {
+  type: "signal";
+  targetId: string;
+  /** Client-chosen id echoed in `signal-ack`; omit to opt out of acks. */
+  signalId?: string;
+  payload: SignalPayload;
+};
+
+/**
+ * Asks for fresh TURN credentials before the ones from `/join` expire; the
+ * shard answers with `turn-credentials`.
+ */
+export type TurnCredentialsRequestMessage = {
+  type: "turn-credentials";
+};
+
+export type IncomingSocketMessage =
+  | RegisterMessage
+  | ResumeMessage
+  | HeartbeatMessage
+  | PositionMessage
+  | ResyncMessage
+  | BlockMessage
+  | ModerateMessage
+  | SfuPublishMessage
+  | SfuAnswerMessage
+  | RelaySignalMessage
+  | TurnCredentialsRequestMessage;
+
+export type RegisteredMessage = {
+  type: "registered";
+  playerId: string;
+  /** The shard's `PROTOCOL_VERSION`. */
+  protocolVersion?: number;
+  /** Presented in a `resume` message to take the session over after a drop. */
+  resumeToken?: string;
+  /** How long the shard holds the session after the socket drops. */
+  resumeWindowMs?: number;
+  /** Set when this socket resumed an earlier session. */
+  resumed?: boolean;
+  /** Encoding the shard uses for this socket; `json` when omitted. */
+  wireFormat?: WireFormat;
+  /** Set by cells that pick their own transport; see `transport-change`. */
+  transportMode?: VoiceTransportMode;
+};
+
+/**
+ * Version 3 clients get a sequenced stream: a snapshot carries the full
+ * `peers` list with every distance and position, and each delta after it
+ * only the added, removed and moved peers. Older clients get a snapshot
+ * without `seq` every time.
+ */
+export type PeerDiffMessage = {
+  type: "peers";
+  /** 1 for the first message on a socket, then one more per message. */
+  seq?: number;
+  snapshot?: boolean;
+  added?: string[];
+  removed?: string[];
+  peers?: string[];
+  distances?: Record<string, number>;
+  positions?: Record<string, Vector3>;
+  totalPlayers?: number;
+};
+
+export type SignalMessage = {
+  type: "signal";
+  from: string;
+  payload: unknown;
+};
+
+export type SignalDeliveryFailedMessage = {
+  type: "signal-delivery-failed";
+  targetId: string;
+};
+
+export type SignalAckMessage = {
+  type: "signal-ack";
+  signalId: string;
+  status: "delivered" | "queued" | "failed";
+  /** Set when `status` is `failed`, e.g. `expired` or `signal_not_permitted`. */
+  reason?: string;
+};
+
+export type ErrorMessage = {
+  type: "error";
+  /** Stable machine-readable reason, e.g. `invalid_position`. */
+  code?: SocketErrorCode;
+  message: string;
+};
+
+export type MigrateMessage = {
+  type: "migrate";
+  cellId: string;
+  cellWebSocketUrl: string;
+  sessionToken: string;
+};
+
+/** The player's block list, after registering and after every change. */
+export type BlockListMessage = {
+  type: "block-list";
+  blocked: string[];
+};
+
+/**
+ * A moderator acted on `playerId`, broadcast to every socket on the shard.
+ * `mute` is also sent after `registered` for each player muted at the time.
+ */
+export type ModerationMessage = {
+  type: "moderation";
+  action: Exclude<ModerationAction, "unban">;
+  playerId: string;
+  reason?: string;
+  /** When a `mute` or `ban` lapses, in epoch milliseconds. */
+  expiresAt?: number;
+};
+
+/** The SFU's answer to `sfu-publish`. */
+export type SfuPublishedMessage = {
+  type: "sfu-published";
+  sdp: string;
+};
+
+/**
+ * The remote tracks this client pulls from the SFU, as transceiver `mid` to
+ * player id. Sent whenever the set changes; mids no longer listed were
+ * closed. With `sdp`, the SFU's offer must be answered with `sfu-answer`.
+ */
+export type SfuTracksMessage = {
+  type: "sfu-tracks";
+  tracks: Record<string, string>;
+  sdp?: string;
+};
+
+/**
+ * The cell switched transport; clients move their audio to it without
+ * rejoining.
+ */
+export type TransportChangeMessage = {
+  type: "transport-change";
+  transportMode: VoiceTransportMode;
+};
+
+/** Sent by the runtime in reply to a heartbeat; carries no state. */
+export type HeartbeatAckMessage = {
+  type: "heartbeat-ack";
+};
+
+/** ICE servers minted for this player, replacing those from `/join`. */
+export type TurnCredentialsMessage = {
+  type: "turn-credentials";
+  iceServers: IceServer[];
+};
+
+/** Sent before the shard closes this socket because the player reconnected. */
+export type SupersededMessage = {
+  type: "superseded";
+  message: string;
+};
+
+export type CellServerMessage =
+  | RegisteredMessage
+  | MigrateMessage
+  | SignalDeliveryFailedMessage
+  | SignalAckMessage
+  | SupersededMessage
+  | ErrorMessage
+  | SignalMessage
+  | PeerDiffMessage
+  | BlockListMessage
+  | ModerationMessage
+  | SfuPublishedMessage
+  | SfuTracksMessage
+  | TransportChangeMessage
+  | TurnCredentialsMessage
+  | HeartbeatAckMessage;
+
+export type SocketErrorCode =
+  | "binary_not_supported"
+  | "message_too_large"
+  | "invalid_json"
+  | "unknown_type"
+  | "invalid_register"
+  | "invalid_resume"
+  | "unsupported_protocol"
+  | "invalid_position"
+  | "invalid_signal"
+  | "invalid_block"
+  | "block_list_full"
+  | "invalid_moderation"
+  | "not_moderator"
+  | "moderation_failed"
+  | "invalid_sfu"
+  | "sfu_unavailable"
+  | "connection_not_found"
+  | "invalid_session"
+  | "resume_failed"
+  | "wrong_world"
+  | "rate_limited"
+  | "signal_not_permitted"
+  | "session_active"
+  | "turn_unavailable";
+
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: SocketErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+// Application close codes (4000-4999).
+export const CLOSE_INVALID_SESSION = 4001;
+export const CLOSE_SUPERSEDED = 4002;
+export const CLOSE_WRONG_WORLD = 4003;
+export const CLOSE_UNSUPPORTED_PROTOCOL = 4006;
+export const CLOSE_SESSION_ACTIVE = 4009;
+/** A moderator kicked or banned the player. */
+export const CLOSE_KICKED = 4010;
+export const CLOSE_RATE_LIMITED = 4029;
+
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+export const MAX_ID_LENGTH = 128;
+export const MAX_ABS_COORDINATE_METERS = 1_000_000;
+export const MAX_SDP_LENGTH = 32 * 1024;
+export const MAX_CANDIDATE_LENGTH = 1024;
+export const MAX_MODERATION_REASON_LENGTH = 256;
+
+const MODERATION_ACTIONS: readonly ModerationAction[] = [
+  "mute",
+  "unmute",
+  "kick",
+  "ban",
+  "unban",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+};
+
+const isBoundedString = (value: unknown, maxLength: number): boolean => {
+  return (
+    typeof value === "string" && value.length > 0 && value.length <= maxLength
+  );
+};
+
+const isCoordinate = (value: unknown): value is number => {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= MAX_ABS_COORDINATE_METERS
+  );
+};
+
+const isOptional = <T>(
+  value: unknown,
+  check: (value: unknown) => value is T,
+): boolean => {
+  return value === undefined || value === null || check(value);
+};
+
+const isString = (value: unknown): value is string => {
+  return typeof value === "string";
+};
+
+const isNumber = (value: unknown): value is number => {
+  return typeof value === "number" && Number.isFinite(value);
+};
+
+const isArrayOf = <T>(
+  value: unknown,
+  check: (item: unknown) => item is T,
+): value is T[] => {
+  return Array.isArray(value) && value.every(check);
+};
+
+const isRecordOf = <T>(
+  value: unknown,
+  check: (item: unknown) => item is T,
+): value is Record<string, T> => {
+  return isRecord(value) && Object.values(value).every(check);
+};
+
+const isWireFormat = (value: unknown): value is WireFormat => {
+  return value === "json" || value === "binary";
+};
+
+const isTransportMode = (value: unknown): value is VoiceTransportMode => {
+  return value === VoiceTransportMode.P2P || value === VoiceTransportMode.SFU;
+};
+
+const isPositiveInteger = (value: unknown): value is number => {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+};
+
+export const isSupportedProtocolVersion = (version: number): boolean => {
+  return version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+};
+
+export const isValidPosition = (value: unknown): value is Vector3 => {
+  return (
+    isRecord(value) &&
+    isCoordinate(value.x) &&
+    isCoordinate(value.y) &&
+    isCoordinate(value.z)
+  );
+};
+
+const isIceServer = (value: unknown): value is IceServer => {
+  return (
+    isRecord(value) &&
+    (isString(value.urls) || isArrayOf(value.urls, isString)) &&
+    isOptional(value.username, isString) &&
+    isOptional(value.credential, isString)
+  );
+};
+
+const isSdp = (value: unknown): value is string => {
+  return (
+    isBoundedString(value, MAX_SDP_LENGTH) &&
+    (value as string).startsWith("v=0")
+  );
+};
+
+export const isValidSignalPayload = (
+  value: unknown,
+): value is SignalPayload => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  if (value.type === "offer" || value.type === "answer") {
+    return isSdp(value.sdp);
+  }
+
+  if (value.type !== "candidate" || !isRecord(value.candidate)) {
+    return false;
+  }
+
+  const { candidate, sdpMid, sdpMLineIndex, usernameFragment } =
+    value.candidate;
+
+  return (
+    typeof candidate === "string" &&
+    candidate.length <= MAX_CANDIDATE_LENGTH &&
+    isOptional(sdpMid, (mid): mid is string =>
+      isBoundedString(mid, MAX_ID_LENGTH),
+    ) &&
+    isOptional(
+      sdpMLineIndex,
+      (index): index is number =>
+        typeof index === "number" && Number.isInteger(index) && index >= 0,
+    ) &&
+    isOptional(usernameFragment, (fragment): fragment is string =>
+      isBoundedString(fragment, MAX_ID_LENGTH),
+    )
+  );
+};
+
+const decodeBinaryMessage = (raw: ArrayBuffer): IncomingSocketMessage => {
+  if (binaryFrameKind(raw) !== BINARY_POSITION) {
+    throw new ProtocolError("unknown_type", "Unknown message type");
+  }
+
+  const position = decodePositionFrame(raw);
+
+  if (!isValidPosition(position)) {
+    throw new ProtocolError("invalid_position", "Invalid position");
+  }
+
+  return { type: "position", position };
+};
+
+/**
+ * Parses and validates one inbound cell socket frame. Throws a
+ * `ProtocolError` with a stable code for anything that is not a well-formed
+ * message of a known type. Binary frames are accepted only with
+ * `allowBinary`, i.e. on sockets that registered with the `binary` format.
+ */
+export const decodeSocketMessage = (
+  raw: string | ArrayBuffer,
+  { allowBinary = false }: { allowBinary?: boolean } = {},
+): IncomingSocketMessage => {
+  if (typeof raw !== "string") {
+    if (allowBinary) {
+      return decodeBinaryMessage(raw);
+    }
+
+    throw new ProtocolError(
+      "binary_not_supported",
+      "Messages must be JSON string",
+    );
+  }
+
+  // Length in UTF-16 units bounds the UTF-8 size within a factor of three;
+  // good enough to refuse oversized frames before parsing them.
+  if (raw.length > MAX_MESSAGE_BYTES) {
+    throw new ProtocolError("message_too_large", "Message too large");
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError("invalid_json", "Invalid message format");
+  }
+
+  if (!isRecord(parsed) || typeof parsed.type !== "string") {
+    throw new ProtocolError("invalid_json", "Invalid message format");
+  }
+
+  switch (parsed.type) {
+    case "register":
+      if (
+        !isBoundedString(parsed.playerId, MAX_ID_LENGTH) ||
+        !isBoundedString(parsed.sessionToken, MAX_ID_LENGTH) ||
+        !isOptional(parsed.protocolVersion, isPositiveInteger) ||
+        !isOptional(parsed.wireFormat, isWireFormat)
+      ) {
+        throw new ProtocolError("invalid_register", "Invalid register message");
+      }
+
+      return {
+        type: "register",
+        playerId: parsed.playerId as string,
+        sessionToken: parsed.sessionToken as string,
+        protocolVersion: (parsed.protocolVersion as number | undefined) ?? 1,
+        wireFormat: (parsed.wireFormat as WireFormat | undefined) ?? "json",
+      };
+    case "resume":
+      if (
+        !isBoundedString(parsed.playerId, MAX_ID_LENGTH) ||
+        !isBoundedString(parsed.resumeToken, MAX_ID_LENGTH) ||
+        !isOptional(parsed.protocolVersion, isPositiveInteger) ||
+        !isOptional(parsed.wireFormat, isWireFormat)
+      ) {
+        throw new ProtocolError("invalid_resume", "Invalid resume message");
+      }
+
+      return {
+        type: "resume",
+        playerId: parsed.playerId as string,
+        resumeToken: parsed.resumeToken as string,
+        protocolVersion: (parsed.protocolVersion as number | undefined) ?? 1,
+        wireFormat: (parsed.wireFormat as WireFormat | undefined) ?? "json",
+      };
+    case "heartbeat":
+      return { type: "heartbeat" };
+    case "resync":
+      return { type: "resync" };
+    case "turn-credentials":
+      return { type: "turn-credentials" };
+    case "block":
+    case "unblock":
+      if (!isBoundedString(parsed.playerId, MAX_ID_LENGTH)) {
+        throw new ProtocolError("invalid_block", "Invalid block message");
+      }
+
+      return { type: parsed.type, playerId: parsed.playerId as string };
+    case "moderate":
+      if (
+        !MODERATION_ACTIONS.includes(parsed.action as ModerationAction) ||
+        !isBoundedString(parsed.playerId, MAX_ID_LENGTH) ||
+        !isOptional(parsed.durationMs, isPositiveInteger) ||
+        !isOptional(parsed.reason, (value): value is string =>
+          isBoundedString(value, MAX_MODERATION_REASON_LENGTH),
+        )
+      ) {
+        throw new ProtocolError(
+          "invalid_moderation",
+          "Invalid moderate message",
+        );
+      }
+
+      return {
+        type: "moderate",
+        action: parsed.action as ModerationAction,
+        playerId: parsed.playerId as string,
+        durationMs: (parsed.durationMs as number | null) ?? undefined,
+        reason: (parsed.reason as string | null) ?? undefined,
+      };
+    case "sfu-publish":
+    case "sfu-answer":
+      if (
+        !isSdp(parsed.sdp) ||
+        (parsed.type === "sfu-publish" &&
+          !isBoundedString(parsed.mid, MAX_ID_LENGTH))
+      ) {
+        throw new ProtocolError("invalid_sfu", "Invalid SFU message");
+      }
+
+      return parsed.type === "sfu-publish"
+        ? { type: "sfu-publish", sdp: parsed.sdp, mid: parsed.mid as string }
+        : { type: "sfu-answer", sdp: parsed.sdp };
+    case "position": {
+      const { position } = parsed;
+
+      if (!isValidPosition(position)) {
+        throw new ProtocolError("invalid_position", "Invalid position");
+      }
+
+      return {
+        type: "position",
+        position: { x: position.x, y: position.y, z: position.z },
+      };
+    }
+    case "signal":
+      if (
+        !isBoundedString(parsed.targetId, MAX_ID_LENGTH) ||
+        (parsed.signalId !== undefined &&
+          !isBoundedString(parsed.signalId, MAX_ID_LENGTH)) ||
+        !isValidSignalPayload(parsed.payload)
+      ) {
+        throw new ProtocolError("invalid_signal", "Invalid signal message");
+      }
+
+      return {
+        type: "signal",
+        targetId: parsed.targetId as string,
+        signalId: parsed.signalId as string | undefined,
+        payload: parsed.payload,
+      };
+    default:
+      throw new ProtocolError("unknown_type", "Unknown message type");
+  }
+};
+
+const SERVER_MESSAGE_GUARDS: {
+  [Type in CellServerMessage["type"]]: (
+    message: Record<string, unknown>,
+  ) => boolean;
+} = {
+  registered: (message) =>
+    isString(message.playerId) &&
+    isOptional(message.protocolVersion, isPositiveInteger) &&
+    isOptional(message.resumeToken, isString) &&
+    isOptional(message.resumeWindowMs, isNumber) &&
+    isOptional(message.resumed, (value): value is boolean => {
+      return typeof value === "boolean";
+    }) &&
+    isOptional(message.wireFormat, isWireFormat) &&
+    isOptional(message.transportMode, isTransportMode),
+  peers: (message) =>
+    isOptional(message.seq, isPositiveInteger) &&
+    isOptional(message.snapshot, (value): value is boolean => {
+      return typeof value === "boolean";
+    }) &&
+    isOptional(message.added, (value): value is string[] =>
+      isArrayOf(value, isString),
+    ) &&
+    isOptional(message.removed, (value): value is string[] =>
+      isArrayOf(value, isString),
+    ) &&
+    isOptional(message.peers, (value): value is string[] =>
+      isArrayOf(value, isString),
+    ) &&
+    isOptional(message.distances, (value): value is Record<string, number> =>
+      isRecordOf(value, isNumber),
+    ) &&
+    isOptional(message.positions, (value): value is Record<string, Vector3> =>
+      isRecordOf(value, isValidPosition),
+    ) &&
+    isOptional(message.totalPlayers, isNumber),
+  signal: (message) => isString(message.from),
+  "signal-delivery-failed": (message) => isString(message.targetId),
+  "signal-ack": (message) =>
+    isString(message.signalId) &&
+    (message.status === "delivered" ||
+      message.status === "queued" ||
+      message.status === "failed") &&
+    isOptional(message.reason, isString),
+  error: (message) =>
+    isString(message.message) && isOptional(message.code, isString),
+  migrate: (message) =>
+    isString(message.cellId) &&
+    isString(message.cellWebSocketUrl) &&
+    isString(message.sessionToken),
+  "block-list": (message) => isArrayOf(message.blocked, isString),
+  "transport-change": (message) => isTransportMode(message.transportMode),
+  "sfu-published": (message) => isString(message.sdp),
+  "sfu-tracks": (message) =>
+    isRecordOf(message.tracks, isString) && isOptional(message.sdp, isString),
+  moderation: (message) =>
+    (message.action === "mute" ||
+      message.action === "unmute" ||
+      message.action === "kick" ||
+      message.action === "ban") &&
+    isString(message.playerId) &&
+    isOptional(message.reason, isString) &&
+    isOptional(message.expiresAt, isNumber),
+  "turn-credentials": (message) => isArrayOf(message.iceServers, isIceServer),
+  "heartbeat-ack": () => true,
+  superseded: (message) => isString(message.message),
+};
+
+/**
+ * Parses one frame from the shard. Returns null for anything malformed or of
+ * an unknown type, which clients ignore so the shard can add message types
+ * without breaking them.
+ */
+export const decodeServerMessage = (raw: string): CellServerMessage | null => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.type !== "string" ||
+    !Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_GUARDS, parsed.type)
+  ) {
+    return null;
+  }
+
+  const guard = SERVER_MESSAGE_GUARDS[parsed.type as CellServerMessage["type"]];
+
+  return guard(parsed) ? (parsed as CellServerMessage) : null;
+};
+
+export const encodeServerMessage = (message: CellServerMessage): string => {
+  return JSON.stringify(message);
+};
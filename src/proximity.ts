@@ -0,0 +1,613 @@
+import { Vector3 } from "./types";
+
+export const distanceBetween = (a: Vector3, b: Vector3): number => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+};
+
+/**
+ * Uniform grid keyed on radius-sized buckets: every point within `radius` of
+ * a query lies in the query's bucket or one of its 26 neighbours.
+ */
+export class SpatialGrid {
+  private readonly buckets = new Map<string, Set<string>>();
+  private readonly bucketById = new Map<string, string>();
+
+  constructor(private readonly bucketSize: number) {}
+
+  private bucketKey(position: Vector3): string {
+    return `${Math.floor(position.x / this.bucketSize)},${Math.floor(position.y / this.bucketSize)},${Math.floor(position.z / this.bucketSize)}`;
+  }
+
+  upsert(id: string, position: Vector3): void {
+    const key = this.bucketKey(position);
+    const previous = this.bucketById.get(id);
+
+    if (previous === key) {
+      return;
+    }
+
+    if (previous !== undefined) {
+      this.removeFromBucket(id, previous);
+    }
+
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      bucket = new Set<string>();
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.add(id);
+    this.bucketById.set(id, key);
+  }
+
+  remove(id: string): void {
+    const key = this.bucketById.get(id);
+
+    if (key === undefined) {
+      return;
+    }
+
+    this.removeFromBucket(id, key);
+    this.bucketById.delete(id);
+  }
+
+  forEachNear(position: Vector3, visit: (id: string) => void): void {
+    const bx = Math.floor(position.x / this.bucketSize);
+    const by = Math.floor(position.y / this.bucketSize);
+    const bz = Math.floor(position.z / this.bucketSize);
+
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dz = -1; dz <= 1; dz += 1) {
+          const bucket = this.buckets.get(`${bx + dx},${by + dy},${bz + dz}`);
+
+          if (!bucket) {
+            continue;
+          }
+
+          for (const id of bucket) {
+            visit(id);
+          }
+        }
+      }
+    }
+  }
+
+  private removeFromBucket(id: string, key: string): void {
+    const bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      return;
+    }
+
+    bucket.delete(id);
+
+    if (bucket.size === 0) {
+      this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Maintains the symmetric "within radius" relation between players and only
+ * recomputes it for players whose position changed since the last flush.
+ */
+export class ProximityIndex {
+  private grid: SpatialGrid;
+  private readonly positions = new Map<string, Vector3>();
+  private readonly neighbours = new Map<string, Map<string, number>>();
+  private readonly dirty = new Set<string>();
+  private readonly removed = new Set<string>();
+  private moved = new Set<string>();
+
+  constructor(private radius: number) {
+    this.grid = new SpatialGrid(radius);
+  }
+
+  getRadius(): number {
+    return this.radius;
+  }
+
+  setRadius(radius: number): void {
+    if (radius === this.radius) {
+      return;
+    }
+
+    this.radius = radius;
+    this.grid = new SpatialGrid(radius);
+
+    for (const [id, position] of this.positions.entries()) {
+      this.grid.upsert(id, position);
+      this.dirty.add(id);
+    }
+  }
+
+  ids(): IterableIterator<string> {
+    return this.positions.keys();
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  getPosition(id: string): Vector3 | undefined {
+    return this.positions.get(id);
+  }
+
+  upsert(id: string, position: Vector3): void {
+    this.positions.set(id, position);
+    this.grid.upsert(id, position);
+    this.removed.delete(id);
+    this.dirty.add(id);
+  }
+
+  remove(id: string): void {
+    if (!this.positions.delete(id)) {
+      return;
+    }
+
+    this.grid.remove(id);
+    this.dirty.delete(id);
+    this.removed.add(id);
+  }
+
+  /** Distances to every player currently within radius. */
+  getNeighbours(id: string): ReadonlyMap<string, number> {
+    return this.neighbours.get(id) ?? new Map<string, number>();
+  }
+
+  /** Players whose own position changed in the last `flush`. */
+  lastMoved(): ReadonlySet<string> {
+    return this.moved;
+  }
+
+  /**
+   * Applies pending moves and removals. Returns every player whose neighbour
+   * set or neighbour distances may have changed.
+   */
+  flush(): Set<string> {
+    const affected = new Set<string>();
+    this.moved = new Set<string>();
+
+    for (const id of this.removed) {
+      const previous = this.neighbours.get(id);
+
+      if (previous) {
+        for (const other of previous.keys()) {
+          this.neighbours.get(other)?.delete(id);
+          affected.add(other);
+        }
+      }
+
+      this.neighbours.delete(id);
+    }
+
+    this.removed.clear();
+
+    for (const id of this.dirty) {
+      const position = this.positions.get(id);
+
+      if (!position) {
+        continue;
+      }
+
+      const next = new Map<string, number>();
+
+      this.grid.forEachNear(position, (other) => {
+        if (other === id) {
+          return;
+        }
+
+        const otherPosition = this.positions.get(other);
+
+        if (!otherPosition) {
+          return;
+        }
+
+        const distance = distanceBetween(position, otherPosition);
+
+        if (distance <= this.radius) {
+          next.set(other, distance);
+        }
+      });
+
+      const previous = this.neighbours.get(id);
+
+      if (previous) {
+        for (const other of previous.keys()) {
+          if (!next.has(other)) {
+            this.neighbours.get(other)?.delete(id);
+            affected.add(other);
+          }
+        }
+      }
+
+      for (const [other, distance] of next.entries()) {
+        let reverse = this.neighbours.get(other);
+
+        if (!reverse) {
+          reverse = new Map<string, number>();
+          this.neighbours.set(other, reverse);
+        }
+
+        reverse.set(id, distance);
+        affected.add(other);
+      }
+
+      this.neighbours.set(id, next);
+      affected.add(id);
+      this.moved.add(id);
+    }
+
+    this.dirty.clear();
+
+    return affected;
+  }
+}
+
+export type PeerLinkOptions = {
+  /** Distance at which a new link may form. */
+  enterRadius: number;
+  /** Distance beyond which an established link is dropped. */
+  exitRadius: number;
+  /** Links are kept at least this long unless a player leaves the index. */
+  minDwellMs: number;
+  /** Maximum links per player; null means unlimited. */
+  maxPeers: number | null;
+};
+
+type LinkCandidate = {
+  a: string;
+  b: string;
+  score: number;
+};
+
+/** Rounds per `update` before leftover players wait for the next one. */
+const MAX_REVIEW_ROUNDS = 4;
+
+const linkKey = (a: string, b: string): string => {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+};
+
+/**
+ * Symmetric peer links layered on a `ProximityIndex` whose radius is the exit
+ * radius: if A is linked to B then B is linked to A. With a cap, candidates
+ * are admitted greedily by distance (existing links measured against the exit
+ * radius, new ones against the enter radius) while both endpoints have room,
+ * so a closer newcomer only displaces a link once it is clearly closer.
+ */
+export class PeerLinks {
+  private readonly linkedAt = new Map<string, Map<string, number>>();
+  private dwelling = new Set<string>();
+  private reviewAt: number | null = null;
+  private reviewAll = false;
+  /** Players left over when `update` ran out of rounds. */
+  private pending = new Set<string>();
+  private isBlocked: (a: string, b: string) => boolean = () => false;
+
+  constructor(private options: PeerLinkOptions) {}
+
+  /**
+   * Pairs the filter rejects are never linked, and existing links between
+   * them drop on the next `update` that covers either player, dwell or not.
+   */
+  setBlockFilter(isBlocked: (a: string, b: string) => boolean): void {
+    this.isBlocked = isBlocked;
+  }
+
+  setOptions(options: PeerLinkOptions): void {
+    this.options = options;
+    this.reviewAll = true;
+  }
+
+  getPeers(id: string): string[] {
+    return Array.from(this.linkedAt.get(id)?.keys() ?? []);
+  }
+
+  /** When a link's dwell time runs out and `update` should run again. */
+  nextReviewAt(): number | null {
+    return this.reviewAt;
+  }
+
+  /**
+   * Re-evaluates the links and candidate pairs of `affected`, the players who
+   * moved (see `ProximityIndex.lastMoved`) or whose block list changed. With a
+   * cap, the links of every candidate partner are weighed too, since an
+   * admission can displace one of them, and players who lose a link get
+   * another round to fill the slot. Links outside that scope stay put and
+   * count towards the cap. Returns players whose link set changed.
+   */
+  update(
+    index: ProximityIndex,
+    affected: Iterable<string>,
+    now: number,
+  ): Set<string> {
+    const changed = new Set<string>();
+
+    for (const id of Array.from(this.linkedAt.keys())) {
+      if (index.has(id)) {
+        continue;
+      }
+
+      for (const peer of this.getPeers(id)) {
+        this.unlink(id, peer);
+        changed.add(id);
+        changed.add(peer);
+      }
+    }
+
+    const movers = this.reviewAll
+      ? new Set(index.ids())
+      : new Set([...affected, ...this.pending, ...changed]);
+    this.reviewAll = false;
+    // Dwelling players are reviewed so that expired links can drop.
+    let lostLink = this.review(index, movers, this.dwelling, now, changed);
+
+    for (
+      let round = 1;
+      round < MAX_REVIEW_ROUNDS && lostLink.size > 0;
+      round += 1
+    ) {
+      lostLink = this.review(index, lostLink, [], now, changed);
+    }
+
+    this.pending = lostLink;
+
+    this.refreshDwelling(changed, now);
+
+    if (this.pending.size > 0) {
+      this.reviewAt = now;
+    }
+
+    return changed;
+  }
+
+  /**
+   * One greedy round: candidate pairs of `movers`, plus the existing links of
+   * `movers`, `reviewed` and the candidate partners. Returns players who lost
+   * a link under a cap.
+   */
+  private review(
+    index: ProximityIndex,
+    movers: Set<string>,
+    reviewed: Iterable<string>,
+    now: number,
+    changed: Set<string>,
+  ): Set<string> {
+    const { enterRadius, exitRadius, minDwellMs, maxPeers } = this.options;
+    // A link is weighed this round when either of its players is reviewed.
+    const reviewedIds = new Set<string>();
+    const kept: LinkCandidate[] = [];
+    const candidates: LinkCandidate[] = [];
+    const dropped: LinkCandidate[] = [];
+
+    const reviewLinks = (id: string) => {
+      if (reviewedIds.has(id) || !index.has(id)) {
+        return;
+      }
+
+      reviewedIds.add(id);
+      const neighbours = index.getNeighbours(id);
+
+      for (const [peer, since] of this.linkedAt.get(id) ?? []) {
+        if (reviewedIds.has(peer)) {
+          continue;
+        }
+
+        const distance = neighbours.get(peer);
+        const link = {
+          a: id,
+          b: peer,
+          score: (distance ?? Infinity) / exitRadius,
+        };
+
+        if (this.isBlocked(id, peer)) {
+          dropped.push(link);
+        } else if (now - since < minDwellMs) {
+          kept.push(link);
+        } else if (distance !== undefined && distance <= exitRadius) {
+          candidates.push(link);
+        } else {
+          dropped.push(link);
+        }
+      }
+    };
+
+    for (const id of movers) {
+      reviewLinks(id);
+    }
+
+    for (const id of reviewed) {
+      reviewLinks(id);
+    }
+
+    const partners = new Set<string>();
+
+    for (const id of movers) {
+      if (!index.has(id)) {
+        continue;
+      }
+
+      const links = this.linkedAt.get(id);
+
+      for (const [peer, distance] of index.getNeighbours(id)) {
+        // Links were reviewed above; pairs of two movers are taken once.
+        if (
+          distance > enterRadius ||
+          links?.has(peer) ||
+          (peer < id && movers.has(peer))
+        ) {
+          continue;
+        }
+
+        if (!this.isBlocked(id, peer)) {
+          candidates.push({
+            a: id,
+            b: peer,
+            score: distance / enterRadius,
+          });
+          partners.add(peer);
+        }
+      }
+    }
+
+    const lostLink = new Set<string>();
+
+    if (maxPeers === null) {
+      kept.push(...candidates);
+    } else {
+      for (const id of partners) {
+        reviewLinks(id);
+      }
+
+      const degree = new Map<string, number>();
+      // Every player starts with their links this round leaves alone.
+      const degreeOf = (id: string): number => {
+        let value = degree.get(id);
+
+        if (value === undefined) {
+          value = 0;
+
+          if (!reviewedIds.has(id)) {
+            for (const peer of this.linkedAt.get(id)?.keys() ?? []) {
+              if (!reviewedIds.has(peer)) {
+                value += 1;
+              }
+            }
+          }
+
+          degree.set(id, value);
+        }
+
+        return value;
+      };
+      const bump = (id: string) => degree.set(id, degreeOf(id) + 1);
+
+      for (const link of kept) {
+        bump(link.a);
+        bump(link.b);
+      }
+
+      const hasRoom = (link: LinkCandidate) =>
+        degreeOf(link.a) < maxPeers && degreeOf(link.b) < maxPeers;
+      // Degrees only grow from here, so players already full are settled.
+      const contenders = candidates.filter((link) => {
+        if (hasRoom(link)) {
+          return true;
+        }
+
+        dropped.push(link);
+        return false;
+      });
+
+      contenders.sort(
+        (left, right) =>
+          left.score - right.score ||
+          (linkKey(left.a, left.b) < linkKey(right.a, right.b) ? -1 : 1),
+      );
+
+      for (const link of contenders) {
+        if (hasRoom(link)) {
+          bump(link.a);
+          bump(link.b);
+          kept.push(link);
+        } else {
+          dropped.push(link);
+        }
+      }
+    }
+
+    for (const link of dropped) {
+      if (this.unlink(link.a, link.b)) {
+        changed.add(link.a);
+        changed.add(link.b);
+
+        if (maxPeers !== null) {
+          lostLink.add(link.a);
+          lostLink.add(link.b);
+        }
+      }
+    }
+
+    for (const link of kept) {
+      if (this.link(link.a, link.b, now)) {
+        changed.add(link.a);
+        changed.add(link.b);
+      }
+    }
+
+    return lostLink;
+  }
+
+  private refreshDwelling(changed: Set<string>, now: number): void {
+    const { minDwellMs } = this.options;
+    const dwelling = new Set<string>();
+    let reviewAt: number | null = null;
+
+    if (minDwellMs > 0) {
+      // Only links created this round or still dwelling can be young.
+      for (const id of new Set([...this.dwelling, ...changed])) {
+        for (const [peer, since] of this.linkedAt.get(id) ?? []) {
+          const expiresAt = since + minDwellMs;
+
+          if (expiresAt > now) {
+            dwelling.add(id);
+            dwelling.add(peer);
+            reviewAt =
+              reviewAt === null ? expiresAt : Math.min(reviewAt, expiresAt);
+          }
+        }
+      }
+    }
+
+    this.dwelling = dwelling;
+    this.reviewAt = reviewAt;
+  }
+
+  private link(a: string, b: string, now: number): boolean {
+    if (this.linkedAt.get(a)?.has(b)) {
+      return false;
+    }
+
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      let links = this.linkedAt.get(from);
+
+      if (!links) {
+        links = new Map<string, number>();
+        this.linkedAt.set(from, links);
+      }
+
+      links.set(to, now);
+    }
+
+    return true;
+  }
+
+  private unlink(a: string, b: string): boolean {
+    if (!this.linkedAt.get(a)?.has(b)) {
+      return false;
+    }
+
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      const links = this.linkedAt.get(from);
+      links?.delete(to);
+
+      if (links && links.size === 0) {
+        this.linkedAt.delete(from);
+      }
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,41 @@
+export type RateLimit = {
+  /** Burst size. */
+  capacity: number;
+  /** Sustained rate. */
+  refillPerSecond: number;
+};
+
+/**
+ * Token bucket refilled continuously: allows bursts of `capacity` and a
+ * sustained `refillPerSecond`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly limit: RateLimit,
+    now = Date.now(),
+  ) {
+    this.tokens = limit.capacity;
+    this.updatedAt = now;
+  }
+
+  take(now = Date.now(), cost = 1): boolean {
+    const elapsedSeconds = Math.max(0, now - this.updatedAt) / 1000;
+
+    this.tokens = Math.min(
+      this.limit.capacity,
+      this.tokens + elapsedSeconds * this.limit.refillPerSecond,
+    );
+    this.updatedAt = now;
+
+    if (this.tokens < cost) {
+      return false;
+    }
+
+    this.tokens -= cost;
+
+    return true;
+  }
+}
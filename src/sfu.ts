@@ -0,0 +1,240 @@
+import { VoiceChatEnv } from "./config";
+import { MockSfuProvider } from "./sfuMock";
+
+/** A track published to the SFU: the session that pushed it and its name. */
+export type SfuTrackRef = {
+  sessionId: string;
+  trackName: string;
+};
+
+/** A remote track pulled into a session, on transceiver `mid`. */
+export type PulledTrack = SfuTrackRef & {
+  mid: string;
+};
+
+/**
+ * The operations the shard needs from an SFU, modelled on Cloudflare
+ * Realtime. One session per player carries their upstream track and every
+ * track they pull.
+ */
+export type SfuProvider = {
+  createSession(): Promise<string>;
+  /** Publishes the track on `mid` of the offer; returns the SFU's answer. */
+  pushTrack(
+    sessionId: string,
+    offerSdp: string,
+    track: { mid: string; trackName: string },
+  ): Promise<string>;
+  /**
+   * Adds remote tracks to the session. Returns where each landed and, when
+   * the client must renegotiate, the SFU's offer.
+   */
+  pullTracks(
+    sessionId: string,
+    tracks: SfuTrackRef[],
+  ): Promise<{ sdp: string | null; tracks: PulledTrack[] }>;
+  /** Completes a renegotiation started by `pullTracks`. */
+  renegotiate(sessionId: string, answerSdp: string): Promise<void>;
+  /**
+   * Stops pushed or pulled tracks; the client drops the transceivers itself.
+   * Closing every track of a session ends it.
+   */
+  closeTracks(sessionId: string, mids: string[]): Promise<void>;
+};
+
+export class SfuError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "SfuError";
+  }
+}
+
+const DEFAULT_SFU_API_BASE = "https://rtc.live.cloudflare.com/v1";
+
+type SessionDescription = {
+  type: "offer" | "answer";
+  sdp: string;
+};
+
+type CloudflareTrack = {
+  location?: "local" | "remote";
+  mid?: string;
+  sessionId?: string;
+  trackName?: string;
+  errorCode?: string;
+  errorDescription?: string;
+};
+
+type CloudflareResponse = {
+  sessionId?: string;
+  sessionDescription?: SessionDescription;
+  requiresImmediateRenegotiation?: boolean;
+  tracks?: CloudflareTrack[];
+  errorCode?: string;
+  errorDescription?: string;
+};
+
+/** Cloudflare Realtime SFU, authenticated with an app id and token. */
+export class CloudflareSfuProvider implements SfuProvider {
+  constructor(
+    private readonly appId: string,
+    private readonly appToken: string,
+    private readonly apiBase = DEFAULT_SFU_API_BASE,
+    // Workers reject `fetch` called with a foreign `this`.
+    private readonly fetchImpl: typeof fetch = (input, init) =>
+      fetch(input, init),
+  ) {}
+
+  async createSession(): Promise<string> {
+    const { sessionId } = await this.request("POST", "/sessions/new");
+
+    if (!sessionId) {
+      throw new SfuError("SFU session response missing sessionId");
+    }
+
+    return sessionId;
+  }
+
+  async pushTrack(
+    sessionId: string,
+    offerSdp: string,
+    track: { mid: string; trackName: string },
+  ): Promise<string> {
+    const response = await this.request(
+      "POST",
+      `/sessions/${sessionId}/tracks/new`,
+      {
+        sessionDescription: { type: "offer", sdp: offerSdp },
+        tracks: [{ location: "local", ...track }],
+      },
+    );
+
+    if (response.sessionDescription?.type !== "answer") {
+      throw new SfuError("SFU push response missing answer");
+    }
+
+    return response.sessionDescription.sdp;
+  }
+
+  async pullTracks(
+    sessionId: string,
+    tracks: SfuTrackRef[],
+  ): Promise<{ sdp: string | null; tracks: PulledTrack[] }> {
+    const response = await this.request(
+      "POST",
+      `/sessions/${sessionId}/tracks/new`,
+      { tracks: tracks.map((track) => ({ location: "remote", ...track })) },
+    );
+    const pulled: PulledTrack[] = [];
+
+    for (const track of response.tracks ?? []) {
+      if (track.errorCode || !track.mid || !track.trackName) {
+        console.warn(
+          "[voice-worker] SFU track pull failed",
+          track.trackName,
+          track.errorCode,
+        );
+        continue;
+      }
+
+      pulled.push({
+        mid: track.mid,
+        sessionId:
+          track.sessionId ??
+          tracks.find(({ trackName }) => trackName === track.trackName)
+            ?.sessionId ??
+          "",
+        trackName: track.trackName,
+      });
+    }
+
+    return {
+      sdp: response.requiresImmediateRenegotiation
+        ? (response.sessionDescription?.sdp ?? null)
+        : null,
+      tracks: pulled,
+    };
+  }
+
+  async renegotiate(sessionId: string, answerSdp: string): Promise<void> {
+    await this.request("PUT", `/sessions/${sessionId}/renegotiate`, {
+      sessionDescription: { type: "answer", sdp: answerSdp },
+    });
+  }
+
+  async closeTracks(sessionId: string, mids: string[]): Promise<void> {
+    await this.request("PUT", `/sessions/${sessionId}/tracks/close`, {
+      tracks: mids.map((mid) => ({ mid })),
+      force: true,
+    });
+  }
+
+  private async request(
+    method: "POST" | "PUT",
+    path: string,
+    body?: unknown,
+  ): Promise<CloudflareResponse> {
+    const response = await this.fetchImpl(
+      `${this.apiBase}/apps/${this.appId}${path}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.appToken}`,
+          "Content-Type": "application/json",
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+    );
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new SfuError(
+        `SFU ${method} ${path} returned ${response.status} ${detail}`,
+        response.status,
+      );
+    }
+
+    const payload = (await response.json()) as CloudflareResponse;
+
+    if (payload.errorCode) {
+      throw new SfuError(
+        `SFU ${method} ${path} failed: ${payload.errorCode} ${payload.errorDescription ?? ""}`,
+      );
+    }
+
+    return payload;
+  }
+}
+
+/**
+ * Builds the provider named by `SFU_PROVIDER`, or null when SFU mode cannot
+ * be served and joins should fall back to P2P.
+ */
+export const createSfuProvider = (env: VoiceChatEnv): SfuProvider | null => {
+  const provider = env.SFU_PROVIDER?.trim().toLowerCase() || "cloudflare";
+
+  if (provider === "mock") {
+    return new MockSfuProvider();
+  }
+
+  if (provider !== "cloudflare") {
+    console.warn("[voice-worker] unknown SFU_PROVIDER", provider);
+    return null;
+  }
+
+  const appId = env.SFU_APP_ID?.trim();
+  const appToken = env.SFU_APP_TOKEN?.trim();
+
+  if (!appId || !appToken) {
+    return null;
+  }
+
+  return new CloudflareSfuProvider(
+    appId,
+    appToken,
+    env.SFU_API_BASE?.trim() || undefined,
+  );
+};
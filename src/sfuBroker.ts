@@ -0,0 +1,356 @@
+import { CellServerMessage } from "./protocol";
+import { SfuError, SfuProvider, SfuTrackRef } from "./sfu";
+
+/** A pulled track: the session it came from and the mid it landed on. */
+type PulledPeerTrack = {
+  sessionId: string;
+  mid: string;
+};
+
+/** What survives hibernation for one player; see `SfuBroker.snapshot`. */
+export type SfuSessionState = {
+  sessionId: string;
+  /** Where the upstream track was pushed; absent in older snapshots. */
+  mid?: string;
+  /** Pulled tracks keyed by the player who published them. */
+  pulled: Record<string, PulledPeerTrack>;
+};
+
+type BrokeredSession = SfuSessionState & {
+  /** Serializes calls on the session; the SFU allows one offer at a time. */
+  queue: Promise<void>;
+  syncQueued: boolean;
+  /** Releases the queue once the client answers the pending offer. */
+  answered?: () => void;
+};
+
+export type SfuBrokerOptions = {
+  provider: SfuProvider;
+  send: (playerId: string, message: CellServerMessage) => void;
+  /** Who the player should hear; normally their current peer view. */
+  peersOf: (playerId: string) => Iterable<string>;
+  /** The published track of a peer, or undefined when it must not be pulled. */
+  trackOf: (playerId: string) => SfuTrackRef | undefined;
+  /** Called after the session state changes, to persist it. */
+  onChange: (playerId: string) => void;
+  answerTimeoutMs?: number;
+};
+
+const DEFAULT_ANSWER_TIMEOUT_MS = 10_000;
+
+/**
+ * Brokers SFU sessions for a shard's players. Each player publishes one
+ * track, named by their player id, and pulls the tracks of their peers;
+ * `sync` reconciles the pulled set and tells the client which mid carries
+ * which player.
+ */
+export class SfuBroker {
+  private readonly sessions = new Map<string, BrokeredSession>();
+  /** Serializes `publish` and `remove` per player, sessions or not. */
+  private readonly lifecycles = new Map<string, Promise<void>>();
+  private readonly answerTimeoutMs: number;
+
+  constructor(private readonly options: SfuBrokerOptions) {
+    this.answerTimeoutMs = options.answerTimeoutMs ?? DEFAULT_ANSWER_TIMEOUT_MS;
+  }
+
+  has(playerId: string): boolean {
+    return this.sessions.has(playerId);
+  }
+
+  publishedTrack(playerId: string): SfuTrackRef | undefined {
+    const session = this.sessions.get(playerId);
+
+    return session
+      ? { sessionId: session.sessionId, trackName: playerId }
+      : undefined;
+  }
+
+  /**
+   * Opens a fresh session for the player's upstream track. A client only
+   * republishes with a new peer connection, so any earlier session is closed
+   * first, and a publish waits for the one before it.
+   */
+  publish(playerId: string, sdp: string, mid: string): Promise<void> {
+    return this.enqueue(playerId, () => this.open(playerId, sdp, mid));
+  }
+
+  private async open(
+    playerId: string,
+    sdp: string,
+    mid: string,
+  ): Promise<void> {
+    await this.close(playerId);
+
+    const sessionId = await this.options.provider.createSession();
+    let answer: string;
+
+    try {
+      answer = await this.options.provider.pushTrack(sessionId, sdp, {
+        mid,
+        trackName: playerId,
+      });
+    } catch (error) {
+      await this.closeTracks(playerId, sessionId, [mid]);
+      throw error;
+    }
+
+    this.sessions.set(playerId, {
+      sessionId,
+      mid,
+      pulled: {},
+      queue: Promise.resolve(),
+      syncQueued: false,
+    });
+    this.options.send(playerId, { type: "sfu-published", sdp: answer });
+    this.options.onChange(playerId);
+  }
+
+  async acceptAnswer(playerId: string, sdp: string): Promise<void> {
+    const session = this.sessions.get(playerId);
+
+    if (!session) {
+      throw new SfuError("No SFU session for player", 409);
+    }
+
+    try {
+      await this.options.provider.renegotiate(session.sessionId, sdp);
+    } finally {
+      session.answered?.();
+    }
+  }
+
+  /** Queues a reconciliation; syncs requested while one waits are merged. */
+  sync(playerId: string): Promise<void> {
+    const session = this.sessions.get(playerId);
+
+    if (!session || session.syncQueued) {
+      return session?.queue ?? Promise.resolve();
+    }
+
+    session.syncQueued = true;
+    session.queue = session.queue
+      .then(() => {
+        session.syncQueued = false;
+        return this.reconcile(playerId, session);
+      })
+      .catch((error) => {
+        console.warn("[voice-worker] SFU sync failed", playerId, error);
+      });
+
+    return session.queue;
+  }
+
+  /** Repeats the current mid mapping, e.g. to a resumed socket. */
+  resend(playerId: string): void {
+    const session = this.sessions.get(playerId);
+
+    if (session) {
+      this.options.send(playerId, {
+        type: "sfu-tracks",
+        tracks: this.trackMap(session),
+      });
+    }
+  }
+
+  /**
+   * Forgets the player's session and closes it on the SFU once any
+   * reconciliation in flight has settled, so its pulls are closed too. A
+   * publish in flight finishes first, so its session is closed as well.
+   */
+  remove(playerId: string): Promise<void> {
+    return this.enqueue(playerId, () => this.close(playerId));
+  }
+
+  private async close(playerId: string): Promise<void> {
+    const session = this.sessions.get(playerId);
+
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(playerId);
+    session.answered?.();
+    await session.queue;
+
+    const mids = [
+      ...(session.mid ? [session.mid] : []),
+      ...Object.values(session.pulled).map(({ mid }) => mid),
+    ];
+
+    if (mids.length > 0) {
+      await this.closeTracks(playerId, session.sessionId, mids);
+    }
+  }
+
+  private async closeTracks(
+    playerId: string,
+    sessionId: string,
+    mids: string[],
+  ): Promise<void> {
+    try {
+      await this.options.provider.closeTracks(sessionId, mids);
+    } catch (error) {
+      console.warn("[voice-worker] SFU session close failed", playerId, error);
+    }
+  }
+
+  /**
+   * Runs `task` after the player's earlier publishes and removes; at once,
+   * up to its first await, when none is pending.
+   */
+  private enqueue(playerId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.lifecycles.get(playerId);
+    const run = previous ? previous.then(task) : task();
+    const settled = run.catch(() => {});
+
+    this.lifecycles.set(playerId, settled);
+    void settled.then(() => {
+      if (this.lifecycles.get(playerId) === settled) {
+        this.lifecycles.delete(playerId);
+      }
+    });
+
+    return run;
+  }
+
+  /** Closes every session, e.g. when the cell goes back to the mesh. */
+  async clear(): Promise<void> {
+    const playerIds = new Set([
+      ...this.sessions.keys(),
+      ...this.lifecycles.keys(),
+    ]);
+
+    await Promise.all(
+      Array.from(playerIds, (playerId) => this.remove(playerId)),
+    );
+  }
+
+  snapshot(playerId: string): SfuSessionState | undefined {
+    const session = this.sessions.get(playerId);
+
+    return session
+      ? {
+          sessionId: session.sessionId,
+          mid: session.mid,
+          pulled: { ...session.pulled },
+        }
+      : undefined;
+  }
+
+  restore(playerId: string, state: SfuSessionState): void {
+    this.sessions.set(playerId, {
+      sessionId: state.sessionId,
+      mid: state.mid,
+      pulled: { ...state.pulled },
+      queue: Promise.resolve(),
+      syncQueued: false,
+    });
+  }
+
+  private async reconcile(
+    playerId: string,
+    session: BrokeredSession,
+  ): Promise<void> {
+    if (this.sessions.get(playerId) !== session) {
+      return;
+    }
+
+    const desired = new Map<string, SfuTrackRef>();
+
+    for (const peerId of this.options.peersOf(playerId)) {
+      const track =
+        peerId === playerId ? undefined : this.options.trackOf(peerId);
+
+      if (track) {
+        desired.set(peerId, track);
+      }
+    }
+
+    // A peer who republished has a new session; their old track is dead.
+    const stale = Object.entries(session.pulled).filter(
+      ([peerId, pulled]) => desired.get(peerId)?.sessionId !== pulled.sessionId,
+    );
+    const added = Array.from(desired).filter(
+      ([peerId, track]) =>
+        session.pulled[peerId]?.sessionId !== track.sessionId,
+    );
+
+    if (stale.length === 0 && added.length === 0) {
+      return;
+    }
+
+    if (stale.length > 0) {
+      await this.options.provider.closeTracks(
+        session.sessionId,
+        stale.map(([, pulled]) => pulled.mid),
+      );
+
+      for (const [peerId] of stale) {
+        delete session.pulled[peerId];
+      }
+    }
+
+    let sdp: string | null = null;
+
+    if (added.length > 0) {
+      const result = await this.options.provider.pullTracks(
+        session.sessionId,
+        added.map(([, track]) => track),
+      );
+
+      for (const track of result.tracks) {
+        session.pulled[track.trackName] = {
+          sessionId: track.sessionId,
+          mid: track.mid,
+        };
+      }
+
+      sdp = result.sdp;
+    }
+
+    if (this.sessions.get(playerId) !== session) {
+      return;
+    }
+
+    this.options.send(playerId, {
+      type: "sfu-tracks",
+      tracks: this.trackMap(session),
+      ...(sdp ? { sdp } : {}),
+    });
+    this.options.onChange(playerId);
+
+    if (sdp) {
+      await this.awaitAnswer(playerId, session);
+    }
+  }
+
+  private trackMap(session: BrokeredSession): Record<string, string> {
+    const tracks: Record<string, string> = {};
+
+    for (const [peerId, { mid }] of Object.entries(session.pulled)) {
+      tracks[mid] = peerId;
+    }
+
+    return tracks;
+  }
+
+  private awaitAnswer(
+    playerId: string,
+    session: BrokeredSession,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        console.warn("[voice-worker] SFU offer unanswered", playerId);
+        session.answered = undefined;
+        resolve();
+      }, this.answerTimeoutMs);
+
+      session.answered = () => {
+        clearTimeout(timer);
+        session.answered = undefined;
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,137 @@
+import { PulledTrack, SfuError, SfuProvider, SfuTrackRef } from "./sfu";
+
+type MockSession = {
+  /** Published track names to the mid they arrived on. */
+  published: Map<string, string>;
+  pulled: Map<string, SfuTrackRef>;
+  nextMid: number;
+  /** Set while the session owes the SFU an answer. */
+  awaitingAnswer: boolean;
+};
+
+const describe = (type: "offer" | "answer", mids: string[]): string =>
+  [
+    "v=0",
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    "s=-",
+    "t=0 0",
+    ...mids.flatMap((mid) => [
+      "m=audio 9 UDP/TLS/RTP/SAVPF 111",
+      `a=mid:${mid}`,
+      type === "offer" ? "a=sendonly" : "a=recvonly",
+    ]),
+    "",
+  ].join("\r\n");
+
+/**
+ * In-memory SFU for tests and `wrangler dev` (`SFU_PROVIDER=mock`). Keeps
+ * the bookkeeping of a real one and returns placeholder SDP, so signalling
+ * can be exercised end to end without media.
+ */
+export class MockSfuProvider implements SfuProvider {
+  private readonly sessions = new Map<string, MockSession>();
+  private nextSession = 1;
+
+  async createSession(): Promise<string> {
+    const sessionId = `mock-session-${this.nextSession++}`;
+    this.sessions.set(sessionId, {
+      published: new Map(),
+      pulled: new Map(),
+      nextMid: 0,
+      awaitingAnswer: false,
+    });
+    return sessionId;
+  }
+
+  async pushTrack(
+    sessionId: string,
+    offerSdp: string,
+    track: { mid: string; trackName: string },
+  ): Promise<string> {
+    const session = this.session(sessionId);
+
+    if (!offerSdp.includes(`a=mid:${track.mid}`)) {
+      throw new SfuError(`Offer has no mid ${track.mid}`, 400);
+    }
+
+    session.published.set(track.trackName, track.mid);
+    return describe("answer", [track.mid]);
+  }
+
+  async pullTracks(
+    sessionId: string,
+    tracks: SfuTrackRef[],
+  ): Promise<{ sdp: string | null; tracks: PulledTrack[] }> {
+    const session = this.session(sessionId);
+
+    if (session.awaitingAnswer) {
+      throw new SfuError("Previous offer not yet answered", 409);
+    }
+
+    const pulled: PulledTrack[] = [];
+
+    for (const track of tracks) {
+      if (!this.sessions.get(track.sessionId)?.published.has(track.trackName)) {
+        continue;
+      }
+
+      const mid = `pull-${session.nextMid++}`;
+      session.pulled.set(mid, track);
+      pulled.push({ mid, ...track });
+    }
+
+    if (pulled.length === 0) {
+      return { sdp: null, tracks: [] };
+    }
+
+    session.awaitingAnswer = true;
+    return {
+      sdp: describe("offer", Array.from(session.pulled.keys())),
+      tracks: pulled,
+    };
+  }
+
+  async renegotiate(sessionId: string, answerSdp: string): Promise<void> {
+    const session = this.session(sessionId);
+
+    if (!answerSdp.startsWith("v=0")) {
+      throw new SfuError("Invalid answer", 400);
+    }
+
+    session.awaitingAnswer = false;
+  }
+
+  async closeTracks(sessionId: string, mids: string[]): Promise<void> {
+    const session = this.session(sessionId);
+
+    for (const mid of mids) {
+      session.pulled.delete(mid);
+    }
+
+    for (const [trackName, mid] of session.published) {
+      if (mids.includes(mid)) {
+        session.published.delete(trackName);
+      }
+    }
+  }
+
+  /** The tracks a session currently publishes, name to mid; for assertions. */
+  publishedTracks(sessionId: string): Map<string, string> {
+    return new Map(this.session(sessionId).published);
+  }
+
+  /** The tracks a session currently pulls, by mid; for assertions. */
+  pulledTracks(sessionId: string): Map<string, SfuTrackRef> {
+    return new Map(this.session(sessionId).pulled);
+  }
+
+  private session(sessionId: string): MockSession {
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      throw new SfuError(`Unknown session ${sessionId}`, 404);
+    }
+
+    return session;
+  }
+}
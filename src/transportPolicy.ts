@@ -0,0 +1,47 @@
+import { VoiceTransportMode } from "./protocol";
+import { WorldConfig } from "./worlds";
+
+/** What a cell's transport is chosen on; see `chooseCellTransport`. */
+export type CellDensity = {
+  players: number;
+  /** The most peers any one player of the cell has. */
+  largestPeerSet: number;
+};
+
+type TransportThresholds = Pick<
+  WorldConfig,
+  | "sfuEnterPlayers"
+  | "sfuEnterPeers"
+  | "sfuExitPlayers"
+  | "sfuExitPeers"
+  | "minTransportDwellMs"
+>;
+
+/**
+ * The transport an `auto` cell should use. A mesh cell moves to SFU when
+ * either threshold is reached; an SFU cell returns once both are back under
+ * their exit values. Neither happens within the dwell time of the last
+ * switch.
+ */
+export const chooseCellTransport = (
+  current: VoiceTransportMode,
+  density: CellDensity,
+  thresholds: TransportThresholds,
+  msSinceSwitch: number,
+): VoiceTransportMode => {
+  if (msSinceSwitch < thresholds.minTransportDwellMs) {
+    return current;
+  }
+
+  if (current === VoiceTransportMode.P2P) {
+    return density.players >= thresholds.sfuEnterPlayers ||
+      density.largestPeerSet >= thresholds.sfuEnterPeers
+      ? VoiceTransportMode.SFU
+      : VoiceTransportMode.P2P;
+  }
+
+  return density.players <= thresholds.sfuExitPlayers &&
+    density.largestPeerSet <= thresholds.sfuExitPeers
+    ? VoiceTransportMode.P2P
+    : VoiceTransportMode.SFU;
+};
@@ -1,9 +1,18 @@
+import type { BlockListKv } from "./blockLists";
 import { VoiceChatEnv } from "./config";
 
-export type Vector3 = {
-  x: number;
-  y: number;
-  z: number;
+export type { Vector3 } from "./protocol";
+
+/** The parts of Cloudflare's `request.cf` the worker reads. */
+export type RequestCf = {
+  country?: string;
+  continent?: string;
+};
+
+export type PlayerClaims = {
+  subject: string;
+  roles: string[];
+  displayName?: string;
 };
 
 export type DurableObjectStub = {
@@ -15,6 +24,46 @@ export type DurableObjectNamespace = {
   get(id: unknown): DurableObjectStub;
 };
 
+declare global {
+  /** Workers runtime: a canned reply sent without waking the Durable Object. */
+  class WebSocketRequestResponsePair {
+    constructor(request: string, response: string);
+  }
+}
+
+export type DurableObjectStorage = {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  list<T = unknown>(options?: {
+    prefix?: string;
+    /** Exclusive upper bound on keys. */
+    end?: string;
+    limit?: number;
+  }): Promise<Map<string, T>>;
+  put(key: string, value: unknown): Promise<void>;
+  delete(keys: string | string[]): Promise<boolean | number>;
+  getAlarm(): Promise<number | null>;
+  setAlarm(scheduledTime: number): Promise<void>;
+};
+
+/** A server-side socket accepted through the hibernation API. */
+export type HibernatableWebSocket = WebSocket & {
+  serializeAttachment(value: unknown): void;
+  deserializeAttachment(): unknown;
+};
+
+export type DurableObjectState = {
+  storage: DurableObjectStorage;
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T>;
+  acceptWebSocket(socket: WebSocket, tags?: string[]): void;
+  getWebSockets(tag?: string): HibernatableWebSocket[];
+  setWebSocketAutoResponse(pair?: WebSocketRequestResponsePair): void;
+  getWebSocketAutoResponseTimestamp(socket: WebSocket): Date | null;
+};
+
 export interface VoiceWorkerEnv extends VoiceChatEnv {
   WORLD_SHARD: DurableObjectNamespace;
+  /** One `BlockListHome` per player; used while `VOICE_BLOCK_LISTS` is unbound. */
+  BLOCK_LISTS: DurableObjectNamespace;
+  /** Optional: shares block lists between cells; see `BlockListStore`. */
+  VOICE_BLOCK_LISTS?: BlockListKv;
 }
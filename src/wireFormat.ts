@@ -0,0 +1,359 @@
+import type { PeerDiffMessage, Vector3 } from "./protocol";
+
+/**
+ * Encoding for the high-frequency frames, chosen per socket at `register`.
+ * With `binary`, `position` (client to shard) and `peers` (shard to client)
+ * travel as compact binary frames; every other message stays JSON.
+ */
+export type WireFormat = "json" | "binary";
+
+// First byte of every binary frame.
+export const BINARY_POSITION = 1;
+export const BINARY_PEERS = 2;
+
+// Coordinates travel as signed centimetres: ±1,000,000 m fits an int32.
+// Anything beyond its ±21,474 km is clamped rather than left to wrap.
+const POSITION_SCALE = 100;
+const MAX_INT32 = 0x7fffffff;
+// Distances as unsigned centimetres, capped at 655.35 m.
+const DISTANCE_SCALE = 100;
+const MAX_UINT16 = 0xffff;
+const POSITION_FRAME_BYTES = 13;
+
+// `peers` frame flags.
+const RESET_TABLE = 1;
+// The entries are a delta, not the full `peers` list.
+const PARTIAL = 2;
+const SNAPSHOT = 4;
+// A u32 `seq` follows `totalPlayers`.
+const HAS_SEQ = 8;
+// Per-peer flags.
+const PEER_ADDED = 1;
+const PEER_HAS_DISTANCE = 2;
+const PEER_HAS_POSITION = 4;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const quantize = (value: number): number =>
+  Math.max(-MAX_INT32, Math.min(Math.round(value * POSITION_SCALE), MAX_INT32));
+
+const writePosition = (view: DataView, offset: number, position: Vector3) => {
+  view.setInt32(offset, quantize(position.x));
+  view.setInt32(offset + 4, quantize(position.y));
+  view.setInt32(offset + 8, quantize(position.z));
+};
+
+const readPosition = (view: DataView, offset: number): Vector3 => ({
+  x: view.getInt32(offset) / POSITION_SCALE,
+  y: view.getInt32(offset + 4) / POSITION_SCALE,
+  z: view.getInt32(offset + 8) / POSITION_SCALE,
+});
+
+/** `[kind:u8][x:i32][y:i32][z:i32]`, big endian, centimetres. */
+export const encodePositionFrame = (position: Vector3): ArrayBuffer => {
+  const buffer = new ArrayBuffer(POSITION_FRAME_BYTES);
+  const view = new DataView(buffer);
+
+  view.setUint8(0, BINARY_POSITION);
+  writePosition(view, 1, position);
+
+  return buffer;
+};
+
+/** Returns null when `buffer` is not a well-formed position frame. */
+export const decodePositionFrame = (buffer: ArrayBuffer): Vector3 | null => {
+  if (buffer.byteLength !== POSITION_FRAME_BYTES) {
+    return null;
+  }
+
+  const view = new DataView(buffer);
+
+  return view.getUint8(0) === BINARY_POSITION ? readPosition(view, 1) : null;
+};
+
+export const binaryFrameKind = (buffer: ArrayBuffer): number | null => {
+  return buffer.byteLength > 0 ? new DataView(buffer).getUint8(0) : null;
+};
+
+type PeerEntry = {
+  index: number;
+  flags: number;
+  distance?: number;
+  position?: Vector3;
+};
+
+/**
+ * Encodes `peers` messages for one socket. Each peer id is sent once and
+ * then referenced by a 16-bit index. The first frame from a new encoder
+ * resets the client's table, so losing the encoder (a new socket, or the
+ * shard waking from hibernation) is always safe.
+ *
+ * Layout, big endian:
+ * `[kind:u8][flags:u8][totalPlayers:u16][seq:u32?]`
+ * `[definitions:u16]` then `[index:u16][length:u16][utf8 id]` each,
+ * `[peers:u16]` then `[index:u16][flags:u8][distance:u16?][x,y,z:i32?]` each,
+ * `[removed:u16]` then `[index:u16]` each.
+ */
+export class PeerFrameEncoder {
+  private readonly indexById = new Map<string, number>();
+  private resetPending = true;
+
+  encode(message: PeerDiffMessage): ArrayBuffer {
+    const peers = message.peers ?? [];
+    const removed = message.removed ?? [];
+    const added = new Set(message.added ?? []);
+
+    if (
+      this.indexById.size + peers.length + removed.length + added.size >
+      MAX_UINT16
+    ) {
+      this.resetPending = true;
+    }
+
+    const flags =
+      (this.resetPending ? RESET_TABLE : 0) |
+      (message.peers === undefined ? PARTIAL : 0) |
+      (message.snapshot ? SNAPSHOT : 0) |
+      (message.seq !== undefined ? HAS_SEQ : 0);
+
+    if (this.resetPending) {
+      this.indexById.clear();
+      this.resetPending = false;
+    }
+
+    const definitions: { index: number; bytes: Uint8Array }[] = [];
+    const indexOf = (id: string): number => {
+      let index = this.indexById.get(id);
+
+      if (index === undefined) {
+        index = this.indexById.size;
+        this.indexById.set(id, index);
+        definitions.push({ index, bytes: textEncoder.encode(id) });
+      }
+
+      return index;
+    };
+
+    // One entry per id in `peers`, `added`, `distances` or `positions`.
+    const peerIds = Array.from(
+      new Set([
+        ...peers,
+        ...added,
+        ...Object.keys(message.distances ?? {}),
+        ...Object.keys(message.positions ?? {}),
+      ]),
+    );
+    const entries: PeerEntry[] = peerIds.map((id) => {
+      const distance = message.distances?.[id];
+      const position = message.positions?.[id];
+
+      return {
+        index: indexOf(id),
+        flags:
+          (added.has(id) ? PEER_ADDED : 0) |
+          (distance !== undefined ? PEER_HAS_DISTANCE : 0) |
+          (position !== undefined ? PEER_HAS_POSITION : 0),
+        distance,
+        position,
+      };
+    });
+    const removedIndexes = removed.map(indexOf);
+
+    let size = 1 + 1 + 2 + 2 + 2 + 2 + removedIndexes.length * 2;
+    size += flags & HAS_SEQ ? 4 : 0;
+
+    for (const definition of definitions) {
+      size += 4 + definition.bytes.byteLength;
+    }
+
+    for (const entry of entries) {
+      size += 3;
+      size += entry.flags & PEER_HAS_DISTANCE ? 2 : 0;
+      size += entry.flags & PEER_HAS_POSITION ? 12 : 0;
+    }
+
+    const buffer = new ArrayBuffer(size);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    let offset = 0;
+
+    view.setUint8(offset, BINARY_PEERS);
+    view.setUint8(offset + 1, flags);
+    view.setUint16(
+      offset + 2,
+      Math.min(message.totalPlayers ?? MAX_UINT16, MAX_UINT16),
+    );
+    offset += 4;
+
+    if (message.seq !== undefined) {
+      view.setUint32(offset, message.seq);
+      offset += 4;
+    }
+
+    view.setUint16(offset, definitions.length);
+    offset += 2;
+
+    for (const definition of definitions) {
+      view.setUint16(offset, definition.index);
+      view.setUint16(offset + 2, definition.bytes.byteLength);
+      bytes.set(definition.bytes, offset + 4);
+      offset += 4 + definition.bytes.byteLength;
+    }
+
+    view.setUint16(offset, entries.length);
+    offset += 2;
+
+    for (const entry of entries) {
+      view.setUint16(offset, entry.index);
+      view.setUint8(offset + 2, entry.flags);
+      offset += 3;
+
+      if (entry.distance !== undefined) {
+        view.setUint16(
+          offset,
+          Math.min(Math.round(entry.distance * DISTANCE_SCALE), MAX_UINT16),
+        );
+        offset += 2;
+      }
+
+      if (entry.position !== undefined) {
+        writePosition(view, offset, entry.position);
+        offset += 12;
+      }
+    }
+
+    view.setUint16(offset, removedIndexes.length);
+    offset += 2;
+
+    for (const index of removedIndexes) {
+      view.setUint16(offset, index);
+      offset += 2;
+    }
+
+    return buffer;
+  }
+}
+
+/** Client-side counterpart of `PeerFrameEncoder`; one per socket. */
+export class PeerFrameDecoder {
+  private readonly idByIndex = new Map<number, string>();
+
+  /** Returns null for malformed frames or references to unknown ids. */
+  decode(buffer: ArrayBuffer): PeerDiffMessage | null {
+    try {
+      return this.read(new DataView(buffer));
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  private read(view: DataView): PeerDiffMessage | null {
+    if (view.getUint8(0) !== BINARY_PEERS) {
+      return null;
+    }
+
+    const frameFlags = view.getUint8(1);
+
+    if (frameFlags & RESET_TABLE) {
+      this.idByIndex.clear();
+    }
+
+    const totalPlayers = view.getUint16(2);
+    let offset = 4;
+    let seq: number | undefined;
+
+    if (frameFlags & HAS_SEQ) {
+      seq = view.getUint32(offset);
+      offset += 4;
+    }
+
+    const definitionCount = view.getUint16(offset);
+    offset += 2;
+
+    for (let i = 0; i < definitionCount; i += 1) {
+      const index = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      const bytes = new Uint8Array(
+        view.buffer,
+        view.byteOffset + offset + 4,
+        length,
+      );
+
+      if (bytes.byteLength !== length) {
+        return null;
+      }
+
+      this.idByIndex.set(index, textDecoder.decode(bytes));
+      offset += 4 + length;
+    }
+
+    const peers: string[] = [];
+    const added: string[] = [];
+    const distances: Record<string, number> = {};
+    const positions: Record<string, Vector3> = {};
+    const peerCount = view.getUint16(offset);
+    offset += 2;
+
+    for (let i = 0; i < peerCount; i += 1) {
+      const id = this.idByIndex.get(view.getUint16(offset));
+      const flags = view.getUint8(offset + 2);
+      offset += 3;
+
+      if (id === undefined) {
+        return null;
+      }
+
+      peers.push(id);
+
+      if (flags & PEER_ADDED) {
+        added.push(id);
+      }
+
+      if (flags & PEER_HAS_DISTANCE) {
+        distances[id] = view.getUint16(offset) / DISTANCE_SCALE;
+        offset += 2;
+      }
+
+      if (flags & PEER_HAS_POSITION) {
+        positions[id] = readPosition(view, offset);
+        offset += 12;
+      }
+    }
+
+    const removed: string[] = [];
+    const removedCount = view.getUint16(offset);
+    offset += 2;
+
+    for (let i = 0; i < removedCount; i += 1) {
+      const id = this.idByIndex.get(view.getUint16(offset));
+      offset += 2;
+
+      if (id === undefined) {
+        return null;
+      }
+
+      removed.push(id);
+    }
+
+    if (offset !== view.byteLength) {
+      return null;
+    }
+
+    return {
+      type: "peers",
+      seq,
+      snapshot: frameFlags & SNAPSHOT ? true : undefined,
+      peers: frameFlags & PARTIAL ? undefined : peers,
+      added: added.length > 0 ? added : undefined,
+      removed: removed.length > 0 ? removed : undefined,
+      distances: Object.keys(distances).length > 0 ? distances : undefined,
+      positions: Object.keys(positions).length > 0 ? positions : undefined,
+      totalPlayers: totalPlayers === MAX_UINT16 ? undefined : totalPlayers,
+    };
+  }
+}
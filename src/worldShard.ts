@@ -1,12 +1,95 @@
-import { VoiceWorkerEnv, Vector3 } from "./types";
+import {
+  BlockListStore,
+  MAX_BLOCKED_PLAYERS,
+  blockListHomes,
+} from "./blockLists";
+import { getIceServers } from "./config";
+import {
+  ModerationStore,
+  Sanction,
+  SanctionKind,
+  isModerator,
+  sanctionDuration,
+  sdpSendsAudio,
+} from "./moderation";
+import {
+  CellCoordinates,
+  deriveCellId,
+  distanceToCell,
+  neighbourCellIds,
+  parseCellId,
+} from "./cells";
+import {
+  BlockMessage,
+  CLOSE_INVALID_SESSION,
+  CLOSE_KICKED,
+  CLOSE_RATE_LIMITED,
+  CLOSE_SESSION_ACTIVE,
+  CLOSE_SUPERSEDED,
+  CLOSE_UNSUPPORTED_PROTOCOL,
+  CLOSE_WRONG_WORLD,
+  CellServerMessage,
+  IncomingSocketMessage,
+  ModerateMessage,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  PeerDiffMessage,
+  PositionMessage,
+  ProtocolError,
+  RegisterMessage,
+  RelaySignalMessage,
+  ResumeMessage,
+  SEQUENCED_PEERS_VERSION,
+  SfuAnswerMessage,
+  SfuPublishMessage,
+  SocketErrorCode,
+  VoiceTransportMode,
+  decodeSocketMessage,
+  encodeServerMessage,
+  isSupportedProtocolVersion,
+  isValidSignalPayload,
+} from "./protocol";
+import {
+  PeerLinkOptions,
+  PeerLinks,
+  ProximityIndex,
+  distanceBetween,
+} from "./proximity";
+import { RateLimit, TokenBucket } from "./rateLimit";
+import { SfuTrackRef, createSfuProvider } from "./sfu";
+import { SfuBroker, SfuSessionState } from "./sfuBroker";
+import { chooseCellTransport } from "./transportPolicy";
+import { resolveTurnIceServers } from "./turn";
+import {
+  DurableObjectState,
+  HibernatableWebSocket,
+  PlayerClaims,
+  RequestCf,
+  VoiceWorkerEnv,
+  Vector3,
+} from "./types";
 import { makeJsonResponse, uuid } from "./utils";
+import { PeerFrameEncoder, WireFormat } from "./wireFormat";
+import {
+  DEFAULT_WORLD_CONFIG,
+  WorldConfig,
+  parseWorldKey,
+  resolveWorldConfig,
+} from "./worlds";
 
 type PrepareSessionPayload = {
   playerId: string;
   sessionToken: string;
+  claims: PlayerClaims | null;
+  cellId?: string;
+  /** Sent on migration so the list survives cells without shared KV. */
+  blocked?: string[];
+  /** Sent on migration so the player is placed before their first update. */
+  position?: Vector3;
 };
 
-type PendingSession = PrepareSessionPayload & {
+type PendingSession = Omit<PrepareSessionPayload, "blocked"> & {
+  worldKey: string | null;
   createdAt: number;
 };
 
@@ -14,82 +97,293 @@ type PlayerConnection = {
   id: string;
   playerId: string;
   sessionToken: string;
-  socket: WebSocket;
+  /** Rotated on every `registered`; presented in `resume` after a drop. */
+  resumeToken: string;
+  /** Negotiated at `register`/`resume`; `binary` frames position and peers. */
+  wireFormat: WireFormat;
+  protocolVersion: number;
+  claims: PlayerClaims | null;
+  socket: HibernatableWebSocket;
   lastSeen: number;
   lastPositionAt?: number;
   position?: Vector3;
+  cellUrlBase: string | null;
+  /** Where the client connected from; picks the TURN provider of refreshes. */
+  region?: RequestCf;
+  migration?: PendingMigration;
+};
+
+/**
+ * A registered player whose socket dropped without a clean close. Their slot,
+ * position and peer links are held until `expiresAt` so a `resume` on a new
+ * socket can pick up where they left off.
+ */
+type SuspendedSession = {
+  playerId: string;
+  sessionToken: string;
+  resumeToken: string;
+  claims: PlayerClaims | null;
+  position?: Vector3;
+  lastPositionAt?: number;
+  peers: string[];
+  /** Kept so the SFU session outlives the socket, as the media does. */
+  sfu?: SfuSessionState;
+  expiresAt: number;
+};
+
+type PendingMigration = {
+  cellId: string;
+  startedAt: number;
+  /** Set once the destination accepted `/prepare` and `migrate` was sent. */
+  prepared?: boolean;
+};
+
+/** A player owned by a neighbouring shard, known through presence pushes. */
+type RemotePlayer = {
+  playerId: string;
+  cellId: string;
+  position: Vector3;
+  /** Who this player blocked, so the pair stays unlinked on both shards. */
+  blocked: Set<string>;
+  /** Their published SFU track, which local players may pull. */
+  sfuTrack?: SfuTrackRef;
+  expiresAt: number;
+  /**
+   * Set for a player who just migrated to `cellId`: kept until a presence
+   * push from that cell lists them, or until it expires.
+   */
+  awaitingPresence?: boolean;
+};
+
+type PresenceEntry = {
+  playerId: string;
+  position: Vector3;
+  blocked?: string[];
+  sfuTrack?: SfuTrackRef;
+};
+
+type FederationPresencePayload = {
+  fromCellId: string;
+  players: PresenceEntry[];
+};
+
+type FederationSignalPayload = {
+  fromCellId: string;
+  fromPlayerId: string;
+  targetId: string;
+  payload: unknown;
 };
 
 type AnonymousConnection = {
   id: string;
-  socket: WebSocket;
+  socket: HibernatableWebSocket;
   lastSeen: number;
+  cellUrlBase: string | null;
+  worldKey: string | null;
+  region?: RequestCf;
 };
 
-type RelaySignalMessage = {
-  type: "signal";
-  targetId: string;
+/**
+ * Serialized onto each socket so a shard woken from hibernation can rebuild
+ * its connections without the client noticing.
+ */
+type SocketAttachment = {
+  connectionId: string;
+  cellUrlBase: string | null;
+  worldKey: string | null;
+  region?: RequestCf;
+  lastSeen: number;
+  player?: {
+    playerId: string;
+    sessionToken: string;
+    resumeToken: string;
+    wireFormat?: WireFormat;
+    protocolVersion?: number;
+    claims: PlayerClaims | null;
+    position?: Vector3;
+    lastPositionAt?: number;
+    migration?: PendingMigration;
+    peers: string[];
+    sfu?: SfuSessionState;
+  };
+};
+
+/** A signal held for a target that is not connected to any known shard. */
+type QueuedSignal = {
+  fromPlayerId: string;
+  sourceConnectionId: string;
+  signalId?: string;
   payload: unknown;
+  queuedAt: number;
 };
 
-type RegisterMessage = {
-  type: "register";
-  playerId: string;
-  sessionToken: string;
+type SignalFailureReason =
+  | "signal_not_permitted"
+  | "muted"
+  | "queue_full"
+  | "expired"
+  | "unreachable";
+
+/** The transport an `auto` cell is on, persisted across hibernation. */
+type CellTransport = {
+  mode: VoiceTransportMode;
+  changedAt: number;
 };
 
-type HeartbeatMessage = {
-  type: "heartbeat";
+type FrameWindow = {
+  count: number;
+  windowStart: number;
 };
 
-type PositionMessage = {
-  type: "position";
-  position: Vector3;
+type PeerStream = {
+  seq: number;
+  snapshotAt: number;
 };
 
-type IncomingSocketMessage =
-  | RegisterMessage
-  | HeartbeatMessage
-  | PositionMessage
-  | RelaySignalMessage;
+type ConnectionRateLimits = {
+  signal: TokenBucket;
+  position: TokenBucket;
+  resync: TokenBucket;
+  block: TokenBucket;
+  moderate: TokenBucket;
+  turn: TokenBucket;
+  /** Frames dropped by any bucket in the current window. */
+  dropped?: FrameWindow;
+};
 
 const SESSION_TTL_MS = 60_000;
 const HEARTBEAT_TIMEOUT_MS = 30_000;
+// Answered by the runtime without waking the object; must match the client
+// byte for byte.
+const HEARTBEAT_REQUEST = JSON.stringify({ type: "heartbeat" });
+const HEARTBEAT_RESPONSE = encodeServerMessage({ type: "heartbeat-ack" });
+const SESSION_STORAGE_PREFIX = "session:";
+const SUSPENDED_STORAGE_PREFIX = "suspended:";
+const RESUME_GRACE_MS = 20_000;
+const MAX_INVALID_FRAMES = 5;
+const INVALID_FRAME_WINDOW_MS = 10_000;
+// Generous enough for ICE candidate bursts and 10 Hz position updates.
+const SIGNAL_RATE_LIMIT: RateLimit = { capacity: 60, refillPerSecond: 20 };
+const POSITION_RATE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 20 };
+// Each resync costs a full snapshot; a healthy client needs one rarely.
+const RESYNC_RATE_LIMIT: RateLimit = { capacity: 3, refillPerSecond: 0.2 };
+// Covers both `block` and `unblock`; each one rewrites the stored list.
+const BLOCK_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 1 };
+const MODERATE_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 1 };
+// Each refresh may mint through a metered API; clients need one an hour.
+const TURN_RATE_LIMIT: RateLimit = { capacity: 2, refillPerSecond: 1 / 60 };
+const MAX_RATE_LIMITED_FRAMES = 50;
+// Teardown signals may still cross an edge shortly after it is removed.
+const PEER_RELAY_GRACE_MS = 10_000;
+const SIGNAL_QUEUE_TTL_MS = 10_000;
+const MAX_QUEUED_SIGNALS_PER_TARGET = 32;
+const CELL_ID_STORAGE_KEY = "cellId";
+const TRANSPORT_STORAGE_KEY = "transport";
 const POSITION_UPDATE_MIN_INTERVAL_MS = 100; // 10 Hz guardrail
-const PROXIMITY_RADIUS_METERS = 45;
 const PROXIMITY_DEBOUNCE_MS = 50;
 const DISTANCE_CHANGE_EPSILON = 0.5;
+// Bounds how long a client that missed a delta can drift from the shard.
+const PEER_SNAPSHOT_INTERVAL_MS = 30_000;
+const REMOTE_PRESENCE_TTL_MS = 5_000;
+const PRESENCE_REFRESH_MS = 2_000;
+const PRESENCE_POSITION_PRECISION = 1; // re-push after ~1 m of movement
+const CELL_EXIT_MARGIN_METERS = 8;
+const MIGRATION_RETRY_MS = 15_000;
+
+const isVector3 = (value: unknown): value is Vector3 => {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    typeof (value as Vector3).x === "number" &&
+    typeof (value as Vector3).y === "number" &&
+    typeof (value as Vector3).z === "number"
+  );
+};
 
-const distanceBetween = (a: Vector3, b: Vector3): number => {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  const dz = a.z - b.z;
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
 
-  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+const isSfuTrackRef = (value: unknown): value is SfuTrackRef => {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    typeof (value as SfuTrackRef).sessionId === "string" &&
+    typeof (value as SfuTrackRef).trackName === "string"
+  );
 };
 
-const decodeSocketMessage = (raw: string): IncomingSocketMessage | null => {
-  try {
-    const parsed = JSON.parse(raw) as IncomingSocketMessage;
+const isPresenceEntry = (value: unknown): value is PresenceEntry => {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    typeof (value as PresenceEntry).playerId === "string" &&
+    isVector3((value as PresenceEntry).position) &&
+    ((value as PresenceEntry).blocked === undefined ||
+      isStringArray((value as PresenceEntry).blocked)) &&
+    ((value as PresenceEntry).sfuTrack === undefined ||
+      isSfuTrackRef((value as PresenceEntry).sfuTrack))
+  );
+};
 
-    if (
-      parsed == null ||
-      typeof parsed !== "object" ||
-      typeof parsed.type !== "string"
-    ) {
-      return null;
-    }
+const presenceSignature = (entries: PresenceEntry[]): string => {
+  return entries
+    .map(
+      ({ playerId, position, blocked, sfuTrack }) =>
+        `${playerId}@${Math.round(position.x * PRESENCE_POSITION_PRECISION)},${Math.round(position.y * PRESENCE_POSITION_PRECISION)},${Math.round(position.z * PRESENCE_POSITION_PRECISION)}/${blocked?.join(",") ?? ""}/${sfuTrack?.sessionId ?? ""}`,
+    )
+    .sort()
+    .join("|");
+};
+
+const toPeerLinkOptions = (config: WorldConfig): PeerLinkOptions => ({
+  enterRadius: config.proximityRadiusMeters,
+  exitRadius: config.exitRadiusMeters,
+  minDwellMs: config.minPeerDwellMs,
+  maxPeers: config.maxPeersPerPlayer,
+});
+
+const isPlayerClaims = (value: unknown): value is PlayerClaims => {
+  if (value == null || typeof value !== "object") {
+    return false;
+  }
 
-    return parsed;
-  } catch {
-    return null;
+  const { subject, roles, displayName } = value as Record<string, unknown>;
+
+  return (
+    typeof subject === "string" &&
+    Array.isArray(roles) &&
+    roles.every((role) => typeof role === "string") &&
+    (displayName === undefined || typeof displayName === "string")
+  );
+};
+
+const bumpWindow = (
+  window: FrameWindow | undefined,
+  now: number,
+  windowMs: number,
+): FrameWindow => {
+  if (!window || now - window.windowStart > windowMs) {
+    return { count: 1, windowStart: now };
   }
+
+  window.count += 1;
+
+  return window;
+};
+
+const sameMembers = (a: Set<string>, b: Set<string>): boolean =>
+  a.size === b.size && Array.from(a).every((id) => b.has(id));
+
+const socketError = (code: SocketErrorCode, message: string): string => {
+  return encodeServerMessage({ type: "error", code, message });
 };
 
 export class WorldShard {
   private readonly pendingSessionsByToken = new Map<string, PendingSession>();
   private readonly pendingSessionsByPlayer = new Map<string, string>();
   private readonly connectionsByPlayer = new Map<string, PlayerConnection>();
+  private readonly connectionsById = new Map<string, PlayerConnection>();
+  private readonly suspendedByPlayer = new Map<string, SuspendedSession>();
   private readonly anonymousConnections = new Map<
     string,
     AnonymousConnection
@@ -99,13 +393,300 @@ export class WorldShard {
     string,
     Map<string, number>
   >();
+  private readonly remotePlayersById = new Map<string, RemotePlayer>();
+  private readonly invalidFramesByConnection = new Map<string, FrameWindow>();
+  private readonly rateLimitsByConnection = new Map<
+    string,
+    ConnectionRateLimits
+  >();
+  private readonly queuedSignalsByTarget = new Map<string, QueuedSignal[]>();
+  private readonly removedPeersByPlayer = new Map<
+    string,
+    Map<string, number>
+  >();
+  private readonly lastPresenceByNeighbour = new Map<
+    string,
+    { signature: string; sentAt: number }
+  >();
+  /**
+   * Peer id tables of binary sockets. Not persisted: after hibernation a new
+   * encoder starts with a table reset, which the client follows.
+   */
+  private readonly peerEncodersByConnection = new Map<
+    string,
+    PeerFrameEncoder
+  >();
+  /** Sequence of the `peers` stream on each socket; see `publishPeerDiff`. */
+  private readonly peerStreamsByConnection = new Map<string, PeerStream>();
+  /** Block lists of players with a pending, live or suspended session. */
+  private readonly blockedByPlayer = new Map<string, Set<string>>();
+  /** Players whose links must be re-checked on the next recalculation. */
+  private readonly pendingRelinks = new Set<string>();
+  private readonly blockLists: BlockListStore;
+  /** Active server mutes and bans in this cell; see `handleModerate`. */
+  private readonly sanctions: Record<SanctionKind, Map<string, Sanction>> = {
+    mute: new Map(),
+    ban: new Map(),
+  };
+  private readonly moderation: ModerationStore;
+  /** Null unless an SFU provider is configured; see `createSfuProvider`. */
+  private readonly sfu: SfuBroker | null;
+  private transport: CellTransport = {
+    mode: VoiceTransportMode.P2P,
+    changedAt: 0,
+  };
+  private cellId: string | null = null;
+  private cell: CellCoordinates | null = null;
+  private worldConfig: WorldConfig = DEFAULT_WORLD_CONFIG;
+  private readonly proximity = new ProximityIndex(
+    DEFAULT_WORLD_CONFIG.exitRadiusMeters,
+  );
+  private readonly peerLinks = new PeerLinks(
+    toPeerLinkOptions(DEFAULT_WORLD_CONFIG),
+  );
   private proximityTimer: ReturnType<typeof setTimeout> | null = null;
-  private cleanupTimer: ReturnType<typeof setTimeout> | null = null;
+  private linkReviewTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the alarm is known to be due for a presence refresh, if ever. */
+  private federationRefreshAt: number | null = null;
+  private signalQueueTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(
-    private readonly _state: unknown,
-    private readonly _env: VoiceWorkerEnv,
-  ) {}
+    private readonly state: DurableObjectState,
+    private readonly env: VoiceWorkerEnv,
+  ) {
+    this.blockLists = new BlockListStore(
+      this.state.storage,
+      this.env.VOICE_BLOCK_LISTS ?? blockListHomes(this.env.BLOCK_LISTS),
+    );
+    this.peerLinks.setBlockFilter((a, b) => this.isBlockedPair(a, b));
+    this.moderation = new ModerationStore(this.state.storage);
+    const sfuProvider = createSfuProvider(this.env);
+    this.sfu = sfuProvider
+      ? new SfuBroker({
+          provider: sfuProvider,
+          send: (playerId, message) => {
+            const connection = this.connectionsByPlayer.get(playerId);
+
+            if (connection) {
+              this.sendToConnection(connection.id, message);
+            }
+          },
+          peersOf: (playerId) => this.peerViewByPlayer.get(playerId) ?? [],
+          trackOf: (playerId) => this.sfuTrackFor(playerId),
+          onChange: (playerId) => {
+            const connection = this.connectionsByPlayer.get(playerId);
+
+            if (connection) {
+              this.persistAttachment(connection);
+            }
+          },
+        })
+      : null;
+    this.state.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair(HEARTBEAT_REQUEST, HEARTBEAT_RESPONSE),
+    );
+    void this.state.blockConcurrencyWhile(() => this.restore());
+  }
+
+  /**
+   * Reloads the cell id, pending and suspended sessions from storage and rebuilds
+   * connections from the attachments of sockets that survived hibernation.
+   */
+  private async restore(): Promise<void> {
+    this.learnCellId(await this.state.storage.get<string>(CELL_ID_STORAGE_KEY));
+    this.transport =
+      (await this.state.storage.get<CellTransport>(TRANSPORT_STORAGE_KEY)) ??
+      this.transport;
+
+    const sessions = await this.state.storage.list<PendingSession>({
+      prefix: SESSION_STORAGE_PREFIX,
+    });
+
+    for (const session of sessions.values()) {
+      this.pendingSessionsByToken.set(session.sessionToken, session);
+      this.pendingSessionsByPlayer.set(session.playerId, session.sessionToken);
+    }
+
+    const suspended = await this.state.storage.list<SuspendedSession>({
+      prefix: SUSPENDED_STORAGE_PREFIX,
+    });
+
+    for (const session of suspended.values()) {
+      this.suspendedByPlayer.set(session.playerId, session);
+      this.peerViewByPlayer.set(session.playerId, new Set(session.peers));
+      this.syncProximityEntry(session.playerId);
+
+      if (session.sfu) {
+        this.sfu?.restore(session.playerId, session.sfu);
+      }
+    }
+
+    for (const socket of this.state.getWebSockets()) {
+      const attachment = socket.deserializeAttachment() as SocketAttachment;
+
+      if (!attachment?.connectionId) {
+        continue;
+      }
+
+      const { player } = attachment;
+
+      if (!player) {
+        this.anonymousConnections.set(attachment.connectionId, {
+          id: attachment.connectionId,
+          socket,
+          lastSeen: attachment.lastSeen,
+          cellUrlBase: attachment.cellUrlBase,
+          worldKey: attachment.worldKey,
+          region: attachment.region,
+        });
+        continue;
+      }
+
+      const connection: PlayerConnection = {
+        id: attachment.connectionId,
+        playerId: player.playerId,
+        sessionToken: player.sessionToken,
+        resumeToken: player.resumeToken,
+        wireFormat: player.wireFormat ?? "json",
+        protocolVersion: player.protocolVersion ?? MIN_PROTOCOL_VERSION,
+        claims: player.claims,
+        socket,
+        lastSeen: attachment.lastSeen,
+        lastPositionAt: player.lastPositionAt,
+        position: player.position,
+        cellUrlBase: attachment.cellUrlBase,
+        region: attachment.region,
+        migration: player.migration,
+      };
+
+      this.connectionsById.set(connection.id, connection);
+      this.connectionsByPlayer.set(player.playerId, connection);
+      this.peerViewByPlayer.set(player.playerId, new Set(player.peers));
+      this.syncProximityEntry(player.playerId);
+
+      if (player.sfu) {
+        this.sfu?.restore(player.playerId, player.sfu);
+      }
+    }
+
+    const knownPlayers = new Set([
+      ...this.pendingSessionsByPlayer.keys(),
+      ...this.connectionsByPlayer.keys(),
+      ...this.suspendedByPlayer.keys(),
+    ]);
+
+    for (const playerId of knownPlayers) {
+      this.rememberBlockList(
+        playerId,
+        await this.blockLists.loadFromShard(playerId),
+      );
+    }
+
+    for (const kind of ["mute", "ban"] as const) {
+      this.sanctions[kind] = await this.moderation.loadSanctions(kind);
+    }
+
+    // Mutes that lapsed while the shard slept are announced now.
+    this.pruneSanctions();
+
+    if (this.connectionsByPlayer.size > 0 || this.suspendedByPlayer.size > 0) {
+      this.scheduleProximityRecalc();
+    }
+  }
+
+  async webSocketMessage(
+    socket: HibernatableWebSocket,
+    message: string | ArrayBuffer,
+  ): Promise<void> {
+    const { connectionId } = socket.deserializeAttachment() as SocketAttachment;
+    let parsed: IncomingSocketMessage;
+
+    try {
+      parsed = decodeSocketMessage(message, {
+        allowBinary:
+          this.lookupConnection(connectionId)?.wireFormat === "binary",
+      });
+    } catch (error) {
+      if (!(error instanceof ProtocolError)) {
+        throw error;
+      }
+
+      socket.send(socketError(error.code, error.message));
+      this.recordInvalidFrame(connectionId, error.code);
+      return;
+    }
+
+    this.handleSocketMessage(connectionId, parsed);
+  }
+
+  /**
+   * Closes sockets that keep sending frames the protocol rejects; a few
+   * mistakes (e.g. during a client upgrade) are tolerated per window.
+   */
+  private recordInvalidFrame(
+    connectionId: string,
+    code: SocketErrorCode,
+  ): void {
+    const window = bumpWindow(
+      this.invalidFramesByConnection.get(connectionId),
+      Date.now(),
+      INVALID_FRAME_WINDOW_MS,
+    );
+
+    this.invalidFramesByConnection.set(connectionId, window);
+
+    if (window.count < MAX_INVALID_FRAMES) {
+      return;
+    }
+
+    console.warn(
+      "[voice-worker] closing connection after invalid frames",
+      connectionId,
+      code,
+    );
+    this.handleDisconnect(connectionId, 1008, "Too many invalid messages");
+  }
+
+  /**
+   * A clean close (1000, or 1001 when the page goes away) ends the session;
+   * anything else is treated as a network drop and may be resumed.
+   */
+  async webSocketClose(
+    socket: HibernatableWebSocket,
+    code: number,
+  ): Promise<void> {
+    const { connectionId } = socket.deserializeAttachment() as SocketAttachment;
+
+    if (code === 1000 || code === 1001) {
+      this.handleDisconnect(connectionId);
+    } else {
+      this.suspendConnection(connectionId);
+    }
+  }
+
+  async webSocketError(socket: HibernatableWebSocket): Promise<void> {
+    const { connectionId } = socket.deserializeAttachment() as SocketAttachment;
+    this.suspendConnection(connectionId);
+  }
+
+  /**
+   * Periodic cleanup and presence refresh; rescheduled for as long as there
+   * is state to expire or presence to keep alive.
+   */
+  async alarm(): Promise<void> {
+    this.pruneExpiredSessions();
+    this.pruneSuspendedSessions();
+    this.pruneInactiveConnections();
+    this.pruneBlockLists();
+    this.pruneSanctions();
+
+    if (this.pruneExpiredRemotePlayers()) {
+      this.scheduleProximityRecalc();
+    }
+
+    this.publishPresence(true);
+    await this.scheduleCleanup();
+  }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
@@ -122,7 +703,27 @@ export class WorldShard {
           return new Response("Expected WebSocket upgrade", { status: 426 });
         }
 
-        return this.handleSocket(request);
+        this.learnCellId(url.searchParams.get("cellId"));
+        return this.handleSocket(
+          url.searchParams.get("cellUrlBase"),
+          parseCellId(url.searchParams.get("cellId") ?? "")?.worldKey ?? null,
+          {
+            country: url.searchParams.get("country") ?? undefined,
+            continent: url.searchParams.get("continent") ?? undefined,
+          },
+        );
+      case "/federation/presence":
+        if (request.method !== "POST") {
+          return new Response("Method Not Allowed", { status: 405 });
+        }
+
+        return this.handleFederationPresence(request);
+      case "/federation/signal":
+        if (request.method !== "POST") {
+          return new Response("Method Not Allowed", { status: 405 });
+        }
+
+        return this.handleFederationSignal(request);
       default:
         return new Response("Not Found", { status: 404 });
     }
@@ -141,72 +742,280 @@ export class WorldShard {
       payload == null ||
       typeof payload !== "object" ||
       typeof payload.playerId !== "string" ||
-      typeof payload.sessionToken !== "string"
+      typeof payload.sessionToken !== "string" ||
+      (payload.claims != null && !isPlayerClaims(payload.claims)) ||
+      (payload.blocked != null && !isStringArray(payload.blocked)) ||
+      (payload.position != null && !isVector3(payload.position))
     ) {
       return makeJsonResponse({ error: "Invalid payload" }, { status: 400 });
     }
 
+    if (payload.claims && payload.claims.subject !== payload.playerId) {
+      return makeJsonResponse(
+        { error: "Claims subject does not match playerId" },
+        { status: 400 },
+      );
+    }
+
+    this.learnCellId(payload.cellId);
     this.pruneExpiredSessions();
 
+    const ban = this.activeSanction("ban", payload.playerId);
+
+    if (ban) {
+      return makeJsonResponse(
+        {
+          error: "Banned from this cell",
+          code: "player_banned",
+          expiresAt: ban.expiresAt,
+        },
+        { status: 403 },
+      );
+    }
+
+    if (this.isFullFor(payload.playerId)) {
+      return makeJsonResponse(
+        { error: "Cell is full", code: "cell_full" },
+        { status: 503 },
+      );
+    }
+
     const existingToken = this.pendingSessionsByPlayer.get(payload.playerId);
 
     if (existingToken) {
-      this.pendingSessionsByToken.delete(existingToken);
-      this.pendingSessionsByPlayer.delete(payload.playerId);
+      this.forgetPendingSession(existingToken);
+    }
+
+    if (payload.blocked) {
+      this.rememberBlockList(payload.playerId, payload.blocked);
+      await this.blockLists.saveToShard(payload.playerId, payload.blocked);
+    } else if (!this.blockedByPlayer.has(payload.playerId)) {
+      // A player already live here keeps the list this shard has been editing.
+      this.rememberBlockList(
+        payload.playerId,
+        await this.blockLists.load(payload.playerId),
+      );
     }
 
-    this.pendingSessionsByToken.set(payload.sessionToken, {
-      ...payload,
+    const session: PendingSession = {
+      playerId: payload.playerId,
+      sessionToken: payload.sessionToken,
+      claims: payload.claims ?? null,
+      position: payload.position,
+      worldKey: parseCellId(payload.cellId ?? "")?.worldKey ?? null,
       createdAt: Date.now(),
-    });
-    this.pendingSessionsByPlayer.set(payload.playerId, payload.sessionToken);
+    };
 
-    return makeJsonResponse({ ok: true }, { status: 200 });
+    this.pendingSessionsByToken.set(session.sessionToken, session);
+    this.pendingSessionsByPlayer.set(session.playerId, session.sessionToken);
+    await this.state.storage.put(
+      `${SESSION_STORAGE_PREFIX}${session.sessionToken}`,
+      session,
+    );
+    await this.scheduleCleanup();
+
+    return makeJsonResponse(
+      { ok: true, transportMode: this.cellTransportMode() },
+      { status: 200 },
+    );
   }
 
-  private handleSocket(_request: Request): Response {
-    const pair = new WebSocketPair();
-    const client = pair[0];
-    const server = pair[1];
-    const connectionId = uuid();
+  private learnCellId(cellId: string | null | undefined): void {
+    if (this.cellId != null || typeof cellId !== "string") {
+      return;
+    }
 
-    this.anonymousConnections.set(connectionId, {
-      id: connectionId,
-      socket: server,
-      lastSeen: Date.now(),
-    });
+    const cell = parseCellId(cellId);
 
-    server.accept();
+    if (!cell) {
+      return;
+    }
 
-    server.addEventListener("message", (event: MessageEvent) => {
-      if (typeof event.data !== "string") {
-        server.send(
-          JSON.stringify({
-            type: "error",
-            message: "Messages must be JSON string",
-          }),
-        );
-        return;
+    this.cellId = cellId;
+    this.cell = cell;
+    void this.state.storage.put(CELL_ID_STORAGE_KEY, cellId);
+
+    const world = parseWorldKey(cell.worldKey);
+
+    if (world) {
+      this.worldConfig = resolveWorldConfig(this.env, world.worldId);
+      this.proximity.setRadius(this.worldConfig.exitRadiusMeters);
+      this.peerLinks.setOptions(toPeerLinkOptions(this.worldConfig));
+    }
+  }
+
+  /**
+   * Counts connected players plus sessions prepared for other players; a
+   * player who is already here (reconnecting) never counts against the cap.
+   */
+  private isFullFor(playerId: string): boolean {
+    const cap = this.worldConfig.populationCap;
+
+    if (
+      cap == null ||
+      this.connectionsByPlayer.has(playerId) ||
+      this.suspendedByPlayer.has(playerId)
+    ) {
+      return false;
+    }
+
+    let population = this.connectionsByPlayer.size;
+
+    for (const suspendedPlayerId of this.suspendedByPlayer.keys()) {
+      if (suspendedPlayerId !== playerId) {
+        population += 1;
       }
+    }
 
-      const parsed = decodeSocketMessage(event.data);
+    for (const pendingPlayerId of this.pendingSessionsByPlayer.keys()) {
+      if (
+        pendingPlayerId !== playerId &&
+        !this.connectionsByPlayer.has(pendingPlayerId) &&
+        !this.suspendedByPlayer.has(pendingPlayerId)
+      ) {
+        population += 1;
+      }
+    }
 
-      if (parsed == null) {
-        server.send(
-          JSON.stringify({ type: "error", message: "Invalid message format" }),
-        );
-        return;
+    return population >= cap;
+  }
+
+  private async handleFederationPresence(request: Request): Promise<Response> {
+    let payload: FederationPresencePayload;
+
+    try {
+      payload = (await request.json()) as FederationPresencePayload;
+    } catch {
+      return makeJsonResponse({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    if (
+      payload == null ||
+      typeof payload !== "object" ||
+      typeof payload.fromCellId !== "string" ||
+      !Array.isArray(payload.players) ||
+      !payload.players.every(isPresenceEntry)
+    ) {
+      return makeJsonResponse({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    const expiresAt = Date.now() + REMOTE_PRESENCE_TTL_MS;
+    const incoming = new Set<string>();
+
+    for (const entry of payload.players) {
+      const blocked = new Set(entry.blocked ?? []);
+      const previous = this.remotePlayersById.get(entry.playerId)?.blocked;
+
+      if (!previous || !sameMembers(previous, blocked)) {
+        this.pendingRelinks.add(entry.playerId);
       }
 
-      this.handleSocketMessage(connectionId, parsed);
-    });
+      incoming.add(entry.playerId);
+      this.remotePlayersById.set(entry.playerId, {
+        playerId: entry.playerId,
+        cellId: payload.fromCellId,
+        position: entry.position,
+        blocked,
+        sfuTrack: entry.sfuTrack,
+        expiresAt,
+      });
+      this.syncProximityEntry(entry.playerId);
+    }
 
-    const closeConnection = () => {
-      this.handleDisconnect(connectionId);
+    for (const [playerId, remote] of this.remotePlayersById.entries()) {
+      if (
+        remote.cellId === payload.fromCellId &&
+        !incoming.has(playerId) &&
+        !remote.awaitingPresence
+      ) {
+        this.remotePlayersById.delete(playerId);
+        this.syncProximityEntry(playerId);
+      }
+    }
+
+    this.scheduleProximityRecalc();
+    this.scheduleFederationRefresh();
+
+    return makeJsonResponse({ ok: true }, { status: 200 });
+  }
+
+  private async handleFederationSignal(request: Request): Promise<Response> {
+    let payload: FederationSignalPayload;
+
+    try {
+      payload = (await request.json()) as FederationSignalPayload;
+    } catch {
+      return makeJsonResponse({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    if (
+      payload == null ||
+      typeof payload !== "object" ||
+      typeof payload.fromPlayerId !== "string" ||
+      typeof payload.targetId !== "string" ||
+      !isValidSignalPayload(payload.payload)
+    ) {
+      return makeJsonResponse({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    const target = this.connectionsByPlayer.get(payload.targetId);
+
+    if (!target) {
+      return makeJsonResponse({ delivered: false }, { status: 404 });
+    }
+
+    // The sending shard checked the same edge, but a neighbour is not trusted
+    // to: the target must still see the sender as a peer here.
+    if (!this.isRelayAllowed(payload.targetId, payload.fromPlayerId)) {
+      console.warn(
+        "[voice-worker] federated signal from non-peer rejected",
+        payload.fromPlayerId,
+        "->",
+        payload.targetId,
+      );
+      return makeJsonResponse({ delivered: false }, { status: 403 });
+    }
+
+    console.log(
+      "[voice-worker] relay federated signal",
+      payload.fromPlayerId,
+      "from",
+      payload.fromCellId,
+      "->",
+      target.playerId,
+    );
+
+    target.socket.send(
+      encodeServerMessage({
+        type: "signal",
+        from: payload.fromPlayerId,
+        payload: payload.payload,
+      }),
+    );
+
+    return makeJsonResponse({ delivered: true }, { status: 200 });
+  }
+
+  private handleSocket(
+    cellUrlBase: string | null,
+    worldKey: string | null,
+    region: RequestCf,
+  ): Response {
+    const pair = new WebSocketPair();
+    const client = pair[0];
+    const server = pair[1] as HibernatableWebSocket;
+    const connection: AnonymousConnection = {
+      id: uuid(),
+      socket: server,
+      lastSeen: Date.now(),
+      cellUrlBase,
+      worldKey,
+      region,
     };
 
-    server.addEventListener("close", closeConnection);
-    server.addEventListener("error", closeConnection);
+    this.state.acceptWebSocket(server);
+    this.anonymousConnections.set(connection.id, connection);
+    this.persistAttachment(connection);
 
     return new Response(null, {
       status: 101,
@@ -220,25 +1029,143 @@ export class WorldShard {
   ): void {
     console.log("[voice-worker] incoming", connectionId, message.type);
 
-    switch (message.type) {
-      case "register":
-        this.handleRegister(connectionId, message);
-        break;
+    if (
+      (message.type === "signal" ||
+        message.type === "position" ||
+        message.type === "resync") &&
+      !this.consumeRateLimit(connectionId, message.type)
+    ) {
+      return;
+    }
+
+    if (
+      (message.type === "sfu-publish" || message.type === "sfu-answer") &&
+      !this.consumeRateLimit(connectionId, "signal")
+    ) {
+      return;
+    }
+
+    if (
+      (message.type === "block" || message.type === "unblock") &&
+      !this.consumeRateLimit(connectionId, "block")
+    ) {
+      return;
+    }
+
+    if (
+      message.type === "moderate" &&
+      !this.consumeRateLimit(connectionId, "moderate")
+    ) {
+      return;
+    }
+
+    if (
+      message.type === "turn-credentials" &&
+      !this.consumeRateLimit(connectionId, "turn")
+    ) {
+      return;
+    }
+
+    switch (message.type) {
+      case "register":
+        this.handleRegister(connectionId, message);
+        break;
+      case "resume":
+        this.handleResume(connectionId, message);
+        break;
       case "heartbeat":
         this.handleHeartbeat(connectionId);
         break;
       case "position":
         this.handlePosition(connectionId, message);
         break;
+      case "resync":
+        this.handleResync(connectionId);
+        break;
+      case "block":
+      case "unblock":
+        this.handleBlock(connectionId, message);
+        break;
+      case "moderate":
+        void this.handleModerate(connectionId, message).catch((error) => {
+          console.warn("[voice-worker] moderation failed", error);
+          this.sendToConnection(connectionId, {
+            type: "error",
+            code: "moderation_failed",
+            message: "Moderation action failed",
+          });
+        });
+        break;
+      case "sfu-publish":
+      case "sfu-answer":
+        this.handleSfuMessage(connectionId, message);
+        break;
       case "signal":
         this.handleSignalRelay(connectionId, message);
         break;
-      default:
-        this.sendToConnection(connectionId, {
-          type: "error",
-          message: "Unknown message type",
+      case "turn-credentials":
+        void this.handleTurnCredentials(connectionId).catch((error) => {
+          console.warn("[voice-worker] TURN credentials failed", error);
+          this.sendToConnection(connectionId, {
+            type: "error",
+            code: "turn_unavailable",
+            message: "TURN credentials failed",
+          });
         });
+        break;
+    }
+  }
+  /**
+   * Drops frames beyond the connection's token bucket. The first drop in a
+   * window is reported to the client; persistent flooding closes the socket.
+   */
+  private consumeRateLimit(
+    connectionId: string,
+    kind: keyof Omit<ConnectionRateLimits, "dropped">,
+  ): boolean {
+    const now = Date.now();
+    let limits = this.rateLimitsByConnection.get(connectionId);
+
+    if (!limits) {
+      limits = {
+        signal: new TokenBucket(SIGNAL_RATE_LIMIT, now),
+        position: new TokenBucket(POSITION_RATE_LIMIT, now),
+        resync: new TokenBucket(RESYNC_RATE_LIMIT, now),
+        block: new TokenBucket(BLOCK_RATE_LIMIT, now),
+        moderate: new TokenBucket(MODERATE_RATE_LIMIT, now),
+        turn: new TokenBucket(TURN_RATE_LIMIT, now),
+      };
+      this.rateLimitsByConnection.set(connectionId, limits);
+    }
+
+    if (limits[kind].take(now)) {
+      return true;
+    }
+
+    limits.dropped = bumpWindow(limits.dropped, now, INVALID_FRAME_WINDOW_MS);
+
+    if (limits.dropped.count === 1) {
+      this.sendToConnection(connectionId, {
+        type: "error",
+        code: "rate_limited",
+        message: `Too many ${kind} messages`,
+      });
+    }
+
+    if (limits.dropped.count >= MAX_RATE_LIMITED_FRAMES) {
+      console.warn(
+        "[voice-worker] closing rate limited connection",
+        connectionId,
+        kind,
+      );
+      this.handleDisconnect(
+        connectionId,
+        CLOSE_RATE_LIMITED,
+        "Rate limit exceeded",
+      );
     }
+
+    return false;
   }
 
   private handleRegister(connectionId: string, message: RegisterMessage): void {
@@ -247,37 +1174,105 @@ export class WorldShard {
     if (!connection) {
       this.sendToConnection(connectionId, {
         type: "error",
+        code: "connection_not_found",
         message: "Connection not found",
       });
       return;
     }
 
+    if (this.rejectUnsupportedProtocol(connection, message.protocolVersion)) {
+      return;
+    }
+
     const expectedToken = this.pendingSessionsByToken.get(message.sessionToken);
 
     if (!expectedToken || expectedToken.playerId !== message.playerId) {
       connection.socket.send(
-        JSON.stringify({ type: "error", message: "Invalid session token" }),
+        socketError("invalid_session", "Invalid session token"),
+      );
+      connection.socket.close(CLOSE_INVALID_SESSION, "Invalid session token");
+      this.anonymousConnections.delete(connectionId);
+      return;
+    }
+
+    if (
+      expectedToken.worldKey != null &&
+      expectedToken.worldKey !== connection.worldKey
+    ) {
+      connection.socket.send(
+        socketError("wrong_world", "Session token belongs to another world"),
       );
-      connection.socket.close(4001, "Invalid session token");
+      connection.socket.close(CLOSE_WRONG_WORLD, "Wrong world");
       this.anonymousConnections.delete(connectionId);
       return;
     }
 
-    this.pendingSessionsByToken.delete(message.sessionToken);
-    this.pendingSessionsByPlayer.delete(message.playerId);
+    const existing = this.connectionsByPlayer.get(message.playerId);
+
+    if (existing) {
+      const existingIsLive =
+        this.lastActivity(existing) >= Date.now() - HEARTBEAT_TIMEOUT_MS;
+
+      if (this.worldConfig.sessionTakeover === "reject" && existingIsLive) {
+        console.warn(
+          "[voice-worker] duplicate registration rejected",
+          message.playerId,
+        );
+        connection.socket.send(
+          socketError("session_active", "Player is already connected"),
+        );
+        connection.socket.close(CLOSE_SESSION_ACTIVE, "Session already active");
+        this.anonymousConnections.delete(connectionId);
+        return;
+      }
+
+      console.log(
+        "[voice-worker] superseding connection",
+        message.playerId,
+        existing.id,
+        "->",
+        connectionId,
+      );
+      existing.socket.send(
+        encodeServerMessage({
+          type: "superseded",
+          message: "Player connected from another socket",
+        }),
+      );
+      this.handleDisconnect(existing.id, CLOSE_SUPERSEDED, "Superseded");
+    }
+
+    if (this.suspendedByPlayer.has(message.playerId)) {
+      // A fresh join replaces the dropped session instead of resuming it.
+      this.forgetSuspendedSession(message.playerId);
+      this.releasePlayer(message.playerId);
+    }
+
+    this.forgetPendingSession(message.sessionToken);
 
     const registeredConnection: PlayerConnection = {
       id: connectionId,
       playerId: message.playerId,
       sessionToken: message.sessionToken,
+      resumeToken: uuid(),
+      wireFormat: message.wireFormat,
+      protocolVersion: message.protocolVersion,
+      claims: expectedToken.claims,
       socket: connection.socket,
       lastSeen: Date.now(),
+      position: expectedToken.position,
+      cellUrlBase: connection.cellUrlBase,
+      region: connection.region,
     };
 
     this.anonymousConnections.delete(connectionId);
+    this.connectionsById.set(connectionId, registeredConnection);
     this.connectionsByPlayer.set(message.playerId, registeredConnection);
-    this.scheduleCleanup();
+    this.syncProximityEntry(message.playerId);
+    this.persistAttachment(registeredConnection);
+    void this.scheduleCleanup();
     this.scheduleProximityRecalc();
+    this.flushQueuedSignals(registeredConnection);
 
     console.log(
       "[voice-worker] registered",
@@ -291,166 +1286,1311 @@ export class WorldShard {
     );
 
     registeredConnection.socket.send(
-      JSON.stringify({ type: "registered", playerId: message.playerId }),
+      encodeServerMessage({
+        type: "registered",
+        playerId: message.playerId,
+        protocolVersion: PROTOCOL_VERSION,
+        resumeToken: registeredConnection.resumeToken,
+        resumeWindowMs: RESUME_GRACE_MS,
+        wireFormat: registeredConnection.wireFormat,
+        transportMode: this.cellTransportMode(),
+      }),
     );
+    this.sendBlockList(registeredConnection);
+    this.sendActiveMutes(registeredConnection);
   }
 
-  private handleHeartbeat(connectionId: string): void {
+  /** Closes sockets of clients built for a protocol this shard cannot speak. */
+  private rejectUnsupportedProtocol(
+    connection: AnonymousConnection,
+    version: number,
+  ): boolean {
+    if (isSupportedProtocolVersion(version)) {
+      return false;
+    }
+
+    console.warn(
+      "[voice-worker] unsupported protocol version",
+      version,
+      connection.id,
+    );
+    connection.socket.send(
+      socketError(
+        "unsupported_protocol",
+        `Protocol version ${version} is not supported; this server speaks ` +
+          `versions ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}. ` +
+          "Please update the client.",
+      ),
+    );
+    connection.socket.close(CLOSE_UNSUPPORTED_PROTOCOL, "Unsupported protocol");
+    this.anonymousConnections.delete(connection.id);
+    return true;
+  }
+
+  /**
+   * Moves a suspended player onto a new socket. The client gets `registered`
+   * with a fresh resume token, one `peers` message covering everything that
+   * changed while it was away, and then any signals queued for it.
+   */
+  private handleResume(connectionId: string, message: ResumeMessage): void {
+    const connection = this.anonymousConnections.get(connectionId);
+
+    if (!connection) {
+      this.sendToConnection(connectionId, {
+        type: "error",
+        code: "connection_not_found",
+        message: "Connection not found",
+      });
+      return;
+    }
+
+    if (this.rejectUnsupportedProtocol(connection, message.protocolVersion)) {
+      return;
+    }
+
+    const { playerId, resumeToken } = message;
+    const suspended = this.suspendedByPlayer.get(playerId);
+    const live = this.connectionsByPlayer.get(playerId);
+    let previous: SuspendedSession | PlayerConnection;
+    let sfu: SfuSessionState | undefined;
+
+    if (
+      suspended?.resumeToken === resumeToken &&
+      suspended.expiresAt > Date.now()
+    ) {
+      previous = suspended;
+      sfu = suspended.sfu;
+      this.forgetSuspendedSession(playerId);
+    } else if (live?.resumeToken === resumeToken) {
+      // The old socket is gone but its close has not reached the shard yet.
+      previous = live;
+      this.connectionsById.delete(live.id);
+      this.invalidFramesByConnection.delete(live.id);
+      this.rateLimitsByConnection.delete(live.id);
+      this.peerEncodersByConnection.delete(live.id);
+      this.peerStreamsByConnection.delete(live.id);
+      live.socket.close(CLOSE_SUPERSEDED, "Resumed on another socket");
+    } else {
+      connection.socket.send(
+        socketError("resume_failed", "Session cannot be resumed"),
+      );
+      connection.socket.close(CLOSE_INVALID_SESSION, "Resume failed");
+      this.anonymousConnections.delete(connectionId);
+      return;
+    }
+
+    const resumedConnection: PlayerConnection = {
+      id: connectionId,
+      playerId,
+      sessionToken: previous.sessionToken,
+      resumeToken: uuid(),
+      wireFormat: message.wireFormat,
+      protocolVersion: message.protocolVersion,
+      claims: previous.claims,
+      socket: connection.socket,
+      lastSeen: Date.now(),
+      lastPositionAt: previous.lastPositionAt,
+      position: previous.position,
+      cellUrlBase: connection.cellUrlBase,
+      region: connection.region,
+    };
+
+    this.anonymousConnections.delete(connectionId);
+    this.connectionsById.set(connectionId, resumedConnection);
+    this.connectionsByPlayer.set(playerId, resumedConnection);
+
+    // Restored only if the shard hibernated while the player was away.
+    if (sfu && !this.sfu?.has(playerId)) {
+      this.sfu?.restore(playerId, sfu);
+    }
+
+    this.persistAttachment(resumedConnection);
+    void this.scheduleCleanup();
+
+    console.log("[voice-worker] resumed", playerId, "conn", connectionId);
+
+    resumedConnection.socket.send(
+      encodeServerMessage({
+        type: "registered",
+        playerId,
+        protocolVersion: PROTOCOL_VERSION,
+        resumeToken: resumedConnection.resumeToken,
+        resumeWindowMs: RESUME_GRACE_MS,
+        resumed: true,
+        wireFormat: resumedConnection.wireFormat,
+        transportMode: this.cellTransportMode(),
+      }),
+    );
+    this.sendBlockList(resumedConnection);
+    this.sendActiveMutes(resumedConnection);
+    this.sfu?.resend(playerId);
+    // Diffs sent to the dying socket may never have arrived, so a snapshot
+    // goes out even when the shard's view has not changed.
+    this.publishPeersFor(playerId, true);
+    this.scheduleProximityRecalc();
+    this.flushQueuedSignals(resumedConnection);
+  }
+
+  /** The client missed a `peers` delta; answer with a snapshot. */
+  private handleResync(connectionId: string): void {
     const connection = this.lookupConnection(connectionId);
 
     if (!connection) {
       return;
     }
 
-    connection.lastSeen = Date.now();
+    console.log("[voice-worker] peers resync", connection.playerId);
+    this.publishPeersFor(connection.playerId, true);
   }
 
-  private handlePosition(connectionId: string, message: PositionMessage): void {
+  /**
+   * Mints ICE servers as `/join` does, so a session can outlive the TTL of
+   * the credentials it joined with.
+   */
+  private async handleTurnCredentials(connectionId: string): Promise<void> {
+    const connection = this.lookupConnection(connectionId);
+
+    if (!connection) {
+      return;
+    }
+
+    const iceServers =
+      (await resolveTurnIceServers(
+        this.env,
+        { playerId: connection.playerId },
+        { worldProvider: this.worldConfig.turnProvider, ...connection.region },
+      )) ?? getIceServers(this.env);
+    this.sendToConnection(connectionId, {
+      type: "turn-credentials",
+      iceServers,
+    });
+  }
+
+  private handleSfuMessage(
+    connectionId: string,
+    message: SfuPublishMessage | SfuAnswerMessage,
+  ): void {
     const connection = this.lookupConnection(connectionId);
 
     if (!connection) {
       return;
     }
 
+    if (!this.sfu) {
+      connection.socket.send(
+        socketError("sfu_unavailable", "This cell has no SFU configured"),
+      );
+      return;
+    }
+
+    if (this.cellTransportMode() === VoiceTransportMode.P2P) {
+      connection.socket.send(
+        socketError("sfu_unavailable", "This cell is on the mesh transport"),
+      );
+      return;
+    }
+
+    const { playerId } = connection;
+    const operation =
+      message.type === "sfu-publish"
+        ? this.sfu.publish(playerId, message.sdp, message.mid).then(() => {
+            console.log("[voice-worker] sfu published", playerId);
+            this.syncSfu();
+            this.publishPresence();
+          })
+        : this.sfu.acceptAnswer(playerId, message.sdp);
+
+    void operation.catch((error) => {
+      console.warn(`[voice-worker] ${message.type} failed`, playerId, error);
+      this.sendToConnection(connectionId, {
+        type: "error",
+        code: "sfu_unavailable",
+        message:
+          message.type === "sfu-publish"
+            ? "SFU publish failed"
+            : "SFU renegotiation failed",
+      });
+    });
+  }
+
+  /**
+   * The track a player's peers may pull: their own on this shard, or the one
+   * a neighbour announced. Muted players have none.
+   */
+  private sfuTrackFor(playerId: string): SfuTrackRef | undefined {
+    if (this.activeSanction("mute", playerId)) {
+      return undefined;
+    }
+
+    return (
+      this.sfu?.publishedTrack(playerId) ??
+      this.remotePlayersById.get(playerId)?.sfuTrack
+    );
+  }
+
+  /**
+   * The transport of a cell that picks its own, or undefined when `/join`
+   * decides from the deployment flag or world config.
+   */
+  private cellTransportMode(): VoiceTransportMode | undefined {
+    return this.worldConfig.transport === "auto" && this.sfu
+      ? this.transport.mode
+      : undefined;
+  }
+
+  /** Switches an `auto` cell between mesh and SFU as its density changes. */
+  private evaluateTransport(): void {
+    if (this.cellTransportMode() === undefined) {
+      return;
+    }
+
     const now = Date.now();
+    let largestPeerSet = 0;
 
-    if (
-      connection.lastPositionAt &&
-      now - connection.lastPositionAt < POSITION_UPDATE_MIN_INTERVAL_MS
-    ) {
-      connection.lastSeen = now;
+    for (const playerId of this.connectionsByPlayer.keys()) {
+      largestPeerSet = Math.max(
+        largestPeerSet,
+        this.peerViewByPlayer.get(playerId)?.size ?? 0,
+      );
+    }
+
+    const mode = chooseCellTransport(
+      this.transport.mode,
+      {
+        players: this.connectionsByPlayer.size + this.suspendedByPlayer.size,
+        largestPeerSet,
+      },
+      this.worldConfig,
+      now - this.transport.changedAt,
+    );
+
+    if (mode === this.transport.mode) {
       return;
     }
 
-    connection.position = message.position;
-    connection.lastSeen = now;
-    connection.lastPositionAt = now;
-    this.scheduleProximityRecalc();
+    console.log("[voice-worker] transport", this.transport.mode, "->", mode);
+    this.transport = { mode, changedAt: now };
+    void this.state.storage.put(TRANSPORT_STORAGE_KEY, this.transport);
 
-    if (!("positionsLogged" in connection)) {
-      (
-        connection as PlayerConnection & { positionsLogged: number }
-      ).positionsLogged = 0;
+    if (mode === VoiceTransportMode.P2P) {
+      void this.sfu?.clear();
     }
-    const loggedConn = connection as PlayerConnection & {
-      positionsLogged: number;
-    };
-    if (
-      loggedConn.positionsLogged < 5 ||
-      loggedConn.positionsLogged % 100 === 0
-    ) {
-      console.log(
-        "[voice-worker] position",
-        connection.playerId,
-        JSON.stringify(message.position),
-        "count",
-        loggedConn.positionsLogged + 1,
+
+    this.broadcast({ type: "transport-change", transportMode: mode });
+  }
+
+  /** Brings every connected SFU player's pulled tracks in line with peers. */
+  private syncSfu(): void {
+    if (!this.sfu) {
+      return;
+    }
+
+    for (const playerId of this.connectionsByPlayer.keys()) {
+      void this.sfu.sync(playerId);
+    }
+  }
+
+  private handleBlock(connectionId: string, message: BlockMessage): void {
+    const connection = this.lookupConnection(connectionId);
+
+    if (!connection) {
+      return;
+    }
+
+    const { playerId } = connection;
+
+    if (message.playerId === playerId) {
+      connection.socket.send(
+        socketError("invalid_block", "Players cannot block themselves"),
+      );
+      return;
+    }
+
+    const blocked = new Set(this.blockedByPlayer.get(playerId));
+
+    if (message.type === "block") {
+      if (blocked.has(message.playerId)) {
+        this.sendBlockList(connection);
+        return;
+      }
+
+      if (blocked.size >= MAX_BLOCKED_PLAYERS) {
+        connection.socket.send(
+          socketError(
+            "block_list_full",
+            `Block list is limited to ${MAX_BLOCKED_PLAYERS} players`,
+          ),
+        );
+        return;
+      }
+
+      blocked.add(message.playerId);
+    } else if (!blocked.delete(message.playerId)) {
+      this.sendBlockList(connection);
+      return;
+    }
+
+    console.log(
+      `[voice-worker] ${message.type}`,
+      playerId,
+      "->",
+      message.playerId,
+    );
+    this.blockedByPlayer.set(playerId, blocked);
+    void this.blockLists
+      .save(playerId, Array.from(blocked))
+      .catch((error) =>
+        console.warn("[voice-worker] block list save failed", playerId, error),
       );
+    this.pendingRelinks.add(playerId);
+    this.pendingRelinks.add(message.playerId);
+    this.scheduleProximityRecalc();
+    this.sendBlockList(connection);
+  }
+
+  private sendBlockList(connection: PlayerConnection): void {
+    connection.socket.send(
+      encodeServerMessage({
+        type: "block-list",
+        blocked: Array.from(
+          this.blockedByPlayer.get(connection.playerId) ?? [],
+        ),
+      }),
+    );
+  }
+
+  private rememberBlockList(playerId: string, blocked: string[]): void {
+    if (blocked.length > 0) {
+      this.blockedByPlayer.set(playerId, new Set(blocked));
+    } else {
+      this.blockedByPlayer.delete(playerId);
+    }
+  }
+
+  /** True when either player blocked the other, on this shard or a neighbour. */
+  private isBlockedPair(a: string, b: string): boolean {
+    const blockedBy = (playerId: string) =>
+      this.blockedByPlayer.get(playerId) ??
+      this.remotePlayersById.get(playerId)?.blocked;
+
+    return Boolean(blockedBy(a)?.has(b) || blockedBy(b)?.has(a));
+  }
+
+  /** Forgets lists of players who have left; they reload at `/prepare`. */
+  private pruneBlockLists(): void {
+    for (const playerId of Array.from(this.blockedByPlayer.keys())) {
+      if (
+        !this.pendingSessionsByPlayer.has(playerId) &&
+        !this.connectionsByPlayer.has(playerId) &&
+        !this.suspendedByPlayer.has(playerId)
+      ) {
+        this.blockedByPlayer.delete(playerId);
+      }
+    }
+  }
+
+  private async handleModerate(
+    connectionId: string,
+    message: ModerateMessage,
+  ): Promise<void> {
+    const moderator = this.lookupConnection(connectionId);
+
+    if (!moderator) {
+      return;
+    }
+
+    if (!isModerator(moderator.claims)) {
+      moderator.socket.send(
+        socketError("not_moderator", "Moderator role required"),
+      );
+      return;
+    }
+
+    const { action, playerId, reason } = message;
+
+    if (playerId === moderator.playerId) {
+      moderator.socket.send(
+        socketError(
+          "invalid_moderation",
+          "Moderators cannot target themselves",
+        ),
+      );
+      return;
+    }
+
+    const now = Date.now();
+    let expiresAt: number | undefined;
+
+    switch (action) {
+      case "mute":
+      case "ban": {
+        expiresAt = now + sanctionDuration(action, message.durationMs);
+        const sanction: Sanction = {
+          playerId,
+          moderatorId: moderator.playerId,
+          expiresAt,
+          reason,
+        };
+        this.sanctions[action].set(playerId, sanction);
+        await this.moderation.putSanction(action, sanction);
+        break;
+      }
+      case "unmute":
+      case "unban": {
+        const kind = action === "unmute" ? "mute" : "ban";
+
+        if (!this.sanctions[kind].delete(playerId)) {
+          moderator.socket.send(
+            socketError(
+              "invalid_moderation",
+              kind === "mute" ? "Player is not muted" : "Player is not banned",
+            ),
+          );
+          return;
+        }
+
+        await this.moderation.deleteSanction(kind, playerId);
+        break;
+      }
+      case "kick":
+        if (
+          !this.connectionsByPlayer.has(playerId) &&
+          !this.suspendedByPlayer.has(playerId)
+        ) {
+          moderator.socket.send(
+            socketError("invalid_moderation", "Player is not in this cell"),
+          );
+          return;
+        }
+        break;
+    }
+
+    console.log(
+      `[voice-worker] moderation ${action}`,
+      playerId,
+      "by",
+      moderator.playerId,
+    );
+    await this.moderation.appendAudit({
+      at: now,
+      moderatorId: moderator.playerId,
+      action,
+      playerId,
+      reason,
+      expiresAt,
+    });
+
+    if (action !== "unban") {
+      this.broadcast({
+        type: "moderation",
+        action,
+        playerId,
+        reason,
+        expiresAt,
+      });
+    }
+
+    if (action === "kick" || action === "ban") {
+      this.removePlayer(playerId, action === "ban" ? "Banned" : "Kicked");
+    }
+
+    if (action === "mute" || action === "unmute") {
+      this.syncSfu();
+      this.publishPresence();
+    }
+
+    void this.scheduleCleanup();
+  }
+
+  /** Ends every session the player has here; a kicked socket may not resume. */
+  private removePlayer(playerId: string, reason: string): void {
+    const pendingToken = this.pendingSessionsByPlayer.get(playerId);
+
+    if (pendingToken) {
+      this.forgetPendingSession(pendingToken);
+    }
+
+    const connection = this.connectionsByPlayer.get(playerId);
+
+    if (connection) {
+      this.handleDisconnect(connection.id, CLOSE_KICKED, reason);
+    } else if (this.suspendedByPlayer.has(playerId)) {
+      this.forgetSuspendedSession(playerId);
+      this.releasePlayer(playerId);
+    }
+  }
+
+  private activeSanction(
+    kind: SanctionKind,
+    playerId: string,
+  ): Sanction | undefined {
+    const sanction = this.sanctions[kind].get(playerId);
+
+    return sanction && sanction.expiresAt > Date.now() ? sanction : undefined;
+  }
+
+  private sendActiveMutes(connection: PlayerConnection): void {
+    for (const mute of this.sanctions.mute.values()) {
+      if (mute.expiresAt > Date.now()) {
+        connection.socket.send(
+          encodeServerMessage({
+            type: "moderation",
+            action: "mute",
+            playerId: mute.playerId,
+            reason: mute.reason,
+            expiresAt: mute.expiresAt,
+          }),
+        );
+      }
+    }
+  }
+
+  /** Lifts lapsed mutes and bans; clients hear about each mute that ends. */
+  private pruneSanctions(): void {
+    const now = Date.now();
+    let unmuted = false;
+
+    for (const kind of ["mute", "ban"] as const) {
+      for (const [playerId, sanction] of Array.from(this.sanctions[kind])) {
+        if (sanction.expiresAt > now) {
+          continue;
+        }
+
+        this.sanctions[kind].delete(playerId);
+        void this.moderation.deleteSanction(kind, playerId);
+
+        if (kind === "mute") {
+          this.broadcast({ type: "moderation", action: "unmute", playerId });
+          unmuted = true;
+        }
+      }
+    }
+
+    if (unmuted) {
+      this.syncSfu();
+      this.publishPresence();
+    }
+  }
+
+  private broadcast(message: CellServerMessage): void {
+    const encoded = encodeServerMessage(message);
+
+    for (const connection of this.connectionsByPlayer.values()) {
+      connection.socket.send(encoded);
+    }
+  }
+
+  private handleHeartbeat(connectionId: string): void {
+    const connection = this.lookupConnection(connectionId);
+
+    if (!connection) {
+      return;
+    }
+
+    connection.lastSeen = Date.now();
+    this.persistAttachment(connection);
+  }
+
+  private handlePosition(connectionId: string, message: PositionMessage): void {
+    const connection = this.lookupConnection(connectionId);
+
+    if (!connection) {
+      return;
+    }
+
+    const now = Date.now();
+
+    if (
+      connection.lastPositionAt &&
+      now - connection.lastPositionAt < POSITION_UPDATE_MIN_INTERVAL_MS
+    ) {
+      connection.lastSeen = now;
+      return;
+    }
+
+    connection.position = message.position;
+    connection.lastSeen = now;
+    connection.lastPositionAt = now;
+    this.syncProximityEntry(connection.playerId);
+    this.scheduleProximityRecalc();
+    this.checkCellExit(connection);
+    this.persistAttachment(connection);
+
+    if (!("positionsLogged" in connection)) {
+      (
+        connection as PlayerConnection & { positionsLogged: number }
+      ).positionsLogged = 0;
+    }
+    const loggedConn = connection as PlayerConnection & {
+      positionsLogged: number;
+    };
+    if (
+      loggedConn.positionsLogged < 5 ||
+      loggedConn.positionsLogged % 100 === 0
+    ) {
+      console.log(
+        "[voice-worker] position",
+        connection.playerId,
+        JSON.stringify(message.position),
+        "count",
+        loggedConn.positionsLogged + 1,
+      );
+    }
+    loggedConn.positionsLogged += 1;
+  }
+
+  /**
+   * Hands a player over to the cell they walked into once they are more than
+   * CELL_EXIT_MARGIN_METERS outside this cell. The destination session is
+   * prepared here so the client can connect to it before leaving this shard.
+   */
+  private checkCellExit(connection: PlayerConnection): void {
+    if (!this.cell || !connection.position) {
+      return;
+    }
+
+    const now = Date.now();
+    const { migration } = connection;
+
+    if (migration && now - migration.startedAt < MIGRATION_RETRY_MS) {
+      return;
+    }
+
+    if (
+      distanceToCell(
+        connection.position,
+        this.cell,
+        this.worldConfig.cellSizeMeters,
+      ) <= CELL_EXIT_MARGIN_METERS
+    ) {
+      connection.migration = undefined;
+      return;
+    }
+
+    const destinationCellId = deriveCellId(
+      this.cell.worldKey,
+      connection.position,
+      this.worldConfig.cellSizeMeters,
+    );
+
+    if (destinationCellId === this.cellId) {
+      return;
+    }
+
+    connection.migration = { cellId: destinationCellId, startedAt: now };
+    void this.startMigration(connection, destinationCellId);
+  }
+
+  private async startMigration(
+    connection: PlayerConnection,
+    destinationCellId: string,
+  ): Promise<void> {
+    if (!connection.cellUrlBase) {
+      console.warn(
+        "[voice-worker] cannot migrate without cell url base",
+        connection.playerId,
+      );
+      return;
+    }
+
+    const sessionToken = uuid();
+    const body: PrepareSessionPayload = {
+      playerId: connection.playerId,
+      sessionToken,
+      claims: connection.claims,
+      cellId: destinationCellId,
+      blocked: Array.from(this.blockedByPlayer.get(connection.playerId) ?? []),
+      position: connection.position,
+    };
+
+    try {
+      const response = await this.neighbourStub(destinationCellId).fetch(
+        "https://worldshard.internal/prepare",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+
+      if (!response.ok) {
+        throw new Error(`prepare returned ${response.status}`);
+      }
+    } catch (error) {
+      console.error(
+        "[voice-worker] migration prepare failed",
+        connection.playerId,
+        destinationCellId,
+        error,
+      );
+      return;
+    }
+
+    if (this.connectionsByPlayer.get(connection.playerId) !== connection) {
+      return;
+    }
+
+    console.log(
+      "[voice-worker] migrate",
+      connection.playerId,
+      this.cellId,
+      "->",
+      destinationCellId,
+    );
+
+    if (connection.migration?.cellId === destinationCellId) {
+      connection.migration.prepared = true;
+      this.persistAttachment(connection);
+    }
+
+    connection.socket.send(
+      encodeServerMessage({
+        type: "migrate",
+        cellId: destinationCellId,
+        cellWebSocketUrl: `${connection.cellUrlBase}${destinationCellId}`,
+        sessionToken,
+      }),
+    );
+  }
+
+  private handleSignalRelay(
+    connectionId: string,
+    message: RelaySignalMessage,
+  ): void {
+    console.log("[voice-worker] handle signal relay");
+    const source = this.lookupConnection(connectionId);
+
+    if (!source) {
+      console.log(
+        "[voice-worker] signal source missing",
+        connectionId,
+        "target",
+        message.targetId,
+      );
+      return;
+    }
+
+    if (!this.isRelayAllowed(source.playerId, message.targetId)) {
+      console.warn(
+        "[voice-worker] signal to non-peer rejected",
+        source.playerId,
+        "->",
+        message.targetId,
+      );
+      if (message.signalId) {
+        this.reportSignalFailure(
+          source,
+          message.targetId,
+          message.signalId,
+          "signal_not_permitted",
+        );
+      } else {
+        source.socket.send(
+          socketError("signal_not_permitted", "Target is not a proximity peer"),
+        );
+      }
+      return;
+    }
+
+    // A muted player may still negotiate to listen, but not to be heard,
+    // whether they offer or answer.
+    if (
+      (message.payload.type === "offer" || message.payload.type === "answer") &&
+      this.activeSanction("mute", source.playerId) &&
+      sdpSendsAudio(message.payload.sdp)
+    ) {
+      console.warn(
+        `[voice-worker] audio ${message.payload.type} from muted player rejected`,
+        source.playerId,
+      );
+      this.reportSignalFailure(
+        source,
+        message.targetId,
+        message.signalId,
+        "muted",
+      );
+      return;
+    }
+
+    const target = this.connectionsByPlayer.get(message.targetId);
+    const remoteTarget = target
+      ? undefined
+      : this.remotePlayersById.get(message.targetId);
+
+    if (remoteTarget) {
+      void this.relaySignalToNeighbour(source, remoteTarget, message);
+      return;
+    }
+
+    if (!target) {
+      console.log(
+        "[voice-worker] signal target missing",
+        source.playerId,
+        "->",
+        message.targetId,
+        message.payload && (message.payload as { type?: string }).type,
+        "active",
+        Array.from(this.connectionsByPlayer.keys()),
+      );
+      this.enqueueSignal(source, message);
+      return;
+    }
+
+    console.log(
+      "[voice-worker] signal relay attempt",
+      source.playerId,
+      "->",
+      target.playerId,
+      "payload",
+      message.payload && (message.payload as { type?: string }).type,
+      "lastSeen",
+      {
+        src: source.lastSeen,
+        tgt: target.lastSeen,
+      },
+    );
+
+    console.log(
+      "[voice-worker] relay signal",
+      source.playerId,
+      "->",
+      target.playerId,
+      message.payload && (message.payload as { type?: string }).type,
+    );
+
+    target.socket.send(
+      encodeServerMessage({
+        type: "signal",
+        from: source.playerId,
+        payload: message.payload,
+      }),
+    );
+    this.sendSignalAck(source, message.signalId, "delivered");
+  }
+
+  /**
+   * Holds a signal for a peer that is between sockets (reconnecting or not
+   * registered yet) until it registers here or the TTL runs out.
+   */
+  private enqueueSignal(
+    source: PlayerConnection,
+    message: RelaySignalMessage,
+  ): void {
+    const now = Date.now();
+    const queue = (
+      this.queuedSignalsByTarget.get(message.targetId) ?? []
+    ).filter((signal) => now - signal.queuedAt < SIGNAL_QUEUE_TTL_MS);
+
+    if (queue.length >= MAX_QUEUED_SIGNALS_PER_TARGET) {
+      this.reportSignalFailure(
+        source,
+        message.targetId,
+        message.signalId,
+        "queue_full",
+      );
+      return;
+    }
+
+    queue.push({
+      fromPlayerId: source.playerId,
+      sourceConnectionId: source.id,
+      signalId: message.signalId,
+      payload: message.payload,
+      queuedAt: now,
+    });
+    this.queuedSignalsByTarget.set(message.targetId, queue);
+    this.sendSignalAck(source, message.signalId, "queued");
+    this.scheduleSignalQueueExpiry();
+  }
+
+  private flushQueuedSignals(target: PlayerConnection): void {
+    const queue = this.queuedSignalsByTarget.get(target.playerId);
+
+    if (!queue) {
+      return;
+    }
+
+    this.queuedSignalsByTarget.delete(target.playerId);
+    const now = Date.now();
+
+    for (const signal of queue) {
+      const source = this.lookupConnection(signal.sourceConnectionId);
+
+      if (now - signal.queuedAt >= SIGNAL_QUEUE_TTL_MS) {
+        if (source) {
+          this.reportSignalFailure(
+            source,
+            target.playerId,
+            signal.signalId,
+            "expired",
+          );
+        }
+        continue;
+      }
+
+      target.socket.send(
+        encodeServerMessage({
+          type: "signal",
+          from: signal.fromPlayerId,
+          payload: signal.payload,
+        }),
+      );
+
+      if (source) {
+        this.sendSignalAck(source, signal.signalId, "delivered");
+      }
+    }
+
+    console.log(
+      "[voice-worker] flushed queued signals",
+      target.playerId,
+      queue.length,
+    );
+  }
+
+  private expireQueuedSignals(): void {
+    const now = Date.now();
+
+    for (const [targetId, queue] of Array.from(this.queuedSignalsByTarget)) {
+      const live: QueuedSignal[] = [];
+
+      for (const signal of queue) {
+        if (now - signal.queuedAt < SIGNAL_QUEUE_TTL_MS) {
+          live.push(signal);
+          continue;
+        }
+
+        const source = this.lookupConnection(signal.sourceConnectionId);
+
+        if (source) {
+          this.reportSignalFailure(
+            source,
+            targetId,
+            signal.signalId,
+            "expired",
+          );
+        }
+      }
+
+      if (live.length > 0) {
+        this.queuedSignalsByTarget.set(targetId, live);
+      } else {
+        this.queuedSignalsByTarget.delete(targetId);
+      }
+    }
+
+    this.scheduleSignalQueueExpiry();
+  }
+
+  private scheduleSignalQueueExpiry(): void {
+    if (this.signalQueueTimer != null) {
+      return;
+    }
+
+    let oldest: number | null = null;
+
+    for (const queue of this.queuedSignalsByTarget.values()) {
+      for (const signal of queue) {
+        oldest =
+          oldest === null ? signal.queuedAt : Math.min(oldest, signal.queuedAt);
+      }
+    }
+
+    if (oldest === null) {
+      return;
+    }
+
+    this.signalQueueTimer = setTimeout(
+      () => {
+        this.signalQueueTimer = null;
+        this.expireQueuedSignals();
+      },
+      Math.max(0, oldest + SIGNAL_QUEUE_TTL_MS - Date.now()),
+    );
+  }
+
+  private sendSignalAck(
+    source: PlayerConnection,
+    signalId: string | undefined,
+    status: "delivered" | "queued",
+  ): void {
+    if (!signalId || this.lookupConnection(source.id) !== source) {
+      return;
+    }
+
+    source.socket.send(
+      encodeServerMessage({ type: "signal-ack", signalId, status }),
+    );
+  }
+
+  /**
+   * Clients that tag signals with an id get a `signal-ack`; older clients
+   * get the untagged `signal-delivery-failed`.
+   */
+  private reportSignalFailure(
+    source: PlayerConnection,
+    targetId: string,
+    signalId: string | undefined,
+    reason: SignalFailureReason,
+  ): void {
+    if (this.lookupConnection(source.id) !== source) {
+      return;
+    }
+
+    if (signalId) {
+      source.socket.send(
+        encodeServerMessage({
+          type: "signal-ack",
+          signalId,
+          status: "failed",
+          reason,
+        }),
+      );
+      return;
+    }
+
+    source.socket.send(
+      encodeServerMessage({ type: "signal-delivery-failed", targetId }),
+    );
+  }
+
+  /**
+   * Signals only travel along edges the source was told about, plus a grace
+   * window after removal so both sides can tear the connection down.
+   */
+  private isRelayAllowed(sourceId: string, targetId: string): boolean {
+    if (this.isBlockedPair(sourceId, targetId)) {
+      return false;
+    }
+
+    if (this.peerViewByPlayer.get(sourceId)?.has(targetId)) {
+      return true;
+    }
+
+    const removed = this.removedPeersByPlayer.get(sourceId);
+    const removedAt = removed?.get(targetId);
+
+    if (removedAt === undefined) {
+      return false;
+    }
+
+    if (Date.now() - removedAt <= PEER_RELAY_GRACE_MS) {
+      return true;
+    }
+
+    removed?.delete(targetId);
+
+    return false;
+  }
+
+  private async relaySignalToNeighbour(
+    source: PlayerConnection,
+    target: RemotePlayer,
+    message: RelaySignalMessage,
+  ): Promise<void> {
+    const body: FederationSignalPayload = {
+      fromCellId: this.cellId ?? "",
+      fromPlayerId: source.playerId,
+      targetId: target.playerId,
+      payload: message.payload,
+    };
+    let delivered = false;
+
+    try {
+      const response = await this.neighbourStub(target.cellId).fetch(
+        "https://worldshard.internal/federation/signal",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+      delivered = response.ok;
+    } catch (error) {
+      console.error(
+        "[voice-worker] federated signal failed",
+        target.cellId,
+        error,
+      );
+    }
+
+    console.log(
+      "[voice-worker] relay signal to neighbour",
+      source.playerId,
+      "->",
+      target.playerId,
+      "cell",
+      target.cellId,
+      "delivered",
+      delivered,
+    );
+
+    if (delivered) {
+      this.sendSignalAck(source, message.signalId, "delivered");
+    } else {
+      this.reportSignalFailure(
+        source,
+        message.targetId,
+        message.signalId,
+        "unreachable",
+      );
+    }
+  }
+
+  private handleDisconnect(
+    connectionId: string,
+    closeCode = 1001,
+    closeReason = "Connection closed",
+  ): void {
+    this.invalidFramesByConnection.delete(connectionId);
+    this.rateLimitsByConnection.delete(connectionId);
+    this.peerEncodersByConnection.delete(connectionId);
+    this.peerStreamsByConnection.delete(connectionId);
+
+    const anonymous = this.anonymousConnections.get(connectionId);
+
+    if (anonymous) {
+      this.anonymousConnections.delete(connectionId);
+      anonymous.socket.close(closeCode, closeReason);
+      return;
+    }
+
+    const connection = this.connectionsById.get(connectionId);
+
+    if (!connection) {
+      return;
     }
-    loggedConn.positionsLogged += 1;
+
+    this.connectionsById.delete(connectionId);
+    connection.socket.close(closeCode, closeReason);
+
+    const { playerId } = connection;
+
+    // A superseded socket no longer owns the player's state.
+    if (this.connectionsByPlayer.get(playerId) !== connection) {
+      return;
+    }
+
+    this.connectionsByPlayer.delete(playerId);
+    this.holdMigratedPlayer(connection);
+    this.releasePlayer(playerId);
   }
 
-  private handleSignalRelay(
-    connectionId: string,
-    message: RelaySignalMessage,
-  ): void {
-    console.log("[voice-worker] handle signal relay");
-    const source = this.lookupConnection(connectionId);
+  /**
+   * Keeps a player who left for a neighbouring cell in the proximity index as
+   * a remote player of that cell until its presence lists them, so peers here
+   * do not see them removed and re-added between the two shards' views.
+   */
+  private holdMigratedPlayer(connection: PlayerConnection): void {
+    const { playerId, position, migration } = connection;
 
-    if (!source) {
-      console.log(
-        "[voice-worker] signal source missing",
-        connectionId,
-        "target",
-        message.targetId,
-      );
+    if (
+      !migration?.prepared ||
+      !position ||
+      this.remotePlayersById.has(playerId)
+    ) {
       return;
     }
 
-    const target = this.connectionsByPlayer.get(message.targetId);
+    this.remotePlayersById.set(playerId, {
+      playerId,
+      cellId: migration.cellId,
+      position,
+      blocked: new Set(this.blockedByPlayer.get(playerId) ?? []),
+      expiresAt: Date.now() + REMOTE_PRESENCE_TTL_MS,
+      awaitingPresence: true,
+    });
+    this.scheduleFederationRefresh();
+  }
 
-    if (!target) {
-      console.log(
-        "[voice-worker] signal target missing",
-        source.playerId,
-        "->",
-        message.targetId,
-        message.payload && (message.payload as { type?: string }).type,
-        "active",
-        Array.from(this.connectionsByPlayer.keys()),
-      );
-      source.socket.send(
-        JSON.stringify({
-          type: "signal-delivery-failed",
-          targetId: message.targetId,
-        }),
-      );
+  /**
+   * Detaches a player whose socket dropped. Everything but the socket stays
+   * in place for `RESUME_GRACE_MS`: other players keep them as a peer and
+   * signals for them are queued.
+   */
+  private suspendConnection(connectionId: string): void {
+    const connection = this.connectionsById.get(connectionId);
+
+    if (
+      !connection ||
+      this.connectionsByPlayer.get(connection.playerId) !== connection
+    ) {
+      this.handleDisconnect(connectionId);
       return;
     }
 
-    console.log(
-      "[voice-worker] signal relay attempt",
-      source.playerId,
-      "->",
-      target.playerId,
-      "payload",
-      message.payload && (message.payload as { type?: string }).type,
-      "lastSeen",
-      {
-        src: source.lastSeen,
-        tgt: target.lastSeen,
-      },
-    );
+    const { playerId } = connection;
+    const session: SuspendedSession = {
+      playerId,
+      sessionToken: connection.sessionToken,
+      resumeToken: connection.resumeToken,
+      claims: connection.claims,
+      position: connection.position,
+      lastPositionAt: connection.lastPositionAt,
+      peers: Array.from(this.peerViewByPlayer.get(playerId) ?? []),
+      sfu: this.sfu?.snapshot(playerId),
+      expiresAt: Date.now() + RESUME_GRACE_MS,
+    };
 
-    console.log(
-      "[voice-worker] relay signal",
-      source.playerId,
-      "->",
-      target.playerId,
-      message.payload && (message.payload as { type?: string }).type,
+    this.invalidFramesByConnection.delete(connectionId);
+    this.rateLimitsByConnection.delete(connectionId);
+    this.peerEncodersByConnection.delete(connectionId);
+    this.peerStreamsByConnection.delete(connectionId);
+    this.connectionsById.delete(connectionId);
+    this.connectionsByPlayer.delete(playerId);
+    connection.socket.close(1001, "Connection closed");
+
+    this.suspendedByPlayer.set(playerId, session);
+    void this.state.storage.put(
+      `${SUSPENDED_STORAGE_PREFIX}${playerId}`,
+      session,
     );
+    void this.scheduleCleanup();
 
-    target.socket.send(
-      JSON.stringify({
-        type: "signal",
-        from: source.playerId,
-        payload: message.payload,
-      }),
-    );
+    console.log("[voice-worker] suspended", playerId, "conn", connectionId);
   }
 
-  private handleDisconnect(connectionId: string): void {
-    if (this.anonymousConnections.delete(connectionId)) {
-      return;
+  private forgetSuspendedSession(playerId: string): void {
+    if (this.suspendedByPlayer.delete(playerId)) {
+      void this.state.storage.delete(`${SUSPENDED_STORAGE_PREFIX}${playerId}`);
     }
+  }
 
-    for (const [playerId, connection] of this.connectionsByPlayer.entries()) {
-      if (connection.id === connectionId) {
-        this.connectionsByPlayer.delete(playerId);
-        connection.socket.close(1001, "Connection closed");
-        this.peerViewByPlayer.delete(playerId);
-        this.peerDistancesByPlayer.delete(playerId);
-        this.scheduleProximityRecalc();
-        break;
+  private pruneSuspendedSessions(): void {
+    const now = Date.now();
+
+    for (const [playerId, session] of Array.from(this.suspendedByPlayer)) {
+      if (session.expiresAt <= now) {
+        console.log("[voice-worker] suspended session expired", playerId);
+        this.forgetSuspendedSession(playerId);
+        this.releasePlayer(playerId);
       }
     }
   }
 
-  private lookupConnection(connectionId: string): PlayerConnection | undefined {
-    for (const connection of this.connectionsByPlayer.values()) {
-      if (connection.id === connectionId) {
-        return connection;
-      }
-    }
+  /** Drops the peer state of a player who no longer has a live socket. */
+  private releasePlayer(playerId: string): void {
+    void this.sfu?.remove(playerId);
+    this.peerViewByPlayer.delete(playerId);
+    this.peerDistancesByPlayer.delete(playerId);
+    this.removedPeersByPlayer.delete(playerId);
+    this.syncProximityEntry(playerId);
+    this.scheduleProximityRecalc();
+  }
 
-    return undefined;
+  /** Only the current socket of each player resolves; stale ones do not. */
+  private lookupConnection(connectionId: string): PlayerConnection | undefined {
+    return this.connectionsById.get(connectionId);
   }
 
-  private sendToConnection(connectionId: string, payload: unknown): void {
+  private sendToConnection(
+    connectionId: string,
+    payload: CellServerMessage,
+  ): void {
     const anon = this.anonymousConnections.get(connectionId);
 
     if (anon) {
-      anon.socket.send(JSON.stringify(payload));
+      anon.socket.send(encodeServerMessage(payload));
       return;
     }
 
@@ -460,7 +2600,7 @@ export class WorldShard {
       return;
     }
 
-    connection.socket.send(JSON.stringify(payload));
+    connection.socket.send(encodeServerMessage(payload));
   }
 
   private pruneExpiredSessions(): void {
@@ -468,38 +2608,104 @@ export class WorldShard {
 
     for (const [token, session] of this.pendingSessionsByToken.entries()) {
       if (session.createdAt < threshold) {
-        this.pendingSessionsByToken.delete(token);
+        this.forgetPendingSession(token);
+      }
+    }
+  }
 
-        const currentToken = this.pendingSessionsByPlayer.get(session.playerId);
+  private forgetPendingSession(token: string): void {
+    const session = this.pendingSessionsByToken.get(token);
 
-        if (currentToken === token) {
-          this.pendingSessionsByPlayer.delete(session.playerId);
-        }
-      }
+    if (!session) {
+      return;
+    }
+
+    this.pendingSessionsByToken.delete(token);
+
+    if (this.pendingSessionsByPlayer.get(session.playerId) === token) {
+      this.pendingSessionsByPlayer.delete(session.playerId);
+    }
+
+    void this.state.storage.delete(`${SESSION_STORAGE_PREFIX}${token}`);
+  }
+
+  private persistAttachment(
+    connection: PlayerConnection | AnonymousConnection,
+  ): void {
+    const attachment: SocketAttachment = {
+      connectionId: connection.id,
+      cellUrlBase: connection.cellUrlBase,
+      worldKey: "worldKey" in connection ? connection.worldKey : null,
+      region: connection.region,
+      lastSeen: connection.lastSeen,
+    };
+
+    if ("playerId" in connection) {
+      attachment.player = {
+        playerId: connection.playerId,
+        sessionToken: connection.sessionToken,
+        resumeToken: connection.resumeToken,
+        wireFormat: connection.wireFormat,
+        protocolVersion: connection.protocolVersion,
+        claims: connection.claims,
+        position: connection.position,
+        lastPositionAt: connection.lastPositionAt,
+        migration: connection.migration,
+        peers: Array.from(this.peerViewByPlayer.get(connection.playerId) ?? []),
+        sfu: this.sfu?.snapshot(connection.playerId),
+      };
     }
+
+    connection.socket.serializeAttachment(attachment);
+  }
+
+  /** Heartbeats are auto-answered, so the runtime tracks when they arrived. */
+  private lastActivity(connection: PlayerConnection): number {
+    const heartbeatAt = this.state
+      .getWebSocketAutoResponseTimestamp(connection.socket)
+      ?.getTime();
+
+    return Math.max(connection.lastSeen, heartbeatAt ?? 0);
   }
 
   private pruneInactiveConnections(): void {
     const threshold = Date.now() - HEARTBEAT_TIMEOUT_MS;
     for (const connection of Array.from(this.connectionsByPlayer.values())) {
-      if (connection.lastSeen < threshold) {
+      if (this.lastActivity(connection) < threshold) {
         this.handleDisconnect(connection.id);
       }
     }
   }
 
-  private scheduleCleanup(): void {
-    if (this.cleanupTimer != null) {
+  private async scheduleCleanup(): Promise<void> {
+    // Read first: concurrent calls then all compare against the same state.
+    const scheduled = await this.state.storage.getAlarm();
+    const federationAt = this.nextFederationRefreshAt();
+    this.federationRefreshAt = federationAt;
+    let dueAt =
+      this.connectionsByPlayer.size > 0 || this.pendingSessionsByToken.size > 0
+        ? Date.now() + HEARTBEAT_TIMEOUT_MS
+        : Infinity;
+
+    // Suspended sessions expire on time rather than on the next sweep, and
+    // so do mutes, whose end every client is told about.
+    for (const session of this.suspendedByPlayer.values()) {
+      dueAt = Math.min(dueAt, session.expiresAt);
+    }
+
+    for (const mute of this.sanctions.mute.values()) {
+      dueAt = Math.min(dueAt, mute.expiresAt);
+    }
+
+    dueAt = Math.min(dueAt, federationAt ?? Infinity);
+
+    if (dueAt === Infinity) {
       return;
     }
 
-    this.cleanupTimer = setTimeout(() => {
-      this.cleanupTimer = null;
-      this.pruneInactiveConnections();
-      if (this.connectionsByPlayer.size > 0) {
-        this.scheduleCleanup();
-      }
-    }, HEARTBEAT_TIMEOUT_MS);
+    if (scheduled == null || scheduled > dueAt) {
+      await this.state.storage.setAlarm(dueAt);
+    }
   }
 
   private scheduleProximityRecalc(): void {
@@ -513,39 +2719,304 @@ export class WorldShard {
     }, PROXIMITY_DEBOUNCE_MS);
   }
 
+  /**
+   * Mirrors the authoritative position of a player into the proximity index:
+   * local connections and suspended sessions win over remote presence for the
+   * same id.
+   */
+  private syncProximityEntry(playerId: string): void {
+    const position =
+      this.connectionsByPlayer.get(playerId)?.position ??
+      this.suspendedByPlayer.get(playerId)?.position ??
+      this.remotePlayersById.get(playerId)?.position;
+
+    if (position) {
+      this.proximity.upsert(playerId, position);
+    } else {
+      this.proximity.remove(playerId);
+    }
+  }
+
   private recalculateProximities(): void {
-    const players = Array.from(this.connectionsByPlayer.values());
-
-    for (const player of players) {
-      const peers = new Set<string>();
-      const distances: Record<string, number> = {};
-      const positions: Record<string, Vector3> = {};
-
-      if (player.position) {
-        for (const other of players) {
-          if (other.playerId === player.playerId || !other.position) {
-            continue;
-          }
-
-          const distance = distanceBetween(player.position, other.position);
-
-          if (distance <= PROXIMITY_RADIUS_METERS) {
-            peers.add(other.playerId);
-            distances[other.playerId] = distance;
-            positions[other.playerId] = other.position;
-          }
+    this.pruneExpiredRemotePlayers();
+
+    const moved = this.proximity.flush();
+    const relinked = this.peerLinks.update(
+      this.proximity,
+      [...this.proximity.lastMoved(), ...this.pendingRelinks],
+      Date.now(),
+    );
+    this.pendingRelinks.clear();
+
+    // Suspended players are skipped, so their last sent view is kept for
+    // the diff replayed on resume.
+    for (const playerId of new Set([...moved, ...relinked])) {
+      this.publishPeersFor(playerId);
+    }
+
+    this.scheduleLinkReview();
+    this.evaluateTransport();
+    this.syncSfu();
+    this.publishPresence();
+  }
+
+  private publishPeersFor(playerId: string, snapshot = false): void {
+    const ownPosition = this.proximity.getPosition(playerId);
+
+    if (!this.connectionsByPlayer.has(playerId) || !ownPosition) {
+      return;
+    }
+
+    const peers = new Set<string>();
+    const distances: Record<string, number> = {};
+    const positions: Record<string, Vector3> = {};
+
+    for (const peerId of this.peerLinks.getPeers(playerId)) {
+      const position = this.proximity.getPosition(peerId);
+
+      if (!position) {
+        continue;
+      }
+
+      peers.add(peerId);
+      distances[peerId] = distanceBetween(ownPosition, position);
+      positions[peerId] = position;
+    }
+
+    this.publishPeerDiff(playerId, peers, distances, positions, snapshot);
+  }
+
+  /** Wakes up when a link held open only by its dwell time may be dropped. */
+  private scheduleLinkReview(): void {
+    if (this.linkReviewTimer != null) {
+      clearTimeout(this.linkReviewTimer);
+      this.linkReviewTimer = null;
+    }
+
+    const reviewAt = this.peerLinks.nextReviewAt();
+
+    if (reviewAt === null) {
+      return;
+    }
+
+    this.linkReviewTimer = setTimeout(
+      () => {
+        this.linkReviewTimer = null;
+        this.scheduleProximityRecalc();
+      },
+      Math.max(0, reviewAt - Date.now()),
+    );
+  }
+
+  private pruneExpiredRemotePlayers(): boolean {
+    const now = Date.now();
+    let pruned = false;
+
+    for (const [playerId, remote] of this.remotePlayersById.entries()) {
+      if (remote.expiresAt <= now) {
+        this.remotePlayersById.delete(playerId);
+        this.syncProximityEntry(playerId);
+        pruned = true;
+      }
+    }
+
+    return pruned;
+  }
+
+  private neighbourStub(cellId: string) {
+    return this.env.WORLD_SHARD.get(this.env.WORLD_SHARD.idFromName(cellId));
+  }
+
+  /**
+   * Pushes the positions of local players within proximity range of each
+   * neighbouring cell's border, so that shard can pair them with its own
+   * players. Unchanged sets are only re-sent to refresh the remote TTL.
+   */
+  private publishPresence(force = false): void {
+    if (!this.cell || !this.cellId) {
+      return;
+    }
+
+    const now = Date.now();
+    const players: { playerId: string; position?: Vector3 }[] = [
+      ...this.connectionsByPlayer.values(),
+      ...this.suspendedByPlayer.values(),
+    ];
+
+    for (const neighbourId of neighbourCellIds(this.cell)) {
+      const neighbour = parseCellId(neighbourId);
+
+      if (!neighbour) {
+        continue;
+      }
+
+      const entries: PresenceEntry[] = [];
+
+      for (const player of players) {
+        if (
+          player.position &&
+          distanceToCell(
+            player.position,
+            neighbour,
+            this.worldConfig.cellSizeMeters,
+          ) <= this.worldConfig.exitRadiusMeters
+        ) {
+          const blocked = this.blockedByPlayer.get(player.playerId);
+
+          entries.push({
+            playerId: player.playerId,
+            position: player.position,
+            blocked: blocked?.size ? Array.from(blocked).sort() : undefined,
+            sfuTrack: this.activeSanction("mute", player.playerId)
+              ? undefined
+              : this.sfu?.publishedTrack(player.playerId),
+          });
         }
       }
 
-      this.publishPeerDiff(player.playerId, peers, distances, positions);
+      const previous = this.lastPresenceByNeighbour.get(neighbourId);
+
+      if (!previous && entries.length === 0) {
+        continue;
+      }
+
+      const signature = presenceSignature(entries);
+      const stale = !previous || now - previous.sentAt >= PRESENCE_REFRESH_MS;
+
+      if (previous && previous.signature === signature && !(force && stale)) {
+        continue;
+      }
+
+      if (entries.length === 0) {
+        this.lastPresenceByNeighbour.delete(neighbourId);
+      } else {
+        this.lastPresenceByNeighbour.set(neighbourId, {
+          signature,
+          sentAt: now,
+        });
+      }
+
+      void this.sendPresence(neighbourId, entries);
+    }
+
+    this.scheduleFederationRefresh();
+  }
+
+  private async sendPresence(
+    neighbourId: string,
+    players: PresenceEntry[],
+  ): Promise<void> {
+    const body: FederationPresencePayload = {
+      fromCellId: this.cellId ?? "",
+      players,
+    };
+
+    try {
+      const response = await this.neighbourStub(neighbourId).fetch(
+        "https://worldshard.internal/federation/presence",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body),
+        },
+      );
+
+      if (!response.ok) {
+        console.warn(
+          "[voice-worker] presence push rejected",
+          neighbourId,
+          response.status,
+        );
+      }
+    } catch (error) {
+      console.error("[voice-worker] presence push failed", neighbourId, error);
+    }
+  }
+
+  /**
+   * When presence next needs re-sending or remote presence next expires;
+   * null once no local player is near a border and no remote one is known.
+   */
+  private nextFederationRefreshAt(): number | null {
+    let dueAt = Infinity;
+
+    for (const { sentAt } of this.lastPresenceByNeighbour.values()) {
+      dueAt = Math.min(dueAt, sentAt + PRESENCE_REFRESH_MS);
+    }
+
+    for (const { expiresAt } of this.remotePlayersById.values()) {
+      dueAt = Math.min(dueAt, expiresAt);
+    }
+
+    return dueAt === Infinity ? null : dueAt;
+  }
+
+  /**
+   * Brings the alarm forward for the presence refresh. A timer would keep the
+   * shard from hibernating for as long as anyone stood near a border.
+   */
+  private scheduleFederationRefresh(): void {
+    const dueAt = this.nextFederationRefreshAt();
+
+    if (
+      dueAt === null ||
+      (this.federationRefreshAt !== null && this.federationRefreshAt <= dueAt)
+    ) {
+      return;
+    }
+
+    this.federationRefreshAt = dueAt;
+    void this.scheduleCleanup();
+  }
+
+  private rememberRemovedPeers(
+    playerId: string,
+    added: string[],
+    removed: string[],
+  ): void {
+    const now = Date.now();
+    let removedAt = this.removedPeersByPlayer.get(playerId);
+
+    if (!removedAt) {
+      if (removed.length === 0) {
+        return;
+      }
+
+      removedAt = new Map<string, number>();
+      this.removedPeersByPlayer.set(playerId, removedAt);
+    }
+
+    for (const peer of added) {
+      removedAt.delete(peer);
+    }
+
+    for (const [peer, at] of removedAt) {
+      if (now - at > PEER_RELAY_GRACE_MS) {
+        removedAt.delete(peer);
+      }
+    }
+
+    for (const peer of removed) {
+      removedAt.set(peer, now);
+    }
+
+    if (removedAt.size === 0) {
+      this.removedPeersByPlayer.delete(playerId);
     }
   }
 
+  /**
+   * Sends a player what changed in their peer list. Version 3 sockets get a
+   * delta with only the added, removed and moved peers, numbered by `seq`;
+   * a snapshot goes out for the first message on a socket, when `snapshot`
+   * is set (resume, resync) and at least every `PEER_SNAPSHOT_INTERVAL_MS`.
+   */
   private publishPeerDiff(
     playerId: string,
     nextPeers: Set<string>,
     distances: Record<string, number>,
     positions: Record<string, Vector3>,
+    snapshot = false,
   ): void {
     const connection = this.connectionsByPlayer.get(playerId);
 
@@ -573,40 +3044,58 @@ export class WorldShard {
       }
     }
 
-    let distanceChanged = false;
-    const nextDistanceMap = new Map<string, number>();
+    // Peers whose distance moved past the epsilon since it was last sent.
+    const moved = new Set<string>();
 
     for (const [peerId, distance] of Object.entries(distances)) {
-      nextDistanceMap.set(peerId, distance);
       const prev = previousDistances.get(peerId);
       if (
         prev === undefined ||
         Math.abs(prev - distance) > DISTANCE_CHANGE_EPSILON
       ) {
-        distanceChanged = true;
+        moved.add(peerId);
       }
     }
 
-    if (added.length === 0 && removed.length === 0 && !distanceChanged) {
+    if (
+      !snapshot &&
+      added.length === 0 &&
+      removed.length === 0 &&
+      moved.size === 0
+    ) {
       return;
     }
 
+    const now = Date.now();
+    const sequenced = connection.protocolVersion >= SEQUENCED_PEERS_VERSION;
+    const stream = this.peerStreamsByConnection.get(connection.id);
+    const isSnapshot =
+      !sequenced ||
+      snapshot ||
+      !stream ||
+      now - stream.snapshotAt >= PEER_SNAPSHOT_INTERVAL_MS;
+
+    // Remember what the client was told, so small moves add up until they
+    // cross the epsilon instead of being lost one delta at a time.
+    const nextDistanceMap = new Map<string, number>();
+
+    for (const [peerId, distance] of Object.entries(distances)) {
+      const sent = isSnapshot ? undefined : previousDistances.get(peerId);
+      nextDistanceMap.set(
+        peerId,
+        sent === undefined || moved.has(peerId) ? distance : sent,
+      );
+    }
+
     this.peerViewByPlayer.set(playerId, nextPeers);
     this.peerDistancesByPlayer.set(playerId, nextDistanceMap);
+    this.rememberRemovedPeers(playerId, added, removed);
+    this.persistAttachment(connection);
 
-    console.log(
-      "[voice-worker] peers update",
-      playerId,
-      "peers",
-      Array.from(nextPeers),
-      "distances",
-      distances,
-      "positions",
-      positions,
-    );
+    let message: PeerDiffMessage;
 
-    connection.socket.send(
-      JSON.stringify({
+    if (isSnapshot) {
+      message = {
         type: "peers",
         peers: Array.from(nextPeers),
         added: added.length > 0 ? added : undefined,
@@ -614,7 +3103,67 @@ export class WorldShard {
         distances: Object.keys(distances).length > 0 ? distances : undefined,
         positions: Object.keys(positions).length > 0 ? positions : undefined,
         totalPlayers: this.connectionsByPlayer.size,
-      }),
+      };
+    } else {
+      const changedDistances: Record<string, number> = {};
+      const changedPositions: Record<string, Vector3> = {};
+
+      for (const peerId of moved) {
+        changedDistances[peerId] = distances[peerId];
+
+        if (positions[peerId]) {
+          changedPositions[peerId] = positions[peerId];
+        }
+      }
+
+      message = {
+        type: "peers",
+        added: added.length > 0 ? added : undefined,
+        removed: removed.length > 0 ? removed : undefined,
+        distances: moved.size > 0 ? changedDistances : undefined,
+        positions:
+          Object.keys(changedPositions).length > 0
+            ? changedPositions
+            : undefined,
+        totalPlayers: this.connectionsByPlayer.size,
+      };
+    }
+
+    if (sequenced) {
+      const seq = (stream?.seq ?? 0) + 1;
+      this.peerStreamsByConnection.set(connection.id, {
+        seq,
+        snapshotAt: isSnapshot || !stream ? now : stream.snapshotAt,
+      });
+      message.seq = seq;
+      message.snapshot = isSnapshot || undefined;
+    }
+
+    console.log(
+      "[voice-worker] peers update",
+      playerId,
+      isSnapshot ? "snapshot" : "delta",
+      message.seq,
+      "added",
+      added,
+      "removed",
+      removed,
+      "moved",
+      Array.from(moved),
     );
+
+    if (connection.wireFormat !== "binary") {
+      connection.socket.send(encodeServerMessage(message));
+      return;
+    }
+
+    let encoder = this.peerEncodersByConnection.get(connection.id);
+
+    if (!encoder) {
+      encoder = new PeerFrameEncoder();
+      this.peerEncodersByConnection.set(connection.id, encoder);
+    }
+
+    connection.socket.send(encoder.encode(message));
   }
 }
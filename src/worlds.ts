@@ -0,0 +1,321 @@
+import { VoiceChatEnv } from "./config";
+import { isTurnProviderName, TurnProviderName } from "./turn";
+
+/**
+ * What happens when a player registers while already connected to the cell:
+ * `supersede` closes the old socket, `reject` refuses the new one.
+ */
+export type SessionTakeoverPolicy = "supersede" | "reject";
+
+/**
+ * What `/join` does when the player's cell is at its population cap:
+ * `instance` routes them to the first numbered overflow instance with room,
+ * `reject` answers `503 cell_full`.
+ */
+export type OverflowPolicy = "instance" | "reject";
+
+/**
+ * How cells pick a transport: `flag` follows the deployment-wide SFU flag,
+ * `p2p` and `sfu` fix it, and `auto` lets each shard switch by density.
+ */
+export type TransportPolicy = "flag" | "p2p" | "sfu" | "auto";
+
+export type WorldConfig = {
+  cellSizeMeters: number;
+  /** Enter radius: peers closer than this start hearing each other. */
+  proximityRadiusMeters: number;
+  /** Exit radius: established peers are dropped beyond this. */
+  exitRadiusMeters: number;
+  /** Minimum time a peer link is kept before it may be dropped. */
+  minPeerDwellMs: number;
+  /** Maximum peers listed per player; null means unlimited. */
+  maxPeersPerPlayer: number | null;
+  /** Maximum players per cell; null means unlimited. */
+  populationCap: number | null;
+  overflow: OverflowPolicy;
+  /** How many overflow instances `/join` tries before giving up. */
+  maxOverflowInstances: number;
+  sessionTakeover: SessionTakeoverPolicy;
+  transport: TransportPolicy;
+  /** Auto: a cell moves to SFU at this many players... */
+  sfuEnterPlayers: number;
+  /** ...or when any player has this many peers. */
+  sfuEnterPeers: number;
+  /** Auto: back to mesh once players and peer sets are both at most these. */
+  sfuExitPlayers: number;
+  sfuExitPeers: number;
+  /** Auto: minimum time between two switches of a cell. */
+  minTransportDwellMs: number;
+  /** Where join ICE servers come from; null follows region and env. */
+  turnProvider: TurnProviderName | null;
+};
+
+export type WorldRef = {
+  worldId: string;
+  instanceId?: string;
+};
+
+export const DEFAULT_WORLD_ID = "default";
+
+const EXIT_RADIUS_RATIO = 1.15;
+
+export const DEFAULT_WORLD_CONFIG: WorldConfig = {
+  cellSizeMeters: 64,
+  proximityRadiusMeters: 45,
+  exitRadiusMeters: 45 * EXIT_RADIUS_RATIO,
+  minPeerDwellMs: 2_000,
+  maxPeersPerPlayer: 8,
+  populationCap: null,
+  overflow: "instance",
+  maxOverflowInstances: 8,
+  sessionTakeover: "supersede",
+  transport: "flag",
+  sfuEnterPlayers: 16,
+  sfuEnterPeers: 6,
+  sfuExitPlayers: 10,
+  sfuExitPeers: 4,
+  minTransportDwellMs: 30_000,
+  turnProvider: null,
+};
+
+const OVERFLOW_INSTANCE_PREFIX = "overflow-";
+
+const WORLD_SEGMENT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+let parsedConfigs: {
+  raw: string;
+  worlds: Record<string, Partial<WorldConfig>>;
+} | null = null;
+
+export const isValidWorldSegment = (value: unknown): value is string => {
+  return typeof value === "string" && WORLD_SEGMENT_PATTERN.test(value);
+};
+
+/**
+ * World keys namespace cell ids: `<worldId>` or `<worldId>.<instanceId>`.
+ */
+export const formatWorldKey = ({ worldId, instanceId }: WorldRef): string => {
+  return instanceId ? `${worldId}.${instanceId}` : worldId;
+};
+
+export const parseWorldKey = (worldKey: string): WorldRef | null => {
+  const [worldId, instanceId, ...rest] = worldKey.split(".");
+
+  if (
+    rest.length > 0 ||
+    !isValidWorldSegment(worldId) ||
+    (instanceId !== undefined && !isValidWorldSegment(instanceId))
+  ) {
+    return null;
+  }
+
+  return instanceId === undefined ? { worldId } : { worldId, instanceId };
+};
+
+/**
+ * The instance overflow players of `instanceId` are sent to, numbered from
+ * 1: `overflow-2` for the base world, `match-42-overflow-2` for an instance.
+ * Null when the id would not be a valid segment.
+ */
+export const overflowInstanceId = (
+  instanceId: string | undefined,
+  index: number,
+): string | null => {
+  const overflowId = instanceId
+    ? `${instanceId}-${OVERFLOW_INSTANCE_PREFIX}${index}`
+    : `${OVERFLOW_INSTANCE_PREFIX}${index}`;
+
+  return isValidWorldSegment(overflowId) ? overflowId : null;
+};
+
+const readPositiveNumber = (value: unknown): number | undefined => {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : undefined;
+};
+
+const readNonNegativeNumber = (value: unknown): number | undefined => {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : undefined;
+};
+
+const readOptionalLimit = (value: unknown): number | null | undefined => {
+  if (value === null) {
+    return null;
+  }
+
+  const limit = readPositiveNumber(value);
+
+  return limit === undefined ? undefined : Math.floor(limit);
+};
+
+const readWorldConfigs = (
+  env: VoiceChatEnv,
+): Record<string, Partial<WorldConfig>> => {
+  const raw = env.WORLD_CONFIG_JSON ?? "";
+
+  if (parsedConfigs && parsedConfigs.raw === raw) {
+    return parsedConfigs.worlds;
+  }
+
+  const worlds: Record<string, Partial<WorldConfig>> = {};
+
+  if (raw.trim().length > 0) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+
+      if (parsed != null && typeof parsed === "object") {
+        for (const [worldId, entry] of Object.entries(parsed)) {
+          if (
+            !isValidWorldSegment(worldId) ||
+            entry == null ||
+            typeof entry !== "object"
+          ) {
+            continue;
+          }
+
+          const {
+            cellSizeMeters,
+            proximityRadiusMeters,
+            exitRadiusMeters,
+            minPeerDwellMs,
+            maxPeersPerPlayer,
+            populationCap,
+            overflow,
+            maxOverflowInstances,
+            sessionTakeover,
+            transport,
+            sfuEnterPlayers,
+            sfuEnterPeers,
+            sfuExitPlayers,
+            sfuExitPeers,
+            minTransportDwellMs,
+            turnProvider,
+          } = entry as Record<string, unknown>;
+
+          worlds[worldId] = {
+            cellSizeMeters: readPositiveNumber(cellSizeMeters),
+            proximityRadiusMeters: readPositiveNumber(proximityRadiusMeters),
+            exitRadiusMeters: readPositiveNumber(exitRadiusMeters),
+            minPeerDwellMs: readNonNegativeNumber(minPeerDwellMs),
+            maxPeersPerPlayer: readOptionalLimit(maxPeersPerPlayer),
+            populationCap:
+              populationCap === null ? null : readPositiveNumber(populationCap),
+            overflow:
+              overflow === "instance" || overflow === "reject"
+                ? overflow
+                : undefined,
+            maxOverflowInstances:
+              readNonNegativeNumber(maxOverflowInstances) === undefined
+                ? undefined
+                : Math.floor(maxOverflowInstances as number),
+            sessionTakeover:
+              sessionTakeover === "supersede" || sessionTakeover === "reject"
+                ? sessionTakeover
+                : undefined,
+            transport:
+              transport === "flag" ||
+              transport === "p2p" ||
+              transport === "sfu" ||
+              transport === "auto"
+                ? transport
+                : undefined,
+            sfuEnterPlayers: readOptionalLimit(sfuEnterPlayers) ?? undefined,
+            sfuEnterPeers: readOptionalLimit(sfuEnterPeers) ?? undefined,
+            sfuExitPlayers:
+              readNonNegativeNumber(sfuExitPlayers) === undefined
+                ? undefined
+                : Math.floor(sfuExitPlayers as number),
+            sfuExitPeers:
+              readNonNegativeNumber(sfuExitPeers) === undefined
+                ? undefined
+                : Math.floor(sfuExitPeers as number),
+            minTransportDwellMs: readNonNegativeNumber(minTransportDwellMs),
+            turnProvider: isTurnProviderName(turnProvider)
+              ? turnProvider
+              : undefined,
+          };
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to parse WORLD_CONFIG_JSON:", error);
+    }
+  }
+
+  parsedConfigs = { raw, worlds };
+
+  return worlds;
+};
+
+export const isWorldAllowed = (env: VoiceChatEnv, worldId: string): boolean => {
+  if (env.WORLD_ALLOW_UNCONFIGURED?.trim().toLowerCase() !== "false") {
+    return true;
+  }
+
+  return worldId === DEFAULT_WORLD_ID || worldId in readWorldConfigs(env);
+};
+
+export const resolveWorldConfig = (
+  env: VoiceChatEnv,
+  worldId: string,
+): WorldConfig => {
+  const overrides = readWorldConfigs(env)[worldId] ?? {};
+  const cellSizeMeters =
+    overrides.cellSizeMeters ?? DEFAULT_WORLD_CONFIG.cellSizeMeters;
+  // Federation only reaches adjacent cells, so neither radius can exceed a
+  // cell.
+  const proximityRadiusMeters = Math.min(
+    overrides.proximityRadiusMeters ??
+      DEFAULT_WORLD_CONFIG.proximityRadiusMeters,
+    cellSizeMeters,
+  );
+  const sfuEnterPlayers =
+    overrides.sfuEnterPlayers ?? DEFAULT_WORLD_CONFIG.sfuEnterPlayers;
+  const sfuEnterPeers =
+    overrides.sfuEnterPeers ?? DEFAULT_WORLD_CONFIG.sfuEnterPeers;
+  const exitRadiusMeters = Math.min(
+    Math.max(
+      overrides.exitRadiusMeters ?? proximityRadiusMeters * EXIT_RADIUS_RATIO,
+      proximityRadiusMeters,
+    ),
+    cellSizeMeters,
+  );
+
+  return {
+    cellSizeMeters,
+    proximityRadiusMeters,
+    exitRadiusMeters,
+    minPeerDwellMs:
+      overrides.minPeerDwellMs ?? DEFAULT_WORLD_CONFIG.minPeerDwellMs,
+    maxPeersPerPlayer:
+      overrides.maxPeersPerPlayer === undefined
+        ? DEFAULT_WORLD_CONFIG.maxPeersPerPlayer
+        : overrides.maxPeersPerPlayer,
+    populationCap:
+      overrides.populationCap === undefined
+        ? DEFAULT_WORLD_CONFIG.populationCap
+        : overrides.populationCap,
+    overflow: overrides.overflow ?? DEFAULT_WORLD_CONFIG.overflow,
+    maxOverflowInstances:
+      overrides.maxOverflowInstances ??
+      DEFAULT_WORLD_CONFIG.maxOverflowInstances,
+    sessionTakeover:
+      overrides.sessionTakeover ?? DEFAULT_WORLD_CONFIG.sessionTakeover,
+    transport: overrides.transport ?? DEFAULT_WORLD_CONFIG.transport,
+    sfuEnterPlayers,
+    sfuEnterPeers,
+    // Exit thresholds below the enter ones, or cells would flap.
+    sfuExitPlayers: Math.min(
+      overrides.sfuExitPlayers ?? DEFAULT_WORLD_CONFIG.sfuExitPlayers,
+      sfuEnterPlayers - 1,
+    ),
+    sfuExitPeers: Math.min(
+      overrides.sfuExitPeers ?? DEFAULT_WORLD_CONFIG.sfuExitPeers,
+      sfuEnterPeers - 1,
+    ),
+    minTransportDwellMs:
+      overrides.minTransportDwellMs ?? DEFAULT_WORLD_CONFIG.minTransportDwellMs,
+    turnProvider: overrides.turnProvider ?? DEFAULT_WORLD_CONFIG.turnProvider,
+  };
+};